@@ -0,0 +1,7 @@
+'use client';
+
+import AdminApp from '../../../src/pages/Admin/index';
+
+export default function KitchenDisplayPage() {
+  return <AdminApp />;
+}
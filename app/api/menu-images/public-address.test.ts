@@ -0,0 +1,111 @@
+import { LookupAddress } from 'dns';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { fetch } from 'undici';
+import { describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPublicAddress, publicAgent, publicLookup } from './public-address';
+
+const hostOf = (url: string) => new URL(url).hostname;
+
+const lookupResult = (hostname: string, all: boolean) =>
+  new Promise<string | LookupAddress[]>((resolve, reject) => {
+    publicLookup(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address)));
+  });
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    expect(isPublicAddress('93.184.215.14')).toBe(true);
+    expect(isPublicAddress('2606:2800:21f:cb07:6820:80da:af6b:8b2c')).toBe(true);
+    expect(isPublicAddress('[2606:2800:21f:cb07:6820:80da:af6b:8b2c]')).toBe(true);
+  });
+
+  it('rejects loopback, private, link-local and special-use IPv4 ranges', () => {
+    for (const address of [
+      '0.0.0.0', '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '192.0.0.8', '198.18.0.1', '198.19.255.255', '224.0.0.1', '255.255.255.255',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('rejects loopback, unique-local, link-local and translated IPv6 ranges', () => {
+    for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', '64:ff9b::7f00:1', '64:ff9b::a9fe:a9fe']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('looks through IPv4-mapped addresses in dotted and hex form', () => {
+    expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:7f00:1')).toBe(false);
+    expect(isPublicAddress('::ffff:a9fe:a9fe')).toBe(false);
+    expect(isPublicAddress('::ffff:5db8:d70e')).toBe(true);
+  });
+
+  it('rejects IPv4-compatible addresses', () => {
+    expect(isPublicAddress('::7f00:1')).toBe(false);
+    expect(isPublicAddress('::127.0.0.1')).toBe(false);
+  });
+
+  it('rejects the bracketed hosts URL gives for mapped addresses', () => {
+    expect(hostOf('http://[::ffff:127.0.0.1]/')).toBe('[::ffff:7f00:1]');
+    expect(isPublicAddress(hostOf('http://[::ffff:127.0.0.1]/'))).toBe(false);
+    expect(isPublicAddress(hostOf('http://[::ffff:169.254.169.254]/'))).toBe(false);
+    expect(isPublicAddress(hostOf('http://[::1]/'))).toBe(false);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+    expect(isPublicAddress('')).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects other protocols', () => {
+    expect(() => assertPublicUrl(new URL('file:///etc/passwd'))).toThrow('only http(s)');
+    expect(() => assertPublicUrl(new URL('ftp://example.com/a.png'))).toThrow('only http(s)');
+  });
+
+  it('rejects private address literals, including hex and mapped forms', () => {
+    for (const url of [
+      'http://127.0.0.1/a.png',
+      'http://0x7f000001/a.png',
+      'http://2130706433/a.png',
+      'http://[::ffff:127.0.0.1]/a.png',
+      'http://[::ffff:169.254.169.254]/latest/meta-data',
+      'https://[fd00::1]/a.png',
+    ]) {
+      expect(() => assertPublicUrl(new URL(url)), url).toThrow('not reachable');
+    }
+  });
+
+  it('leaves names to the connect-time lookup', () => {
+    expect(() => assertPublicUrl(new URL('https://images.example.com/a.png'))).not.toThrow();
+    expect(() => assertPublicUrl(new URL('http://93.184.215.14/a.png'))).not.toThrow();
+  });
+});
+
+describe('publicLookup', () => {
+  it('fails for names that resolve to loopback', async () => {
+    await expect(lookupResult('localhost', false)).rejects.toThrow('not reachable');
+  });
+
+  it('returns a public address in the shape the caller asked for', async () => {
+    await expect(lookupResult('93.184.215.14', false)).resolves.toBe('93.184.215.14');
+    await expect(lookupResult('93.184.215.14', true)).resolves.toEqual([{ address: '93.184.215.14', family: 4 }]);
+  });
+});
+
+describe('publicAgent', () => {
+  it('refuses to connect to a name that resolves to loopback', async () => {
+    const server = createServer((_, response) => response.end('internal'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await expect(fetch(`http://localhost:${port}/`, { dispatcher: publicAgent }))
+        .rejects.toMatchObject({ cause: { message: 'the image host is not reachable' } });
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Public address checks for the menu image copy, so the importer can't be
+ * pointed at loopback, private, link-local or other special-use addresses
+ * inside our own network.
+ */
+
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { isIP } from 'net';
+import ipaddr from 'ipaddr.js';
+import { Agent } from 'undici';
+
+// IPv4-compatible IPv6 addresses (::a.b.c.d) are deprecated and not in
+// ipaddr.js's special ranges, but still reach the embedded IPv4 address
+const IPV4_COMPATIBLE = ipaddr.parseCIDR('::/96');
+
+/**
+ * True only for ordinary unicast addresses on the public internet. Accepts the
+ * bracketed form URL.hostname gives for IPv6; anything that doesn't parse as
+ * an IP address is not public.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '');
+  if (!ipaddr.isValid(host)) return false;
+
+  let parsed = ipaddr.parse(host);
+  if (parsed.kind() === 'ipv6') {
+    const ipv6 = parsed as ipaddr.IPv6;
+    if (ipv6.match(IPV4_COMPATIBLE)) return false;
+    if (ipv6.isIPv4MappedAddress()) parsed = ipv6.toIPv4Address();
+  }
+
+  return parsed.range() === 'unicast';
+};
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup for outgoing connections that fails unless every address the name
+ * resolves to is public. The socket connects to the address returned here, so a
+ * host can't pass the check and then resolve somewhere else.
+ */
+export const publicLookup = (hostname: string, options: LookupOptions, callback: LookupCallback): void => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(Object.assign(new Error('the image host is not reachable'), { code: 'EPUBLICONLY' }), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Throws unless the URL is http(s) and its host is a name or a public address.
+ * Names are checked again, at connect time, by publicLookup.
+ */
+export const assertPublicUrl = (url: URL): void => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('only http(s) URLs can be copied');
+  }
+
+  // Connections to an address skip the lookup, so those are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error('the image host is not reachable');
+  }
+};
+
+// Every connection made through this agent goes through publicLookup
+export const publicAgent = new Agent({ connect: { lookup: publicLookup } });
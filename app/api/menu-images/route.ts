@@ -0,0 +1,127 @@
+/**
+ * Menu image copy
+ *
+ * Downloads an image from another site and stores a copy in the menu image
+ * bucket, for the menu importer. This runs on the server because most image
+ * hosts don't send CORS headers, so a browser can't read the image itself.
+ * The upload is made as the signed-in admin, so the bucket's storage
+ * policies apply as they do to images uploaded from the item form.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { fetch } from 'undici';
+import { assertPublicUrl, publicAgent } from './public-address';
+
+const MENU_IMAGE_BUCKET = 'restaurant-images';
+
+// Same limit and types as images uploaded from the item form
+const MAX_IMAGE_BYTES = 5242880;
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const DOWNLOAD_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+const fail = (message: string, status: number) => NextResponse.json({ error: message }, { status });
+
+/**
+ * Fetches the image, checking every redirect hop against assertPublicUrl and
+ * connecting through publicAgent so each hop only reaches public addresses
+ */
+const downloadImage = async (sourceUrl: string): Promise<{ bytes: ArrayBuffer; type: string }> => {
+  let url = new URL(sourceUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      dispatcher: publicAgent,
+    }).catch((error: unknown) => {
+      // fetch only says "fetch failed"; the reason, e.g. a blocked address, is the cause
+      throw error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    });
+    const location = response.headers.get('location');
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error('too many redirects');
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`download failed (${response.status})`);
+    }
+
+    const type = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (!IMAGE_EXTENSIONS[type]) {
+      throw new Error('not a JPEG, PNG or WebP image');
+    }
+    if (Number(response.headers.get('content-length')) > MAX_IMAGE_BYTES) {
+      throw new Error('larger than 5MB');
+    }
+
+    const bytes = await response.arrayBuffer();
+    if (bytes.byteLength > MAX_IMAGE_BYTES) {
+      throw new Error('larger than 5MB');
+    }
+    return { bytes, type };
+  }
+};
+
+/**
+ * POST { "url": "https://..." } with the admin's access token as a bearer token.
+ * Responds { "url": public URL of the copy, "path": its path in the bucket }
+ * or { "error": "..." }.
+ */
+export async function POST(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return fail('Not signed in', 401);
+  }
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  const { data: profile } = user
+    ? await supabase.from('users').select('role').eq('id', user.id).maybeSingle()
+    : { data: null };
+
+  if (!profile || !['admin', 'superadmin'].includes(profile.role)) {
+    return fail('Access denied: Only admins can copy menu images', 403);
+  }
+
+  const body = await request.json().catch(() => null);
+  const sourceUrl = typeof body?.url === 'string' ? body.url.trim() : '';
+  if (!sourceUrl) {
+    return fail('An image URL is required', 400);
+  }
+
+  let image: { bytes: ArrayBuffer; type: string };
+  try {
+    image = await downloadImage(sourceUrl);
+  } catch (error: unknown) {
+    return fail(error instanceof Error ? error.message : 'download failed', 422);
+  }
+
+  const filePath = `${Math.random().toString(36).substring(2)}_${Date.now()}.${IMAGE_EXTENSIONS[image.type]}`;
+  const { error: uploadError } = await supabase.storage
+    .from(MENU_IMAGE_BUCKET)
+    .upload(filePath, image.bytes, { cacheControl: '3600', upsert: false, contentType: image.type });
+
+  if (uploadError) {
+    return fail(uploadError.message, 502);
+  }
+
+  const { data } = supabase.storage.from(MENU_IMAGE_BUCKET).getPublicUrl(filePath);
+  return NextResponse.json({ url: data.publicUrl, path: filePath });
+}
@@ -29,7 +29,7 @@ export const MenuManagement = () => {
     description: '',
     price: '',
     image_url: '',
-    category: 'morning' as 'morning' | 'afternoon' | 'dinner',
+    category: 'morning' as MenuItem['category'],
     is_vegetarian: false,
   });
 
@@ -388,7 +388,7 @@ export const MenuManagement = () => {
                 <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
                 <select
                   value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as 'morning' | 'afternoon' | 'dinner' }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
                 >
                   <option value="morning">Morning</option>
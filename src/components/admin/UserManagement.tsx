@@ -15,7 +15,7 @@ export const UserManagement = () => {
     full_name: '',
     phone: '',
     password: '',
-    role: 'customer' as 'customer' | 'admin' | 'superadmin',
+    role: 'customer' as User['role'],
   });
 
   useEffect(() => {
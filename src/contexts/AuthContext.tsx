@@ -7,7 +7,7 @@ interface UserProfile {
   email: string;
   full_name: string;
   phone: string;
-  role: 'customer' | 'admin' | 'superadmin';
+  role: 'customer' | 'driver' | 'admin' | 'superadmin';
   created_at: string;
 }
 
@@ -113,7 +113,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           throw new Error('Failed to fetch user profile');
         }
 
-        if (!profile || (profile.role !== 'admin' && profile.role !== 'superadmin')) {
+        // Drivers sign in here too but only get the driver view
+        if (!profile || !['admin', 'superadmin', 'driver'].includes(profile.role)) {
           await supabase.auth.signOut();
           throw new Error('Access denied. Admin privileges required.');
         }
@@ -2,17 +2,28 @@ import { createContext, useContext, useState, useCallback } from 'react';
 
 export type NotificationType = 'success' | 'error' | 'info' | 'warning';
 
+export interface NotificationOptions {
+  // Milliseconds before the notification is dismissed; 0 keeps it until closed
+  duration?: number;
+  // A later notification with the same key replaces the earlier one
+  key?: string;
+}
+
 interface Notification {
   id: string;
   message: string;
   type: NotificationType;
   timestamp: number;
+  key?: string;
 }
 
+const DEFAULT_DURATION = 5000;
+
 interface NotificationContextType {
   notifications: Notification[];
-  addNotification: (message: string, type: NotificationType) => void;
+  addNotification: (message: string, type: NotificationType, options?: NotificationOptions) => void;
   removeNotification: (id: string) => void;
+  dismissNotification: (key: string) => void;
   clearNotifications: () => void;
 }
 
@@ -33,27 +44,39 @@ interface NotificationProviderProps {
 export const NotificationProvider = ({ children }: NotificationProviderProps) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
-  const addNotification = useCallback((message: string, type: NotificationType) => {
+  const addNotification = useCallback((message: string, type: NotificationType, options: NotificationOptions = {}) => {
     const id = Math.random().toString(36).substr(2, 9);
+    const { duration = DEFAULT_DURATION, key } = options;
     const notification: Notification = {
       id,
       message,
       type,
       timestamp: Date.now(),
+      key,
     };
 
-    setNotifications(prev => [...prev, notification]);
+    setNotifications(prev => [
+      ...(key ? prev.filter(existing => existing.key !== key) : prev),
+      notification,
+    ]);
 
-    // Auto-remove after 5 seconds
-    setTimeout(() => {
-      removeNotification(id);
-    }, 5000);
+    // Auto-remove unless the notification is sticky
+    if (duration > 0) {
+      setTimeout(() => {
+        removeNotification(id);
+      }, duration);
+    }
   }, []);
 
   const removeNotification = useCallback((id: string) => {
     setNotifications(prev => prev.filter(notification => notification.id !== id));
   }, []);
 
+  // Removes a keyed notification, e.g. once the alert it raised no longer applies
+  const dismissNotification = useCallback((key: string) => {
+    setNotifications(prev => prev.filter(notification => notification.key !== key));
+  }, []);
+
   const clearNotifications = useCallback(() => {
     setNotifications([]);
   }, []);
@@ -62,6 +85,7 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
     notifications,
     addNotification,
     removeNotification,
+    dismissNotification,
     clearNotifications,
   };
 
@@ -0,0 +1,94 @@
+-- Order status state machine
+-- Mirrors ORDER_STATUS_TRANSITIONS in order-status.ts - keep the two in sync.
+-- The numbered SQL files in src/lib run in file-name order, each one after those before it;
+-- a later file replaces the functions it changes with CREATE OR REPLACE, or DROP and recreate.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  allowed_roles TEXT[] NOT NULL,
+  requires_reason BOOLEAN NOT NULL DEFAULT FALSE,
+  PRIMARY KEY (from_status, to_status)
+);
+
+DELETE FROM order_status_transitions;
+INSERT INTO order_status_transitions (from_status, to_status, allowed_roles, requires_reason) VALUES
+  ('pending',   'confirmed', ARRAY['admin', 'superadmin'], FALSE),
+  ('pending',   'cancelled', ARRAY['admin', 'superadmin'], FALSE),
+  ('confirmed', 'preparing', ARRAY['admin', 'superadmin'], FALSE),
+  ('confirmed', 'cancelled', ARRAY['admin', 'superadmin'], FALSE),
+  ('preparing', 'ready',     ARRAY['admin', 'superadmin'], FALSE),
+  ('preparing', 'cancelled', ARRAY['admin', 'superadmin'], TRUE),
+  ('ready',     'delivered', ARRAY['admin', 'superadmin', 'driver'], FALSE),
+  ('ready',     'cancelled', ARRAY['superadmin'],          TRUE);
+
+-- Rejects any status change that is not in the transition table,
+-- whether it comes through the RPC below or a direct update
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule order_status_transitions%ROWTYPE;
+  actor_role TEXT;
+  reason TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Backend jobs using the service role are trusted
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO rule FROM order_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Illegal status transition: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  SELECT role INTO actor_role FROM users WHERE id = auth.uid();
+
+  IF actor_role IS NULL OR NOT (actor_role = ANY (rule.allowed_roles)) THEN
+    RAISE EXCEPTION 'Access denied: % cannot move an order from % to %', COALESCE(actor_role, 'anonymous'), OLD.status, NEW.status;
+  END IF;
+
+  -- The reason is only accepted through update_order_status for this transaction
+  reason := NULLIF(TRIM(COALESCE(current_setting('app.status_reason', TRUE), '')), '');
+
+  IF rule.requires_reason AND reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to move an order from % to %', OLD.status, NEW.status;
+  END IF;
+
+  NEW.status_reason := reason;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_status_transition ON orders;
+CREATE TRIGGER orders_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+-- RPC used by the admin panel to change an order's status
+CREATE OR REPLACE FUNCTION update_order_status(p_order_id UUID, p_status TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS orders AS $$
+DECLARE
+  updated orders;
+BEGIN
+  PERFORM set_config('app.status_reason', COALESCE(p_reason, ''), TRUE);
+
+  UPDATE orders
+  SET status = p_status, is_read = TRUE
+  WHERE id = p_order_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
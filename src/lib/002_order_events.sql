@@ -0,0 +1,50 @@
+-- Per-order status history
+-- Every status change on orders is recorded by trigger, with the acting admin and the status reason as note.
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_events_order_id_idx ON order_events (order_id, created_at);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read the history; rows are only written by the trigger below
+DROP POLICY IF EXISTS "Admins can read order events" ON order_events;
+CREATE POLICY "Admins can read order events" ON order_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+CREATE OR REPLACE FUNCTION log_order_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_events (order_id, from_status, to_status, actor_id)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_events (order_id, from_status, to_status, actor_id, note)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid(), NEW.status_reason);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_log_status_event ON orders;
+CREATE TRIGGER orders_log_status_event
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION log_order_status_event();
+
+-- Backfill the placement event for orders created before this migration;
+-- their earlier status changes were never recorded
+INSERT INTO order_events (order_id, from_status, to_status, created_at)
+SELECT o.id, NULL, 'pending', o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = o.id);
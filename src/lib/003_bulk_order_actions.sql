@@ -0,0 +1,78 @@
+-- Bulk order actions
+-- Applies one action to many orders in a single call and reports the outcome per order.
+-- Status changes still go through the orders_status_transition trigger (001_order_status_rules.sql).
+
+CREATE OR REPLACE FUNCTION bulk_update_orders(p_order_ids UUID[], p_action TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS TABLE (order_id UUID, ok BOOLEAN, message TEXT) AS $$
+DECLARE
+  target_id UUID;
+  current_status TEXT;
+  next_status TEXT;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_action NOT IN ('mark_read', 'advance', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'cancel' AND NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel orders';
+  END IF;
+
+  FOREACH target_id IN ARRAY p_order_ids LOOP
+    order_id := target_id;
+
+    SELECT o.status INTO current_status FROM orders o WHERE o.id = target_id;
+
+    IF NOT FOUND THEN
+      ok := FALSE;
+      message := 'not found';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    IF p_action = 'mark_read' THEN
+      UPDATE orders SET is_read = TRUE WHERE id = target_id;
+      ok := TRUE;
+      message := NULL;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    IF p_action = 'advance' THEN
+      SELECT t.to_status INTO next_status FROM order_status_transitions t
+      WHERE t.from_status = current_status AND t.to_status <> 'cancelled';
+    ELSE
+      next_status := 'cancelled';
+    END IF;
+
+    IF next_status IS NULL OR current_status IN ('delivered', 'cancelled') THEN
+      ok := FALSE;
+      message := 'already ' || current_status;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    -- Each order succeeds or fails on its own
+    BEGIN
+      PERFORM set_config('app.status_reason', CASE WHEN p_action = 'cancel' THEN p_reason ELSE '' END, TRUE);
+      UPDATE orders SET status = next_status, is_read = TRUE WHERE id = target_id;
+      ok := TRUE;
+      message := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      ok := FALSE;
+      message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+    next_status := NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,92 @@
+-- Manual order entry for phone and walk-in customers
+-- Prices are read from menu_items on the server, and the order and its items are written in one transaction.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'online';
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_source_check;
+ALTER TABLE orders ADD CONSTRAINT orders_source_check CHECK (source IN ('online', 'phone', 'walk_in'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Manually entered orders don't belong to a customer account
+ALTER TABLE orders ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS menu_item_id UUID REFERENCES menu_items(id) ON DELETE SET NULL;
+
+-- p_items: [{ "menu_item_id": "...", "quantity": 2 }, ...]
+CREATE OR REPLACE FUNCTION create_manual_order(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_delivery_address TEXT,
+  p_special_instructions TEXT,
+  p_source TEXT,
+  p_items JSONB,
+  p_customer_email TEXT DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  new_order orders;
+  line JSONB;
+  menu_item menu_items%ROWTYPE;
+  line_quantity INTEGER;
+  order_total NUMERIC := 0;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_source NOT IN ('phone', 'walk_in') THEN
+    RAISE EXCEPTION 'Manual orders must come from phone or walk_in, not %', p_source;
+  END IF;
+
+  IF NULLIF(TRIM(COALESCE(p_customer_name, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+
+    IF line_quantity IS NULL OR line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO menu_item FROM menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT menu_item.is_available THEN
+      RAISE EXCEPTION '% is not available', menu_item.name;
+    END IF;
+
+    order_total := order_total + menu_item.price * line_quantity;
+  END LOOP;
+
+  -- Staff took the order themselves, so it starts confirmed and read
+  INSERT INTO orders (
+    user_id, customer_name, customer_email, customer_phone, delivery_address,
+    special_instructions, total_amount, status, is_read, source, created_by
+  ) VALUES (
+    NULL, TRIM(p_customer_name), COALESCE(p_customer_email, ''), COALESCE(p_customer_phone, ''),
+    COALESCE(p_delivery_address, ''), NULLIF(TRIM(COALESCE(p_special_instructions, '')), ''),
+    order_total, 'confirmed', TRUE, p_source, auth.uid()
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, item_name, quantity, price)
+  SELECT new_order.id, m.id, m.name, (l->>'quantity')::INTEGER, m.price
+  FROM jsonb_array_elements(p_items) AS l
+  JOIN menu_items m ON m.id = (l->>'menu_item_id')::UUID;
+
+  RETURN new_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
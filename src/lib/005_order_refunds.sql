@@ -0,0 +1,147 @@
+-- Refunds and partial cancellations
+-- Individual order_items lines (or part of them) and arbitrary amounts can be refunded.
+-- total_amount keeps the original charge; orders.refunded_amount tracks what has been given back.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  -- NULL for a partial amount that isn't tied to a line
+  order_item_id UUID REFERENCES order_items(id) ON DELETE SET NULL,
+  quantity INTEGER CHECK (quantity IS NULL OR quantity > 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason_code TEXT NOT NULL CHECK (reason_code IN (
+    'wrong_item', 'missing_item', 'quality_issue', 'late_delivery', 'customer_request', 'other'
+  )),
+  note TEXT,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_refunds_order_id_idx ON order_refunds (order_id, created_at);
+
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read refunds; rows are only written by the functions below
+DROP POLICY IF EXISTS "Admins can read order refunds" ON order_refunds;
+CREATE POLICY "Admins can read order refunds" ON order_refunds
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Refunds (or cancels) p_quantity units of one line at the price it was sold for
+CREATE OR REPLACE FUNCTION refund_order_item(
+  p_order_item_id UUID,
+  p_quantity INTEGER,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS order_refunds AS $$
+DECLARE
+  target_item order_items%ROWTYPE;
+  remaining NUMERIC;
+  refund_amount NUMERIC;
+  new_refund order_refunds;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  SELECT * INTO target_item FROM order_items WHERE id = p_order_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % does not exist', p_order_item_id;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Refund quantity must be at least 1';
+  END IF;
+
+  IF p_quantity > target_item.quantity - target_item.refunded_quantity THEN
+    RAISE EXCEPTION 'Only % of % can still be refunded',
+      target_item.quantity - target_item.refunded_quantity, target_item.item_name;
+  END IF;
+
+  refund_amount := target_item.price * p_quantity;
+
+  -- Lock the order so concurrent refunds can't exceed the total
+  SELECT total_amount - refunded_amount INTO remaining
+  FROM orders WHERE id = target_item.order_id FOR UPDATE;
+
+  IF refund_amount > remaining THEN
+    RAISE EXCEPTION 'Only % can still be refunded on this order', remaining;
+  END IF;
+
+  UPDATE order_items
+  SET refunded_quantity = refunded_quantity + p_quantity
+  WHERE id = p_order_item_id;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + refund_amount
+  WHERE id = target_item.order_id;
+
+  INSERT INTO order_refunds (order_id, order_item_id, quantity, amount, reason_code, note, actor_id)
+  VALUES (
+    target_item.order_id, p_order_item_id, p_quantity, refund_amount, p_reason_code,
+    NULLIF(TRIM(COALESCE(p_note, '')), ''), auth.uid()
+  )
+  RETURNING * INTO new_refund;
+
+  RETURN new_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refunds part of an order's amount without touching its lines (e.g. a goodwill credit)
+CREATE OR REPLACE FUNCTION refund_order_amount(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS order_refunds AS $$
+DECLARE
+  target_order orders%ROWTYPE;
+  new_refund order_refunds;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % does not exist', p_order_id;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  IF p_amount > target_order.total_amount - target_order.refunded_amount THEN
+    RAISE EXCEPTION 'Only % can still be refunded on this order',
+      target_order.total_amount - target_order.refunded_amount;
+  END IF;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_order_id;
+
+  INSERT INTO order_refunds (order_id, amount, reason_code, note, actor_id)
+  VALUES (p_order_id, p_amount, p_reason_code, NULLIF(TRIM(COALESCE(p_note, '')), ''), auth.uid())
+  RETURNING * INTO new_refund;
+
+  RETURN new_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,77 @@
+-- Prep-time targets (SLAs) per order stage
+-- acknowledge: pending -> confirmed, prepare: confirmed -> ready, deliver: ready -> delivered.
+-- A row with category NULL is the global target; a category row overrides it for orders containing that category.
+
+CREATE TABLE IF NOT EXISTS sla_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage TEXT NOT NULL CHECK (stage IN ('acknowledge', 'prepare', 'deliver')),
+  category TEXT CHECK (category IN ('morning', 'afternoon', 'dinner')),
+  target_minutes INTEGER NOT NULL CHECK (target_minutes > 0),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One global row and at most one row per category for each stage
+CREATE UNIQUE INDEX IF NOT EXISTS sla_targets_global_idx ON sla_targets (stage) WHERE category IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS sla_targets_category_idx ON sla_targets (stage, category) WHERE category IS NOT NULL;
+
+INSERT INTO sla_targets (stage, category, target_minutes) VALUES
+  ('acknowledge', NULL, 5),
+  ('prepare', NULL, 25),
+  ('deliver', NULL, 30)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE sla_targets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read SLA targets" ON sla_targets;
+CREATE POLICY "Admins can read SLA targets" ON sla_targets
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Admins can manage SLA targets" ON sla_targets;
+CREATE POLICY "Admins can manage SLA targets" ON sla_targets
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- When each timed stage started, so clients don't need the full event history
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS ready_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION stamp_order_stage_times()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND NEW.confirmed_at IS NULL THEN
+    NEW.confirmed_at := NOW();
+  END IF;
+
+  IF NEW.status = 'ready' AND NEW.ready_at IS NULL THEN
+    NEW.ready_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_stamp_stage_times ON orders;
+CREATE TRIGGER orders_stamp_stage_times
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION stamp_order_stage_times();
+
+-- Backfill from the status history
+UPDATE orders o SET confirmed_at = e.created_at
+FROM (
+  SELECT order_id, MIN(created_at) AS created_at FROM order_events
+  WHERE to_status = 'confirmed' GROUP BY order_id
+) e
+WHERE e.order_id = o.id AND o.confirmed_at IS NULL;
+
+UPDATE orders o SET ready_at = e.created_at
+FROM (
+  SELECT order_id, MIN(created_at) AS created_at FROM order_events
+  WHERE to_status = 'ready' GROUP BY order_id
+) e
+WHERE e.order_id = o.id AND o.ready_at IS NULL;
@@ -0,0 +1,217 @@
+-- Delivery drivers and dispatch
+-- Ready orders are assigned to a driver in a delivery run (one or more orders taken out together).
+-- Drivers log in with the restricted 'driver' role and can only see and deliver orders in their own runs.
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('customer', 'driver', 'admin', 'superadmin'));
+
+CREATE TABLE IF NOT EXISTS drivers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The login used for the driver view; a driver can be on the roster without one
+  user_id UUID UNIQUE REFERENCES users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL DEFAULT '',
+  vehicle TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS delivery_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+  assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS delivery_runs_driver_idx ON delivery_runs (driver_id, status);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_run_id UUID REFERENCES delivery_runs(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS orders_delivery_run_idx ON orders (delivery_run_id);
+
+-- Drivers may deliver; everything else stays with staff
+UPDATE order_status_transitions
+SET allowed_roles = ARRAY['admin', 'superadmin', 'driver']
+WHERE from_status = 'ready' AND to_status = 'delivered';
+
+ALTER TABLE drivers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage drivers" ON drivers;
+CREATE POLICY "Admins can manage drivers" ON drivers
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Drivers can read their own profile" ON drivers;
+CREATE POLICY "Drivers can read their own profile" ON drivers
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Runs are only written by the functions below
+DROP POLICY IF EXISTS "Admins can read delivery runs" ON delivery_runs;
+CREATE POLICY "Admins can read delivery runs" ON delivery_runs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Drivers can read their own runs" ON delivery_runs;
+CREATE POLICY "Drivers can read their own runs" ON delivery_runs
+  FOR SELECT USING (
+    driver_id IN (SELECT id FROM drivers WHERE user_id = auth.uid())
+  );
+
+-- The orders in a driver's active runs, used by the policies and trigger below
+CREATE OR REPLACE FUNCTION current_driver_run_ids()
+RETURNS SETOF UUID AS $$
+  SELECT r.id FROM delivery_runs r
+  JOIN drivers d ON d.id = r.driver_id
+  WHERE d.user_id = auth.uid() AND r.status = 'active';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Drivers can read assigned orders" ON orders;
+CREATE POLICY "Drivers can read assigned orders" ON orders
+  FOR SELECT USING (delivery_run_id IN (SELECT current_driver_run_ids()));
+
+DROP POLICY IF EXISTS "Drivers can read assigned order items" ON order_items;
+CREATE POLICY "Drivers can read assigned order items" ON order_items
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE delivery_run_id IN (SELECT current_driver_run_ids()))
+  );
+
+-- The transition table lets drivers deliver; this keeps them to their own orders
+CREATE OR REPLACE FUNCTION restrict_driver_status_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'driver')
+    AND (OLD.delivery_run_id IS NULL OR OLD.delivery_run_id NOT IN (SELECT current_driver_run_ids()))
+  THEN
+    RAISE EXCEPTION 'Access denied: this order is not assigned to you';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_restrict_driver_updates ON orders;
+CREATE TRIGGER orders_restrict_driver_updates
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION restrict_driver_status_updates();
+
+-- A run completes once none of its orders are still out for delivery
+CREATE OR REPLACE FUNCTION complete_finished_delivery_run()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.delivery_run_id IS NOT NULL
+    AND NEW.status IN ('delivered', 'cancelled')
+    AND NOT EXISTS (
+      SELECT 1 FROM orders
+      WHERE delivery_run_id = NEW.delivery_run_id
+      AND status NOT IN ('delivered', 'cancelled')
+    )
+  THEN
+    UPDATE delivery_runs
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = NEW.delivery_run_id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_complete_delivery_run ON orders;
+CREATE TRIGGER orders_complete_delivery_run
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION complete_finished_delivery_run();
+
+-- Puts ready orders into a new run for one driver
+CREATE OR REPLACE FUNCTION assign_orders_to_driver(p_order_ids UUID[], p_driver_id UUID)
+RETURNS delivery_runs AS $$
+DECLARE
+  new_run delivery_runs;
+  blocked TEXT;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_order_ids IS NULL OR array_length(p_order_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Choose at least one order to assign';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM drivers WHERE id = p_driver_id AND is_active) THEN
+    RAISE EXCEPTION 'Driver % is not on the active roster', p_driver_id;
+  END IF;
+
+  -- Lock the orders so two dispatchers can't assign the same one
+  PERFORM 1 FROM orders WHERE id = ANY (p_order_ids) FOR UPDATE;
+
+  SELECT string_agg('#' || RIGHT(o.id::TEXT, 8), ', ') INTO blocked
+  FROM orders o
+  LEFT JOIN delivery_runs r ON r.id = o.delivery_run_id
+  WHERE o.id = ANY (p_order_ids)
+  AND (o.status <> 'ready' OR r.status = 'active');
+
+  IF blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'Only ready, unassigned orders can be dispatched: %', blocked;
+  END IF;
+
+  INSERT INTO delivery_runs (driver_id, assigned_by)
+  VALUES (p_driver_id, auth.uid())
+  RETURNING * INTO new_run;
+
+  UPDATE orders SET delivery_run_id = new_run.id WHERE id = ANY (p_order_ids);
+
+  RETURN new_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Takes an undelivered order back out of its run
+CREATE OR REPLACE FUNCTION unassign_order(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  run_id UUID;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  SELECT delivery_run_id INTO run_id FROM orders
+  WHERE id = p_order_id AND status = 'ready'
+  FOR UPDATE;
+
+  IF run_id IS NULL THEN
+    RAISE EXCEPTION 'Order % is not waiting in a delivery run', p_order_id;
+  END IF;
+
+  UPDATE orders SET delivery_run_id = NULL WHERE id = p_order_id;
+
+  -- Drop runs left with nothing in them
+  DELETE FROM delivery_runs
+  WHERE id = run_id
+  AND NOT EXISTS (SELECT 1 FROM orders WHERE delivery_run_id = run_id);
+
+  -- ...and complete runs whose remaining orders are all done
+  UPDATE delivery_runs
+  SET status = 'completed', completed_at = NOW()
+  WHERE id = run_id AND status = 'active'
+  AND NOT EXISTS (
+    SELECT 1 FROM orders
+    WHERE delivery_run_id = run_id
+    AND status NOT IN ('delivered', 'cancelled')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
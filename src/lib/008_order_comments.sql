@@ -0,0 +1,67 @@
+-- Internal staff comments on orders
+-- Only admin roles can read or write them; customers never see these rows.
+
+CREATE TABLE IF NOT EXISTS order_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (LENGTH(TRIM(body)) > 0),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_comments_order_id_idx ON order_comments (order_id, created_at);
+CREATE INDEX IF NOT EXISTS order_comments_unresolved_idx ON order_comments (order_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE order_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read order comments" ON order_comments;
+CREATE POLICY "Admins can read order comments" ON order_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Staff can only post as themselves
+DROP POLICY IF EXISTS "Admins can add order comments" ON order_comments;
+CREATE POLICY "Admins can add order comments" ON order_comments
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Admins can resolve order comments" ON order_comments;
+CREATE POLICY "Admins can resolve order comments" ON order_comments
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Only the resolution fields may change after posting
+CREATE OR REPLACE FUNCTION protect_order_comment_body()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.order_id IS DISTINCT FROM OLD.order_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Comments cannot be edited once posted';
+  END IF;
+
+  NEW.resolved_by := CASE WHEN NEW.resolved_at IS NULL THEN NULL ELSE auth.uid() END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_comments_protect_body ON order_comments;
+CREATE TRIGGER order_comments_protect_body
+  BEFORE UPDATE ON order_comments
+  FOR EACH ROW EXECUTE FUNCTION protect_order_comment_body();
+
+-- Live updates for the comment threads (realtime still applies the RLS policies above)
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE order_comments;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
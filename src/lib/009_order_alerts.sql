@@ -0,0 +1,100 @@
+-- New-order alerts and acknowledgement
+-- An online order keeps alerting every admin until someone acknowledges it (or moves it on).
+-- Panel-wide settings such as the escalation delay live in admin_settings; each admin's own
+-- preferences (muting) live in admin_user_settings.
+
+CREATE TABLE IF NOT EXISTS admin_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE admin_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage admin settings" ON admin_settings;
+CREATE POLICY "Admins can manage admin settings" ON admin_settings
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+INSERT INTO admin_settings (key, value) VALUES
+  ('new_order_alerts', '{"escalate_after_minutes": 3}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Personal preferences (such as muting the alert sound) follow the admin across devices
+CREATE TABLE IF NOT EXISTS admin_user_settings (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, key)
+);
+
+ALTER TABLE admin_user_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage their own settings" ON admin_user_settings;
+CREATE POLICY "Admins can manage their own settings" ON admin_user_settings
+  FOR ALL USING (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- So an admin's other tabs pick up changes
+DO $$ BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE admin_user_settings;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Existing orders shouldn't start ringing
+UPDATE orders SET acknowledged_at = created_at WHERE acknowledged_at IS NULL;
+
+-- Staff-entered orders need no alert, and moving an order on counts as acknowledging it
+CREATE OR REPLACE FUNCTION stamp_order_acknowledgement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.acknowledged_at IS NULL AND (
+    (TG_OP = 'INSERT' AND NEW.source IS DISTINCT FROM 'online')
+    OR (TG_OP = 'UPDATE' AND NEW.status <> 'pending')
+  ) THEN
+    NEW.acknowledged_at := NOW();
+    NEW.acknowledged_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_stamp_acknowledgement ON orders;
+CREATE TRIGGER orders_stamp_acknowledgement
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION stamp_order_acknowledgement();
+
+CREATE OR REPLACE FUNCTION acknowledge_orders(p_order_ids UUID[])
+RETURNS SETOF orders AS $$
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  RETURN QUERY
+  UPDATE orders
+  SET acknowledged_at = NOW(), acknowledged_by = auth.uid(), is_read = TRUE
+  WHERE id = ANY (p_order_ids) AND acknowledged_at IS NULL
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,124 @@
+-- Scheduled pre-orders and fulfilment slots
+-- An order with scheduled_for set is a pre-order; NULL means ASAP.
+-- Slots are concrete time windows with a capacity, so a customer can book tomorrow's lunch tonight.
+-- The kitchen lead time (how long before its slot a pre-order reaches the kitchen) lives in admin_settings.
+
+CREATE TABLE IF NOT EXISTS fulfilment_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fulfilment_type TEXT NOT NULL DEFAULT 'delivery' CHECK (fulfilment_type IN ('delivery', 'pickup')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS fulfilment_slots_starts_at_idx ON fulfilment_slots (starts_at);
+
+ALTER TABLE fulfilment_slots ENABLE ROW LEVEL SECURITY;
+
+-- Customers need to see slots to book one
+DROP POLICY IF EXISTS "Anyone can view fulfilment slots" ON fulfilment_slots;
+CREATE POLICY "Anyone can view fulfilment slots" ON fulfilment_slots
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage fulfilment slots" ON fulfilment_slots;
+CREATE POLICY "Admins can manage fulfilment slots" ON fulfilment_slots
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+-- A booked slot can't be deleted out from under its orders
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fulfilment_slot_id UUID REFERENCES fulfilment_slots(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS orders_fulfilment_slot_id_idx ON orders (fulfilment_slot_id);
+CREATE INDEX IF NOT EXISTS orders_scheduled_for_idx ON orders (scheduled_for) WHERE scheduled_for IS NOT NULL;
+
+INSERT INTO admin_settings (key, value) VALUES
+  ('scheduled_orders', '{"kitchen_lead_minutes": 45}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Books the slot: fills in scheduled_for, keeps it inside the window and enforces capacity.
+-- The slot row is locked so two customers can't take the last place at once.
+CREATE OR REPLACE FUNCTION enforce_fulfilment_slot()
+RETURNS TRIGGER AS $$
+DECLARE
+  slot fulfilment_slots%ROWTYPE;
+  booked INTEGER;
+BEGIN
+  IF NEW.fulfilment_slot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.fulfilment_slot_id IS NOT DISTINCT FROM OLD.fulfilment_slot_id
+    AND NEW.scheduled_for IS NOT DISTINCT FROM OLD.scheduled_for THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO slot FROM fulfilment_slots WHERE id = NEW.fulfilment_slot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fulfilment slot % does not exist', NEW.fulfilment_slot_id;
+  END IF;
+
+  NEW.scheduled_for := COALESCE(NEW.scheduled_for, slot.starts_at);
+
+  IF NEW.scheduled_for < slot.starts_at OR NEW.scheduled_for >= slot.ends_at THEN
+    RAISE EXCEPTION 'Requested time is outside the selected slot';
+  END IF;
+
+  IF slot.ends_at <= NOW() THEN
+    RAISE EXCEPTION 'This slot has already passed';
+  END IF;
+
+  -- Moving within the same slot doesn't take another place
+  IF TG_OP = 'INSERT' OR NEW.fulfilment_slot_id IS DISTINCT FROM OLD.fulfilment_slot_id THEN
+    SELECT COUNT(*) INTO booked
+    FROM orders
+    WHERE fulfilment_slot_id = slot.id
+    AND status <> 'cancelled'
+    AND id <> NEW.id;
+
+    IF booked >= slot.capacity THEN
+      RAISE EXCEPTION 'This slot is full';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_enforce_fulfilment_slot ON orders;
+CREATE TRIGGER orders_enforce_fulfilment_slot
+  BEFORE INSERT OR UPDATE OF fulfilment_slot_id, scheduled_for ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_fulfilment_slot();
+
+-- Slots with their remaining places; customers can't read other people's orders, so counts come from here
+CREATE OR REPLACE FUNCTION get_fulfilment_slots(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  id UUID,
+  fulfilment_type TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  capacity INTEGER,
+  booked INTEGER
+) AS $$
+  SELECT
+    s.id,
+    s.fulfilment_type,
+    s.starts_at,
+    s.ends_at,
+    s.capacity,
+    (
+      SELECT COUNT(*)::INTEGER FROM orders o
+      WHERE o.fulfilment_slot_id = s.id AND o.status <> 'cancelled'
+    ) AS booked
+  FROM fulfilment_slots s
+  WHERE s.ends_at > p_from AND s.starts_at < p_to
+  ORDER BY s.starts_at, s.fulfilment_type;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,217 @@
+-- Delivery zones with fee, minimum order and ETA
+-- A zone is either a polygon of [lat, lng] points or a radius around the kitchen.
+-- Addresses are geocoded in the admin panel and zone checks run against the stored coordinates.
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  zone_type TEXT NOT NULL CHECK (zone_type IN ('polygon', 'radius')),
+  -- [[lat, lng], ...] for polygon zones
+  polygon JSONB,
+  radius_km NUMERIC(6, 2) CHECK (radius_km > 0),
+  delivery_fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0),
+  min_order_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  eta_minutes INTEGER NOT NULL CHECK (eta_minutes > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (zone_type = 'polygon' AND jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+    OR (zone_type = 'radius' AND radius_km IS NOT NULL)
+  )
+);
+
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
+
+-- Customers see zones to know whether (and for how much) we deliver to them
+DROP POLICY IF EXISTS "Anyone can view active delivery zones" ON delivery_zones;
+CREATE POLICY "Anyone can view active delivery zones" ON delivery_zones
+  FOR SELECT USING (is_active);
+
+DROP POLICY IF EXISTS "Admins can manage delivery zones" ON delivery_zones;
+CREATE POLICY "Admins can manage delivery zones" ON delivery_zones
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Radius zones are measured from here
+INSERT INTO admin_settings (key, value) VALUES
+  ('kitchen_location', '{"lat": null, "lng": null}')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_lat DOUBLE PRECISION;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_lng DOUBLE PRECISION;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_zone_id UUID REFERENCES delivery_zones(id) ON DELETE SET NULL;
+-- Included in total_amount
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_fee NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Same test as zoneContains in delivery-zones.ts: ray casting for polygons, great-circle distance
+-- from the kitchen for radius zones
+CREATE OR REPLACE FUNCTION delivery_zone_contains(p_zone delivery_zones, p_lat DOUBLE PRECISION, p_lng DOUBLE PRECISION)
+RETURNS BOOLEAN AS $$
+DECLARE
+  vertex_count INTEGER;
+  j INTEGER;
+  lat_i DOUBLE PRECISION;
+  lng_i DOUBLE PRECISION;
+  lat_j DOUBLE PRECISION;
+  lng_j DOUBLE PRECISION;
+  inside BOOLEAN := FALSE;
+  kitchen JSONB;
+  kitchen_lat DOUBLE PRECISION;
+  kitchen_lng DOUBLE PRECISION;
+BEGIN
+  IF p_zone.zone_type = 'polygon' THEN
+    vertex_count := COALESCE(jsonb_array_length(p_zone.polygon), 0);
+    IF vertex_count < 3 THEN
+      RETURN FALSE;
+    END IF;
+
+    j := vertex_count - 1;
+    FOR i IN 0 .. vertex_count - 1 LOOP
+      lat_i := (p_zone.polygon->i->>0)::DOUBLE PRECISION;
+      lng_i := (p_zone.polygon->i->>1)::DOUBLE PRECISION;
+      lat_j := (p_zone.polygon->j->>0)::DOUBLE PRECISION;
+      lng_j := (p_zone.polygon->j->>1)::DOUBLE PRECISION;
+
+      -- Nested so the division only runs for edges that cross the point's latitude
+      IF (lat_i > p_lat) <> (lat_j > p_lat) THEN
+        IF p_lng < (lng_j - lng_i) * (p_lat - lat_i) / (lat_j - lat_i) + lng_i THEN
+          inside := NOT inside;
+        END IF;
+      END IF;
+      j := i;
+    END LOOP;
+
+    RETURN inside;
+  END IF;
+
+  SELECT value INTO kitchen FROM admin_settings WHERE key = 'kitchen_location';
+  kitchen_lat := (kitchen->>'lat')::DOUBLE PRECISION;
+  kitchen_lng := (kitchen->>'lng')::DOUBLE PRECISION;
+
+  IF kitchen_lat IS NULL OR kitchen_lng IS NULL OR p_zone.radius_km IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN 2 * 6371 * asin(sqrt(
+    sin(radians(p_lat - kitchen_lat) / 2) ^ 2
+    + cos(radians(kitchen_lat)) * cos(radians(p_lat)) * sin(radians(p_lng - kitchen_lng) / 2) ^ 2
+  )) <= p_zone.radius_km;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Manual entry now matches the address to a zone: the fee is read from it and its minimum is enforced.
+-- p_delivery_zone_id is the zone the panel matched; an order is rejected if the server matches another.
+DROP FUNCTION IF EXISTS create_manual_order(TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT);
+
+-- p_items: [{ "menu_item_id": "...", "quantity": 2 }, ...]
+CREATE OR REPLACE FUNCTION create_manual_order(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_delivery_address TEXT,
+  p_special_instructions TEXT,
+  p_source TEXT,
+  p_items JSONB,
+  p_customer_email TEXT DEFAULT NULL,
+  p_delivery_zone_id UUID DEFAULT NULL,
+  p_delivery_lat DOUBLE PRECISION DEFAULT NULL,
+  p_delivery_lng DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  new_order orders;
+  line JSONB;
+  menu_item menu_items%ROWTYPE;
+  zone delivery_zones%ROWTYPE;
+  line_quantity INTEGER;
+  order_total NUMERIC := 0;
+  zone_fee NUMERIC := 0;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_source NOT IN ('phone', 'walk_in') THEN
+    RAISE EXCEPTION 'Manual orders must come from phone or walk_in, not %', p_source;
+  END IF;
+
+  IF NULLIF(TRIM(COALESCE(p_customer_name, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+
+    IF line_quantity IS NULL OR line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO menu_item FROM menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT menu_item.is_available THEN
+      RAISE EXCEPTION '% is not available', menu_item.name;
+    END IF;
+
+    order_total := order_total + menu_item.price * line_quantity;
+  END LOOP;
+
+  -- The zone is matched again from the coordinates, as findDeliveryZone does, so a stale
+  -- tab or a wrong pick can't set the fee
+  IF p_delivery_lat IS NOT NULL AND p_delivery_lng IS NOT NULL THEN
+    SELECT * INTO zone FROM delivery_zones z
+    WHERE z.is_active AND delivery_zone_contains(z, p_delivery_lat, p_delivery_lng)
+    ORDER BY z.delivery_fee, z.name, z.id
+    LIMIT 1;
+  END IF;
+
+  IF p_delivery_zone_id IS DISTINCT FROM zone.id THEN
+    RAISE EXCEPTION 'Delivery zones have changed: this address is now %. Check the address again',
+      COALESCE('in ' || zone.name, 'outside every delivery zone');
+  END IF;
+
+  IF zone.id IS NOT NULL THEN
+    IF order_total < zone.min_order_amount THEN
+      RAISE EXCEPTION '% has a minimum order of %', zone.name, zone.min_order_amount;
+    END IF;
+
+    zone_fee := zone.delivery_fee;
+  END IF;
+
+  -- Staff took the order themselves, so it starts confirmed and read
+  INSERT INTO orders (
+    user_id, customer_name, customer_email, customer_phone, delivery_address,
+    special_instructions, total_amount, status, is_read, source, created_by,
+    delivery_zone_id, delivery_fee, delivery_lat, delivery_lng
+  ) VALUES (
+    NULL, TRIM(p_customer_name), COALESCE(p_customer_email, ''), COALESCE(p_customer_phone, ''),
+    COALESCE(p_delivery_address, ''), NULLIF(TRIM(COALESCE(p_special_instructions, '')), ''),
+    order_total + zone_fee, 'confirmed', TRUE, p_source, auth.uid(),
+    zone.id, zone_fee, p_delivery_lat, p_delivery_lng
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, item_name, quantity, price)
+  SELECT new_order.id, m.id, m.name, (l->>'quantity')::INTEGER, m.price
+  FROM jsonb_array_elements(p_items) AS l
+  JOIN menu_items m ON m.id = (l->>'menu_item_id')::UUID;
+
+  RETURN new_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,165 @@
+-- Per-admin read/unread tracking
+-- orders.is_read is shared by everyone, so read state now lives per admin:
+--   order_read_marks: everything created up to all_read_before counts as read ("mark all as read")
+--   order_reads: per-order overrides on top of that (read, or marked unread again)
+-- orders.is_read is left in place for older screens but no longer drives the admin panel.
+
+CREATE TABLE IF NOT EXISTS order_read_marks (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  all_read_before TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS order_reads (
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  is_read BOOLEAN NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (order_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS order_reads_user_id_idx ON order_reads (user_id);
+
+ALTER TABLE order_read_marks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_reads ENABLE ROW LEVEL SECURITY;
+
+-- Each admin only sees their own read state; writes go through the functions below
+DROP POLICY IF EXISTS "Admins can view their read marks" ON order_read_marks;
+CREATE POLICY "Admins can view their read marks" ON order_read_marks
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view their order reads" ON order_reads;
+CREATE POLICY "Admins can view their order reads" ON order_reads
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Existing history starts out read for every current admin
+INSERT INTO order_read_marks (user_id, all_read_before)
+SELECT id, NOW() FROM users WHERE role IN ('admin', 'superadmin')
+ON CONFLICT (user_id) DO NOTHING;
+
+-- An admin who hasn't marked anything yet has read everything from before their account existed
+CREATE OR REPLACE FUNCTION current_admin_read_mark()
+RETURNS TIMESTAMPTZ AS $$
+  SELECT COALESCE(
+    (SELECT all_read_before FROM order_read_marks WHERE user_id = auth.uid()),
+    (SELECT created_at FROM users WHERE id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_unread_order_count()
+RETURNS INTEGER AS $$
+DECLARE
+  read_mark TIMESTAMPTZ := current_admin_read_mark();
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  RETURN (
+    SELECT COUNT(*) FROM orders o
+    WHERE o.created_at > read_mark
+    AND NOT EXISTS (
+      SELECT 1 FROM order_reads r
+      WHERE r.order_id = o.id AND r.user_id = auth.uid() AND r.is_read
+    )
+  ) + (
+    SELECT COUNT(*) FROM order_reads r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.user_id = auth.uid() AND NOT r.is_read AND o.created_at <= read_mark
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Which of the given orders are unread for the current admin
+CREATE OR REPLACE FUNCTION get_unread_order_ids(p_order_ids UUID[])
+RETURNS SETOF UUID AS $$
+  SELECT o.id
+  FROM orders o
+  LEFT JOIN order_reads r ON r.order_id = o.id AND r.user_id = auth.uid()
+  WHERE o.id = ANY (p_order_ids)
+  AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  AND NOT COALESCE(r.is_read, o.created_at <= current_admin_read_mark());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_orders_read(p_order_ids UUID[], p_read BOOLEAN DEFAULT TRUE)
+RETURNS VOID AS $$
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  INSERT INTO order_reads (order_id, user_id, is_read, updated_at)
+  SELECT o.id, auth.uid(), p_read, NOW()
+  FROM orders o
+  WHERE o.id = ANY (p_order_ids)
+  ON CONFLICT (order_id, user_id) DO UPDATE
+  SET is_read = EXCLUDED.is_read, updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_all_orders_read()
+RETURNS VOID AS $$
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  INSERT INTO order_read_marks (user_id, all_read_before)
+  VALUES (auth.uid(), NOW())
+  ON CONFLICT (user_id) DO UPDATE SET all_read_before = EXCLUDED.all_read_before;
+
+  -- Everything up to now is read, so the per-order overrides are no longer needed
+  DELETE FROM order_reads WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whoever creates, acknowledges or moves an order has seen it (only for them, not everyone)
+CREATE OR REPLACE FUNCTION mark_order_read_by_actor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin')
+  ) THEN
+    INSERT INTO order_reads (order_id, user_id, is_read, updated_at)
+    VALUES (NEW.id, auth.uid(), TRUE, NOW())
+    ON CONFLICT (order_id, user_id) DO UPDATE
+    SET is_read = TRUE, updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_mark_read_by_actor ON orders;
+CREATE TRIGGER orders_mark_read_by_actor
+  AFTER INSERT OR UPDATE OF status, acknowledged_at ON orders
+  FOR EACH ROW EXECUTE FUNCTION mark_order_read_by_actor();
+
+-- Live badge updates, including from the same admin's other tabs and devices
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE order_reads;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE order_read_marks;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
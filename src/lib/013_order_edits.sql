@@ -0,0 +1,176 @@
+-- Editing an order's line items after placement
+-- Lines can be added from menu_items, re-quantified or removed; total_amount is recalculated
+-- from the lines plus the delivery fee. Every edit is logged with who made it.
+-- Orders that are ready or delivered are locked unless a superadmin overrides; cancelled orders never change.
+
+CREATE TABLE IF NOT EXISTS order_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  -- [{ "item_name": "...", "price": 4.5, "from_quantity": 1, "to_quantity": 2 }, ...]; 0 means not on the order
+  changes JSONB NOT NULL,
+  previous_total NUMERIC(10, 2) NOT NULL,
+  new_total NUMERIC(10, 2) NOT NULL,
+  -- TRUE when a superadmin edited a ready or delivered order
+  overrode_lock BOOLEAN NOT NULL DEFAULT FALSE,
+  note TEXT,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_edits_order_id_idx ON order_edits (order_id, created_at);
+
+ALTER TABLE order_edits ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read the edit log; rows are only written by edit_order_items
+DROP POLICY IF EXISTS "Admins can read order edits" ON order_edits;
+CREATE POLICY "Admins can read order edits" ON order_edits
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- p_changes: [{ "order_item_id": "...", "quantity": 0 }, { "menu_item_id": "...", "quantity": 2 }, ...]
+-- An order_item_id sets that line's quantity (0 removes it); a menu_item_id adds a new line at the current menu price.
+CREATE OR REPLACE FUNCTION edit_order_items(
+  p_order_id UUID,
+  p_changes JSONB,
+  p_override BOOLEAN DEFAULT FALSE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS order_edits AS $$
+DECLARE
+  actor_role TEXT;
+  target_order orders%ROWTYPE;
+  target_item order_items%ROWTYPE;
+  menu_item menu_items%ROWTYPE;
+  change JSONB;
+  line_quantity INTEGER;
+  changes_log JSONB := '[]'::JSONB;
+  items_total NUMERIC;
+  new_total NUMERIC;
+  is_locked BOOLEAN;
+  new_edit order_edits;
+BEGIN
+  SELECT role INTO actor_role FROM users WHERE id = auth.uid();
+
+  -- Check if user is admin
+  IF actor_role IS NULL OR actor_role NOT IN ('admin', 'superadmin') THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  -- Lock the order so concurrent edits and refunds see each other's totals
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % does not exist', p_order_id;
+  END IF;
+
+  IF target_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be edited';
+  END IF;
+
+  is_locked := target_order.status IN ('ready', 'delivered');
+
+  IF is_locked AND NOT (COALESCE(p_override, FALSE) AND actor_role = 'superadmin') THEN
+    RAISE EXCEPTION 'Order is % and can only be edited with a superadmin override', target_order.status;
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_array_length(p_changes) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    line_quantity := (change->>'quantity')::INTEGER;
+
+    IF change ? 'order_item_id' THEN
+      SELECT * INTO target_item FROM order_items
+      WHERE id = (change->>'order_item_id')::UUID AND order_id = p_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Line % is not on this order', change->>'order_item_id';
+      END IF;
+
+      IF line_quantity IS NULL OR line_quantity < 0 THEN
+        RAISE EXCEPTION 'Invalid quantity for %', target_item.item_name;
+      END IF;
+
+      -- Refunded units stay on the order so the refund still adds up
+      IF line_quantity < target_item.refunded_quantity THEN
+        RAISE EXCEPTION '% of % have been refunded and cannot be removed',
+          target_item.refunded_quantity, target_item.item_name;
+      END IF;
+
+      IF line_quantity <> target_item.quantity THEN
+        IF line_quantity = 0 THEN
+          DELETE FROM order_items WHERE id = target_item.id;
+        ELSE
+          UPDATE order_items SET quantity = line_quantity WHERE id = target_item.id;
+        END IF;
+
+        changes_log := changes_log || jsonb_build_object(
+          'item_name', target_item.item_name,
+          'price', target_item.price,
+          'from_quantity', target_item.quantity,
+          'to_quantity', line_quantity
+        );
+      END IF;
+    ELSIF change ? 'menu_item_id' THEN
+      SELECT * INTO menu_item FROM menu_items WHERE id = (change->>'menu_item_id')::UUID;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Menu item % does not exist', change->>'menu_item_id';
+      END IF;
+
+      IF NOT menu_item.is_available THEN
+        RAISE EXCEPTION '% is not available', menu_item.name;
+      END IF;
+
+      IF line_quantity IS NULL OR line_quantity < 1 THEN
+        RAISE EXCEPTION 'Invalid quantity for %', menu_item.name;
+      END IF;
+
+      INSERT INTO order_items (order_id, menu_item_id, item_name, quantity, price)
+      VALUES (p_order_id, menu_item.id, menu_item.name, line_quantity, menu_item.price);
+
+      changes_log := changes_log || jsonb_build_object(
+        'item_name', menu_item.name,
+        'price', menu_item.price,
+        'from_quantity', 0,
+        'to_quantity', line_quantity
+      );
+    ELSE
+      RAISE EXCEPTION 'Each change needs an order_item_id or a menu_item_id';
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(changes_log) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'An order needs at least one item; cancel it instead';
+  END IF;
+
+  SELECT SUM(price * quantity) INTO items_total
+  FROM order_items WHERE order_id = p_order_id;
+
+  new_total := items_total + target_order.delivery_fee;
+
+  IF new_total < target_order.refunded_amount THEN
+    RAISE EXCEPTION 'The new total of % is less than the % already refunded', new_total, target_order.refunded_amount;
+  END IF;
+
+  UPDATE orders
+  SET total_amount = new_total, updated_at = NOW()
+  WHERE id = p_order_id;
+
+  INSERT INTO order_edits (order_id, changes, previous_total, new_total, overrode_lock, note, actor_id)
+  VALUES (
+    p_order_id, changes_log, target_order.total_amount, new_total, is_locked,
+    NULLIF(TRIM(COALESCE(p_note, '')), ''), auth.uid()
+  )
+  RETURNING * INTO new_edit;
+
+  RETURN new_edit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,213 @@
+-- Kitchen busy mode and order intake pausing
+-- A single kitchen_status row that storefronts read: accepting, busy (quote a longer ETA) or paused
+-- (online orders are rejected). The kitchen pauses itself when pending + preparing orders go over
+-- the auto-pause threshold; pre-orders count once they are within the kitchen lead time. Every mode change is logged in kitchen_status_log.
+
+CREATE TABLE IF NOT EXISTS kitchen_status (
+  -- Only ever one row
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  mode TEXT NOT NULL DEFAULT 'accepting' CHECK (mode IN ('accepting', 'busy', 'paused')),
+  reason TEXT,
+  -- TRUE when the current mode was set by the auto-pause trigger rather than an admin
+  is_automatic BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Added to quoted ETAs while busy
+  busy_extra_minutes INTEGER NOT NULL DEFAULT 20 CHECK (busy_extra_minutes >= 0),
+  -- Pending + preparing orders above which intake pauses; NULL turns auto-pause off
+  auto_pause_threshold INTEGER CHECK (auto_pause_threshold IS NULL OR auto_pause_threshold > 0),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO kitchen_status (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS kitchen_status_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_mode TEXT,
+  to_mode TEXT NOT NULL,
+  reason TEXT,
+  is_automatic BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Pending + preparing orders at the time of the change
+  active_orders INTEGER,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS kitchen_status_log_created_at_idx ON kitchen_status_log (created_at);
+
+ALTER TABLE kitchen_status ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kitchen_status_log ENABLE ROW LEVEL SECURITY;
+
+-- Storefronts read the status to show ETAs or a "not taking orders" notice; writes go through the functions below
+DROP POLICY IF EXISTS "Anyone can view kitchen status" ON kitchen_status;
+CREATE POLICY "Anyone can view kitchen status" ON kitchen_status
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can read kitchen status log" ON kitchen_status_log;
+CREATE POLICY "Admins can read kitchen status log" ON kitchen_status_log
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Pre-orders only count once they reach the kitchen, a lead time before their slot (010_scheduled_orders.sql)
+CREATE OR REPLACE FUNCTION count_active_kitchen_orders()
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM orders
+  WHERE status IN ('pending', 'preparing')
+  AND (
+    scheduled_for IS NULL
+    OR scheduled_for <= NOW() + make_interval(mins => COALESCE(
+      (SELECT (value->>'kitchen_lead_minutes')::INTEGER FROM admin_settings WHERE key = 'scheduled_orders'),
+      45
+    ))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_kitchen_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mode IS DISTINCT FROM OLD.mode THEN
+    INSERT INTO kitchen_status_log (from_mode, to_mode, reason, is_automatic, active_orders, actor_id)
+    VALUES (
+      OLD.mode, NEW.mode, NEW.reason, NEW.is_automatic, count_active_kitchen_orders(),
+      CASE WHEN NEW.is_automatic THEN NULL ELSE auth.uid() END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS kitchen_status_log_change ON kitchen_status;
+CREATE TRIGGER kitchen_status_log_change
+  AFTER UPDATE OF mode ON kitchen_status
+  FOR EACH ROW EXECUTE FUNCTION log_kitchen_status_change();
+
+CREATE OR REPLACE FUNCTION set_kitchen_mode(p_mode TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS kitchen_status AS $$
+DECLARE
+  updated kitchen_status;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_mode NOT IN ('accepting', 'busy', 'paused') THEN
+    RAISE EXCEPTION 'Unknown kitchen mode %', p_mode;
+  END IF;
+
+  UPDATE kitchen_status
+  SET mode = p_mode,
+      reason = NULLIF(TRIM(COALESCE(p_reason, '')), ''),
+      is_automatic = FALSE,
+      updated_by = auth.uid(),
+      updated_at = NOW()
+  WHERE id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_kitchen_intake_settings(
+  p_busy_extra_minutes INTEGER,
+  p_auto_pause_threshold INTEGER
+)
+RETURNS kitchen_status AS $$
+DECLARE
+  updated kitchen_status;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  UPDATE kitchen_status
+  SET busy_extra_minutes = p_busy_extra_minutes,
+      auto_pause_threshold = p_auto_pause_threshold,
+      updated_by = auth.uid(),
+      updated_at = NOW()
+  WHERE id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Paused kitchens turn away online orders; staff can still enter phone and walk-in orders on purpose.
+-- source is filled in by the client, so only an admin's phone or walk-in order gets through
+-- (orders_enforce_source in 015_order_review.sql rejects anyone else's).
+CREATE OR REPLACE FUNCTION enforce_kitchen_intake()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM kitchen_status WHERE id AND mode = 'paused')
+    AND NOT (
+      COALESCE(NEW.source, 'online') <> 'online'
+      AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+    ) THEN
+    RAISE EXCEPTION 'The kitchen is not taking orders right now';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_enforce_kitchen_intake ON orders;
+CREATE TRIGGER orders_enforce_kitchen_intake
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_kitchen_intake();
+
+-- Pause intake once the kitchen is over its threshold; resuming is left to an admin
+CREATE OR REPLACE FUNCTION check_kitchen_auto_pause()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status kitchen_status;
+  active_orders INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'preparing') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO current_status FROM kitchen_status WHERE id;
+
+  IF current_status.mode = 'paused' OR current_status.auto_pause_threshold IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  active_orders := count_active_kitchen_orders();
+
+  IF active_orders > current_status.auto_pause_threshold THEN
+    UPDATE kitchen_status
+    SET mode = 'paused',
+        reason = format('%s orders pending or preparing (limit %s)', active_orders, current_status.auto_pause_threshold),
+        is_automatic = TRUE,
+        updated_by = NULL,
+        updated_at = NOW()
+    -- Another order may have paused the kitchen in the meantime
+    WHERE id AND mode <> 'paused';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_check_kitchen_auto_pause ON orders;
+CREATE TRIGGER orders_check_kitchen_auto_pause
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION check_kitchen_auto_pause();
+
+-- Storefronts and every open admin panel react to mode changes live
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE kitchen_status;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
@@ -0,0 +1,245 @@
+-- Duplicate and suspicious order detection
+-- Online orders are checked as they come in and flagged for review when they:
+--   duplicate a recent order (same phone or email, identical items) within the duplicate window
+--   exceed the large-order amount
+--   match a blocklisted phone, email or address
+-- A flagged order is held in pending (it can still be cancelled) until an admin clears it.
+-- The rules live in admin_settings under 'order_review_rules'.
+
+INSERT INTO admin_settings (key, value) VALUES
+  ('order_review_rules', '{"duplicate_window_minutes": 10, "large_order_amount": 250}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS order_blocklist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('phone', 'email', 'address')),
+  -- Stored normalised (see normalize_contact) so formatting differences still match
+  value TEXT NOT NULL,
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (kind, value)
+);
+
+ALTER TABLE order_blocklist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage the order blocklist" ON order_blocklist;
+CREATE POLICY "Admins can manage the order blocklist" ON order_blocklist
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Phones keep only their digits, emails and addresses are lower-cased with whitespace collapsed
+CREATE OR REPLACE FUNCTION normalize_contact(p_kind TEXT, p_value TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(
+    CASE p_kind
+      WHEN 'phone' THEN regexp_replace(COALESCE(p_value, ''), '[^0-9]', '', 'g')
+      ELSE lower(regexp_replace(TRIM(COALESCE(p_value, '')), '\s+', ' ', 'g'))
+    END,
+    ''
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_blocklist_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.value := normalize_contact(NEW.kind, NEW.value);
+
+  IF NEW.value IS NULL THEN
+    RAISE EXCEPTION 'Blocklist value cannot be empty';
+  END IF;
+
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_blocklist_normalize ON order_blocklist;
+CREATE TRIGGER order_blocklist_normalize
+  BEFORE INSERT OR UPDATE ON order_blocklist
+  FOR EACH ROW EXECUTE FUNCTION normalize_blocklist_entry();
+
+-- NULL when the order was never flagged
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS review_status TEXT CHECK (review_status IN ('flagged', 'cleared'));
+-- Reason codes: duplicate, large_total, blocklisted_phone, blocklisted_email, blocklisted_address
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS review_reasons TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS orders_review_status_idx ON orders (review_status) WHERE review_status = 'flagged';
+
+-- Storefronts insert orders directly, so source and the review columns are whatever the client sent.
+-- Only admins (including functions they call, such as create_manual_order) may enter phone or walk-in
+-- orders or set a review state; everyone else gets an online order with a fresh review state.
+-- Trigger names fire in alphabetical order, so this runs before orders_flag_suspicious.
+CREATE OR REPLACE FUNCTION enforce_order_source()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    IF COALESCE(NEW.source, 'online') <> 'online' THEN
+      RAISE EXCEPTION 'Only staff can enter % orders', NEW.source;
+    END IF;
+
+    NEW.review_status := NULL;
+    NEW.review_reasons := '{}';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_enforce_source ON orders;
+CREATE TRIGGER orders_enforce_source
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_source();
+
+-- Total and blocklist checks run as the order row is written; staff-entered orders are trusted,
+-- and orders_enforce_source makes sure only staff can enter them
+CREATE OR REPLACE FUNCTION flag_suspicious_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  rules JSONB;
+  reasons TEXT[] := '{}';
+BEGIN
+  IF COALESCE(NEW.source, 'online') <> 'online' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT value INTO rules FROM admin_settings WHERE key = 'order_review_rules';
+
+  IF (rules->>'large_order_amount') IS NOT NULL
+    AND NEW.total_amount > (rules->>'large_order_amount')::NUMERIC THEN
+    reasons := array_append(reasons, 'large_total');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_blocklist WHERE kind = 'phone' AND value = normalize_contact('phone', NEW.customer_phone)) THEN
+    reasons := array_append(reasons, 'blocklisted_phone');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_blocklist WHERE kind = 'email' AND value = normalize_contact('email', NEW.customer_email)) THEN
+    reasons := array_append(reasons, 'blocklisted_email');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_blocklist WHERE kind = 'address' AND value = normalize_contact('address', NEW.delivery_address)) THEN
+    reasons := array_append(reasons, 'blocklisted_address');
+  END IF;
+
+  IF array_length(reasons, 1) > 0 THEN
+    NEW.review_status := 'flagged';
+    NEW.review_reasons := reasons;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_flag_suspicious ON orders;
+CREATE TRIGGER orders_flag_suspicious
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION flag_suspicious_order();
+
+-- Items as "menu_item_id:quantity" pairs in a fixed order, for comparing two orders' contents
+CREATE OR REPLACE FUNCTION order_items_signature(p_order_id UUID)
+RETURNS TEXT AS $$
+  SELECT string_agg(COALESCE(menu_item_id::TEXT, item_name) || ':' || quantity, ',' ORDER BY COALESCE(menu_item_id::TEXT, item_name), quantity)
+  FROM order_items
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Items are written after their order, so the duplicate check runs once the lines arrive
+CREATE OR REPLACE FUNCTION flag_duplicate_orders()
+RETURNS TRIGGER AS $$
+DECLARE
+  window_minutes INTEGER;
+  target orders%ROWTYPE;
+  signature TEXT;
+BEGIN
+  SELECT COALESCE((value->>'duplicate_window_minutes')::INTEGER, 0) INTO window_minutes
+  FROM admin_settings WHERE key = 'order_review_rules';
+
+  IF COALESCE(window_minutes, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  FOR target IN
+    SELECT o.* FROM orders o
+    WHERE o.id IN (SELECT DISTINCT order_id FROM new_items)
+    AND o.status = 'pending'
+    AND COALESCE(o.source, 'online') = 'online'
+    AND NOT ('duplicate' = ANY (o.review_reasons))
+    AND o.review_status IS DISTINCT FROM 'cleared'
+  LOOP
+    signature := order_items_signature(target.id);
+
+    IF EXISTS (
+      SELECT 1 FROM orders other
+      WHERE other.id <> target.id
+      AND other.created_at BETWEEN target.created_at - make_interval(mins => window_minutes) AND target.created_at
+      AND (
+        normalize_contact('phone', other.customer_phone) = normalize_contact('phone', target.customer_phone)
+        OR normalize_contact('email', other.customer_email) = normalize_contact('email', target.customer_email)
+      )
+      AND order_items_signature(other.id) = signature
+    ) THEN
+      UPDATE orders
+      SET review_status = 'flagged',
+          review_reasons = array_append(review_reasons, 'duplicate')
+      WHERE id = target.id;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_flag_duplicates ON order_items;
+CREATE TRIGGER order_items_flag_duplicates
+  AFTER INSERT ON order_items
+  REFERENCING NEW TABLE AS new_items
+  FOR EACH STATEMENT EXECUTE FUNCTION flag_duplicate_orders();
+
+-- Held orders can only stay pending or be cancelled
+CREATE OR REPLACE FUNCTION enforce_order_review_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.review_status = 'flagged' AND NEW.status NOT IN ('pending', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is held for review; clear it before moving it on';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_enforce_review_hold ON orders;
+CREATE TRIGGER orders_enforce_review_hold
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_review_hold();
+
+CREATE OR REPLACE FUNCTION clear_order_review(p_order_ids UUID[])
+RETURNS SETOF orders AS $$
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  RETURN QUERY
+  UPDATE orders
+  SET review_status = 'cleared', reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = ANY (p_order_ids) AND review_status = 'flagged'
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,73 @@
+-- Menu categories managed from the admin panel
+-- Replaces the fixed morning/afternoon/dinner values. menu_items.category (and sla_targets.category)
+-- keep storing the category slug, now backed by a foreign key to menu_categories.
+-- A category can be switched off, and can be limited to a daily time window (which may run past midnight).
+
+CREATE TABLE IF NOT EXISTS menu_categories (
+  -- Stable key stored on menu items; the display name can change freely
+  slug TEXT PRIMARY KEY CHECK (slug ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Both NULL when the category is served all day
+  available_from TIME,
+  available_until TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((available_from IS NULL) = (available_until IS NULL)),
+  CHECK (available_from IS NULL OR available_from <> available_until)
+);
+
+CREATE INDEX IF NOT EXISTS menu_categories_sort_order_idx ON menu_categories (sort_order);
+
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+
+-- Storefronts list the active categories to build the menu
+DROP POLICY IF EXISTS "Anyone can view active menu categories" ON menu_categories;
+CREATE POLICY "Anyone can view active menu categories" ON menu_categories
+  FOR SELECT USING (is_active);
+
+DROP POLICY IF EXISTS "Admins can manage menu categories" ON menu_categories;
+CREATE POLICY "Admins can manage menu categories" ON menu_categories
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Migrate the old fixed categories, keeping their slugs so existing rows stay valid.
+-- They start out all day, as before; time windows can be set from the category manager.
+INSERT INTO menu_categories (slug, name, sort_order) VALUES
+  ('morning', 'Morning', 1),
+  ('afternoon', 'Afternoon', 2),
+  ('dinner', 'Dinner', 3)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Anything else already on the menu becomes an all-day category
+INSERT INTO menu_categories (slug, name, sort_order)
+SELECT DISTINCT category, initcap(replace(category, '_', ' ')), 100
+FROM menu_items
+WHERE category IS NOT NULL
+ON CONFLICT (slug) DO NOTHING;
+
+-- The old CHECK constraints pinned the three fixed values
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_category_check;
+ALTER TABLE sla_targets DROP CONSTRAINT IF EXISTS sla_targets_category_check;
+
+-- Categories in use can't be deleted; hide them with is_active instead
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_category_fkey;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_category_fkey
+  FOREIGN KEY (category) REFERENCES menu_categories (slug) ON UPDATE CASCADE;
+
+-- A deleted category takes its prep-time overrides with it
+ALTER TABLE sla_targets DROP CONSTRAINT IF EXISTS sla_targets_category_fkey;
+ALTER TABLE sla_targets ADD CONSTRAINT sla_targets_category_fkey
+  FOREIGN KEY (category) REFERENCES menu_categories (slug) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Open menu screens pick up renames, reordering and deactivation live
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE menu_categories;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
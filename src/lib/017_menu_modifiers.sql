@@ -0,0 +1,447 @@
+-- Modifier groups and add-ons for menu items
+-- A modifier group ("Bread", "Spice level", "Toppings") holds options with a price delta each, and a
+-- selection rule: between min_select and max_select options (max NULL = no upper limit).
+-- Groups are shared, so one "Bread" group can be attached to several menu items.
+-- Chosen modifiers are snapshotted on each order_items line; order_items.price is the unit price
+-- including the modifier deltas, so line and order totals already include them.
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  min_select INTEGER NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INTEGER CHECK (max_select IS NULL OR max_select >= 1),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (max_select IS NULL OR max_select >= min_select)
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Added to the item price; can be negative ("no cheese -$0.50")
+  price_delta NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  is_available BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS modifier_options_group_id_idx ON modifier_options (group_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS menu_item_modifier_groups (
+  menu_item_id UUID NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (menu_item_id, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS menu_item_modifier_groups_group_id_idx ON menu_item_modifier_groups (group_id);
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_modifier_groups ENABLE ROW LEVEL SECURITY;
+
+-- Storefronts need the groups and options to build the item picker
+DROP POLICY IF EXISTS "Anyone can view modifier groups" ON modifier_groups;
+CREATE POLICY "Anyone can view modifier groups" ON modifier_groups
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Anyone can view modifier options" ON modifier_options;
+CREATE POLICY "Anyone can view modifier options" ON modifier_options
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Anyone can view menu item modifier groups" ON menu_item_modifier_groups;
+CREATE POLICY "Anyone can view menu item modifier groups" ON menu_item_modifier_groups
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage modifier groups" ON modifier_groups;
+CREATE POLICY "Admins can manage modifier groups" ON modifier_groups
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Admins can manage modifier options" ON modifier_options;
+CREATE POLICY "Admins can manage modifier options" ON modifier_options
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+DROP POLICY IF EXISTS "Admins can manage menu item modifier groups" ON menu_item_modifier_groups;
+CREATE POLICY "Admins can manage menu item modifier groups" ON menu_item_modifier_groups
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- [{ "group_id": "...", "group_name": "Bread", "option_id": "...", "option_name": "Naan", "price_delta": 1.5 }, ...]
+-- Names and prices are copied so later menu changes don't rewrite past orders
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS modifiers JSONB NOT NULL DEFAULT '[]';
+
+-- Checks a selection of options against the item's groups and returns it priced:
+-- { "modifiers": [...snapshot as stored on order_items...], "price_delta": 2.0 }
+CREATE OR REPLACE FUNCTION price_menu_item_modifiers(p_menu_item_id UUID, p_option_ids UUID[])
+RETURNS JSONB AS $$
+DECLARE
+  dish_name TEXT;
+  grp RECORD;
+  chosen INTEGER;
+  selected JSONB := '[]';
+  delta NUMERIC := 0;
+BEGIN
+  SELECT name INTO dish_name FROM menu_items WHERE id = p_menu_item_id;
+
+  -- Every chosen option must belong to a group attached to this item and be on offer
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_option_ids, '{}')) AS chosen_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM modifier_options o
+      JOIN menu_item_modifier_groups link ON link.group_id = o.group_id
+      WHERE o.id = chosen_id AND link.menu_item_id = p_menu_item_id AND o.is_available
+    )
+  ) THEN
+    RAISE EXCEPTION 'One of the options chosen for % is not available', dish_name;
+  END IF;
+
+  FOR grp IN
+    SELECT g.* FROM modifier_groups g
+    JOIN menu_item_modifier_groups link ON link.group_id = g.id
+    WHERE link.menu_item_id = p_menu_item_id
+    ORDER BY link.sort_order, g.sort_order, g.name
+  LOOP
+    SELECT COUNT(*) INTO chosen FROM modifier_options
+    WHERE group_id = grp.id AND id = ANY (COALESCE(p_option_ids, '{}'));
+
+    IF chosen < grp.min_select OR (grp.max_select IS NOT NULL AND chosen > grp.max_select) THEN
+      RAISE EXCEPTION '%: choose %', dish_name,
+        CASE
+          WHEN grp.max_select = grp.min_select THEN format('exactly %s %s', grp.min_select, grp.name)
+          WHEN grp.max_select IS NULL THEN format('at least %s %s', grp.min_select, grp.name)
+          WHEN grp.min_select = 0 THEN format('up to %s %s', grp.max_select, grp.name)
+          ELSE format('%s to %s %s', grp.min_select, grp.max_select, grp.name)
+        END;
+    END IF;
+
+    SELECT
+      selected || COALESCE(jsonb_agg(jsonb_build_object(
+        'group_id', grp.id,
+        'group_name', grp.name,
+        'option_id', o.id,
+        'option_name', o.name,
+        'price_delta', o.price_delta
+      ) ORDER BY o.sort_order, o.name), '[]'),
+      delta + COALESCE(SUM(o.price_delta), 0)
+    INTO selected, delta
+    FROM modifier_options o
+    WHERE o.group_id = grp.id AND o.id = ANY (COALESCE(p_option_ids, '{}'));
+  END LOOP;
+
+  RETURN jsonb_build_object('modifiers', selected, 'price_delta', delta);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Manual entry now takes modifiers per line and prices them on the server
+-- p_items: [{ "menu_item_id": "...", "quantity": 2, "modifier_option_ids": ["...", ...] }, ...]
+CREATE OR REPLACE FUNCTION create_manual_order(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_delivery_address TEXT,
+  p_special_instructions TEXT,
+  p_source TEXT,
+  p_items JSONB,
+  p_customer_email TEXT DEFAULT NULL,
+  p_delivery_zone_id UUID DEFAULT NULL,
+  p_delivery_lat DOUBLE PRECISION DEFAULT NULL,
+  p_delivery_lng DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  new_order orders;
+  line JSONB;
+  menu_item menu_items%ROWTYPE;
+  zone delivery_zones%ROWTYPE;
+  line_quantity INTEGER;
+  priced JSONB;
+  -- Lines as they will be written: { menu_item_id, item_name, quantity, price, modifiers }
+  priced_lines JSONB := '[]';
+  order_total NUMERIC := 0;
+  zone_fee NUMERIC := 0;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_source NOT IN ('phone', 'walk_in') THEN
+    RAISE EXCEPTION 'Manual orders must come from phone or walk_in, not %', p_source;
+  END IF;
+
+  IF NULLIF(TRIM(COALESCE(p_customer_name, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+
+    IF line_quantity IS NULL OR line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO menu_item FROM menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT menu_item.is_available THEN
+      RAISE EXCEPTION '% is not available', menu_item.name;
+    END IF;
+
+    priced := price_menu_item_modifiers(
+      menu_item.id,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(line->'modifier_option_ids', '[]')))::UUID[]
+    );
+
+    priced_lines := priced_lines || jsonb_build_object(
+      'menu_item_id', menu_item.id,
+      'item_name', menu_item.name,
+      'quantity', line_quantity,
+      'price', menu_item.price + (priced->>'price_delta')::NUMERIC,
+      'modifiers', priced->'modifiers'
+    );
+    order_total := order_total + (menu_item.price + (priced->>'price_delta')::NUMERIC) * line_quantity;
+  END LOOP;
+
+  -- The zone is matched again from the coordinates, as findDeliveryZone does, so a stale
+  -- tab or a wrong pick can't set the fee
+  IF p_delivery_lat IS NOT NULL AND p_delivery_lng IS NOT NULL THEN
+    SELECT * INTO zone FROM delivery_zones z
+    WHERE z.is_active AND delivery_zone_contains(z, p_delivery_lat, p_delivery_lng)
+    ORDER BY z.delivery_fee, z.name, z.id
+    LIMIT 1;
+  END IF;
+
+  IF p_delivery_zone_id IS DISTINCT FROM zone.id THEN
+    RAISE EXCEPTION 'Delivery zones have changed: this address is now %. Check the address again',
+      COALESCE('in ' || zone.name, 'outside every delivery zone');
+  END IF;
+
+  IF zone.id IS NOT NULL THEN
+    IF order_total < zone.min_order_amount THEN
+      RAISE EXCEPTION '% has a minimum order of %', zone.name, zone.min_order_amount;
+    END IF;
+
+    zone_fee := zone.delivery_fee;
+  END IF;
+
+  -- Staff took the order themselves, so it starts confirmed and read
+  INSERT INTO orders (
+    user_id, customer_name, customer_email, customer_phone, delivery_address,
+    special_instructions, total_amount, status, is_read, source, created_by,
+    delivery_zone_id, delivery_fee, delivery_lat, delivery_lng
+  ) VALUES (
+    NULL, TRIM(p_customer_name), COALESCE(p_customer_email, ''), COALESCE(p_customer_phone, ''),
+    COALESCE(p_delivery_address, ''), NULLIF(TRIM(COALESCE(p_special_instructions, '')), ''),
+    order_total + zone_fee, 'confirmed', TRUE, p_source, auth.uid(),
+    zone.id, zone_fee, p_delivery_lat, p_delivery_lng
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, item_name, quantity, price, modifiers)
+  SELECT new_order.id, (l->>'menu_item_id')::UUID, l->>'item_name', (l->>'quantity')::INTEGER,
+    (l->>'price')::NUMERIC, l->'modifiers'
+  FROM jsonb_array_elements(priced_lines) AS l;
+
+  RETURN new_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Editing an order's lines (013_order_edits.sql) now takes modifiers on added lines, priced like manual entry
+-- p_changes: [{ "order_item_id": "...", "quantity": 0 },
+--             { "menu_item_id": "...", "quantity": 2, "modifier_option_ids": ["...", ...] }, ...]
+-- An order_item_id sets that line's quantity (0 removes it); a menu_item_id adds a new line at the current
+-- menu price plus its options.
+CREATE OR REPLACE FUNCTION edit_order_items(
+  p_order_id UUID,
+  p_changes JSONB,
+  p_override BOOLEAN DEFAULT FALSE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS order_edits AS $$
+DECLARE
+  actor_role TEXT;
+  target_order orders%ROWTYPE;
+  target_item order_items%ROWTYPE;
+  menu_item menu_items%ROWTYPE;
+  change JSONB;
+  line_quantity INTEGER;
+  priced JSONB;
+  line_price NUMERIC;
+  changes_log JSONB := '[]'::JSONB;
+  items_total NUMERIC;
+  new_total NUMERIC;
+  is_locked BOOLEAN;
+  new_edit order_edits;
+BEGIN
+  SELECT role INTO actor_role FROM users WHERE id = auth.uid();
+
+  -- Check if user is admin
+  IF actor_role IS NULL OR actor_role NOT IN ('admin', 'superadmin') THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  -- Lock the order so concurrent edits and refunds see each other's totals
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % does not exist', p_order_id;
+  END IF;
+
+  IF target_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be edited';
+  END IF;
+
+  is_locked := target_order.status IN ('ready', 'delivered');
+
+  IF is_locked AND NOT (COALESCE(p_override, FALSE) AND actor_role = 'superadmin') THEN
+    RAISE EXCEPTION 'Order is % and can only be edited with a superadmin override', target_order.status;
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_array_length(p_changes) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    line_quantity := (change->>'quantity')::INTEGER;
+
+    IF change ? 'order_item_id' THEN
+      SELECT * INTO target_item FROM order_items
+      WHERE id = (change->>'order_item_id')::UUID AND order_id = p_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Line % is not on this order', change->>'order_item_id';
+      END IF;
+
+      IF line_quantity IS NULL OR line_quantity < 0 THEN
+        RAISE EXCEPTION 'Invalid quantity for %', target_item.item_name;
+      END IF;
+
+      -- Refunded units stay on the order so the refund still adds up
+      IF line_quantity < target_item.refunded_quantity THEN
+        RAISE EXCEPTION '% of % have been refunded and cannot be removed',
+          target_item.refunded_quantity, target_item.item_name;
+      END IF;
+
+      IF line_quantity <> target_item.quantity THEN
+        IF line_quantity = 0 THEN
+          DELETE FROM order_items WHERE id = target_item.id;
+        ELSE
+          UPDATE order_items SET quantity = line_quantity WHERE id = target_item.id;
+        END IF;
+
+        changes_log := changes_log || jsonb_build_object(
+          'item_name', target_item.item_name,
+          'modifiers', target_item.modifiers,
+          'price', target_item.price,
+          'from_quantity', target_item.quantity,
+          'to_quantity', line_quantity
+        );
+      END IF;
+    ELSIF change ? 'menu_item_id' THEN
+      SELECT * INTO menu_item FROM menu_items WHERE id = (change->>'menu_item_id')::UUID;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Menu item % does not exist', change->>'menu_item_id';
+      END IF;
+
+      IF NOT menu_item.is_available THEN
+        RAISE EXCEPTION '% is not available', menu_item.name;
+      END IF;
+
+      IF line_quantity IS NULL OR line_quantity < 1 THEN
+        RAISE EXCEPTION 'Invalid quantity for %', menu_item.name;
+      END IF;
+
+      priced := price_menu_item_modifiers(
+        menu_item.id,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(change->'modifier_option_ids', '[]')))::UUID[]
+      );
+      line_price := menu_item.price + (priced->>'price_delta')::NUMERIC;
+
+      INSERT INTO order_items (order_id, menu_item_id, item_name, quantity, price, modifiers)
+      VALUES (p_order_id, menu_item.id, menu_item.name, line_quantity, line_price, priced->'modifiers');
+
+      changes_log := changes_log || jsonb_build_object(
+        'item_name', menu_item.name,
+        'modifiers', priced->'modifiers',
+        'price', line_price,
+        'from_quantity', 0,
+        'to_quantity', line_quantity
+      );
+    ELSE
+      RAISE EXCEPTION 'Each change needs an order_item_id or a menu_item_id';
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(changes_log) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'An order needs at least one item; cancel it instead';
+  END IF;
+
+  SELECT SUM(price * quantity) INTO items_total
+  FROM order_items WHERE order_id = p_order_id;
+
+  new_total := items_total + target_order.delivery_fee;
+
+  IF new_total < target_order.refunded_amount THEN
+    RAISE EXCEPTION 'The new total of % is less than the % already refunded', new_total, target_order.refunded_amount;
+  END IF;
+
+  UPDATE orders
+  SET total_amount = new_total, updated_at = NOW()
+  WHERE id = p_order_id;
+
+  INSERT INTO order_edits (order_id, changes, previous_total, new_total, overrode_lock, note, actor_id)
+  VALUES (
+    p_order_id, changes_log, target_order.total_amount, new_total, is_locked,
+    NULLIF(TRIM(COALESCE(p_note, '')), ''), auth.uid()
+  )
+  RETURNING * INTO new_edit;
+
+  RETURN new_edit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Duplicate detection: the same dish with different modifiers is a different line
+CREATE OR REPLACE FUNCTION order_items_signature(p_order_id UUID)
+RETURNS TEXT AS $$
+  SELECT string_agg(line, ',' ORDER BY line)
+  FROM (
+    SELECT COALESCE(menu_item_id::TEXT, item_name)
+      || COALESCE('[' || (
+        SELECT string_agg(m->>'option_id', '+' ORDER BY m->>'option_id')
+        FROM jsonb_array_elements(modifiers) AS m
+      ) || ']', '')
+      || ':' || quantity AS line
+    FROM order_items
+    WHERE order_id = p_order_id
+  ) lines;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
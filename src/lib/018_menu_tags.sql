@@ -0,0 +1,57 @@
+-- Allergen and dietary tagging for menu items
+-- menu_items.allergens declares the allergens a dish contains (the 14 that must be declared by law);
+-- menu_items.dietary_tags holds descriptive tags such as vegan, halal or spicy. Both use fixed keys,
+-- mirrored by ALLERGEN_LABELS and DIETARY_TAG_LABELS in menu-tags.ts - keep the two in sync.
+-- Each order line keeps a snapshot of its dish's allergens so the kitchen is warned even if the
+-- menu changes later. menu_items.is_vegetarian is kept for storefronts and follows the tags.
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS dietary_tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_allergens_check;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_allergens_check CHECK (
+  allergens <@ ARRAY[
+    'gluten', 'peanuts', 'tree_nuts', 'dairy', 'egg', 'soy', 'fish',
+    'shellfish', 'molluscs', 'sesame', 'mustard', 'celery', 'sulphites', 'lupin'
+  ]::TEXT[]
+);
+
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_dietary_tags_check;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_dietary_tags_check CHECK (
+  dietary_tags <@ ARRAY['vegetarian', 'vegan', 'halal', 'jain', 'spicy']::TEXT[]
+);
+
+-- Existing vegetarian dishes carry the flag over as a tag
+UPDATE menu_items
+SET dietary_tags = array_append(dietary_tags, 'vegetarian')
+WHERE is_vegetarian AND NOT ('vegetarian' = ANY (dietary_tags));
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}';
+
+-- Copies the dish's allergens onto every new order line, however the line is created
+-- (storefront checkout, create_manual_order or edit_order_items)
+CREATE OR REPLACE FUNCTION snapshot_order_item_allergens()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.menu_item_id IS NOT NULL AND cardinality(NEW.allergens) = 0 THEN
+    SELECT allergens INTO NEW.allergens FROM menu_items WHERE id = NEW.menu_item_id;
+    NEW.allergens := COALESCE(NEW.allergens, '{}');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_snapshot_allergens ON order_items;
+CREATE TRIGGER order_items_snapshot_allergens
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION snapshot_order_item_allergens();
+
+-- Orders still in the kitchen get their allergens now; finished orders are left as they were
+UPDATE order_items oi
+SET allergens = mi.allergens
+FROM menu_items mi, orders o
+WHERE mi.id = oi.menu_item_id
+  AND o.id = oi.order_id
+  AND o.status IN ('pending', 'confirmed', 'preparing', 'ready')
+  AND cardinality(oi.allergens) = 0;
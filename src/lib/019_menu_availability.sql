@@ -0,0 +1,286 @@
+-- Time- and day-based menu availability
+-- Schedules say when a menu item, or a whole category, can be ordered: days of the week, an
+-- optional daily time range (which may run past midnight) and optional seasonal start/end dates.
+-- Something with no schedules of its own is not limited by them; with several, any one matching is enough.
+-- Times are read in the kitchen's time zone (admin_settings 'menu_availability').
+--
+-- Effective availability of an item at a moment:
+--   menu_items.is_available (the permanent "on the menu" switch)
+--   AND, unless a manual override is in force, its category is active and within its time window
+--   and schedules, and the item is within its own schedules.
+-- The availability toggle in the admin panel sets an override that expires (end of the day by default).
+-- Storefronts should call get_menu_availability() rather than read is_available directly;
+-- every new order line is checked against it (for pre-orders, at their scheduled time).
+
+CREATE TABLE IF NOT EXISTS menu_availability_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Exactly one of menu_item_id and category is set
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE CASCADE,
+  category TEXT REFERENCES menu_categories(slug) ON UPDATE CASCADE ON DELETE CASCADE,
+  -- 0 = Sunday ... 6 = Saturday
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  -- Both NULL when it applies all day
+  starts_at TIME,
+  ends_at TIME,
+  -- Seasonal bounds, inclusive; either can be left open
+  valid_from DATE,
+  valid_until DATE,
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((menu_item_id IS NULL) <> (category IS NULL)),
+  CHECK (cardinality(days_of_week) > 0 AND days_of_week <@ '{0,1,2,3,4,5,6}'::SMALLINT[]),
+  CHECK ((starts_at IS NULL) = (ends_at IS NULL)),
+  CHECK (starts_at IS NULL OR starts_at <> ends_at),
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from <= valid_until)
+);
+
+CREATE INDEX IF NOT EXISTS menu_availability_schedules_menu_item_id_idx ON menu_availability_schedules (menu_item_id);
+CREATE INDEX IF NOT EXISTS menu_availability_schedules_category_idx ON menu_availability_schedules (category);
+
+ALTER TABLE menu_availability_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Storefronts show customers when a dish is served
+DROP POLICY IF EXISTS "Anyone can view menu availability schedules" ON menu_availability_schedules;
+CREATE POLICY "Anyone can view menu availability schedules" ON menu_availability_schedules
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage menu availability schedules" ON menu_availability_schedules;
+CREATE POLICY "Admins can manage menu availability schedules" ON menu_availability_schedules
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
+
+-- Manual override from the availability toggle: forces the item on or off until it expires
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS availability_override BOOLEAN;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS availability_override_until TIMESTAMPTZ;
+
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_availability_override_check;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_availability_override_check
+  CHECK ((availability_override IS NULL) = (availability_override_until IS NULL));
+
+INSERT INTO admin_settings (key, value) VALUES
+  ('menu_availability', '{"time_zone": "UTC"}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION menu_time_zone()
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(value->>'time_zone', '') FROM admin_settings WHERE key = 'menu_availability'),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a daily window (NULL = all day) and its day and date rules cover a local time.
+-- The part of a window after midnight belongs to the day it started on.
+CREATE OR REPLACE FUNCTION menu_window_matches(
+  p_local TIMESTAMP,
+  p_starts_at TIME,
+  p_ends_at TIME,
+  p_days_of_week SMALLINT[] DEFAULT '{0,1,2,3,4,5,6}',
+  p_valid_from DATE DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  local_time TIME := p_local::TIME;
+  service_day DATE := p_local::DATE;
+BEGIN
+  IF p_starts_at IS NOT NULL THEN
+    IF p_starts_at < p_ends_at THEN
+      IF local_time < p_starts_at OR local_time >= p_ends_at THEN
+        RETURN FALSE;
+      END IF;
+    ELSIF local_time < p_ends_at THEN
+      service_day := service_day - 1;
+    ELSIF local_time < p_starts_at THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  RETURN EXTRACT(DOW FROM service_day)::SMALLINT = ANY (p_days_of_week)
+    AND (p_valid_from IS NULL OR service_day >= p_valid_from)
+    AND (p_valid_until IS NULL OR service_day <= p_valid_until);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION menu_item_available_at(p_menu_item_id UUID, p_at TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+DECLARE
+  item menu_items%ROWTYPE;
+  item_category menu_categories%ROWTYPE;
+  local_at TIMESTAMP := p_at AT TIME ZONE menu_time_zone();
+BEGIN
+  SELECT * INTO item FROM menu_items WHERE id = p_menu_item_id;
+
+  IF NOT FOUND OR NOT item.is_available THEN
+    RETURN FALSE;
+  END IF;
+
+  IF item.availability_override IS NOT NULL AND p_at < item.availability_override_until THEN
+    RETURN item.availability_override;
+  END IF;
+
+  SELECT * INTO item_category FROM menu_categories WHERE slug = item.category;
+
+  IF NOT FOUND OR NOT item_category.is_active
+    OR NOT menu_window_matches(local_at, item_category.available_from, item_category.available_until) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Category schedules, then the item's own
+  IF EXISTS (SELECT 1 FROM menu_availability_schedules WHERE category = item.category)
+    AND NOT EXISTS (
+      SELECT 1 FROM menu_availability_schedules s
+      WHERE s.category = item.category
+        AND menu_window_matches(local_at, s.starts_at, s.ends_at, s.days_of_week, s.valid_from, s.valid_until)
+    ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM menu_availability_schedules WHERE menu_item_id = item.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM menu_availability_schedules s
+      WHERE s.menu_item_id = item.id
+        AND menu_window_matches(local_at, s.starts_at, s.ends_at, s.days_of_week, s.valid_from, s.valid_until)
+    ) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Each item's availability now, and when that next changes. Changes can only happen at a window
+-- boundary, midnight, a seasonal date or an override expiring, so only those moments are checked,
+-- looking two weeks ahead (seasonal starts up to a year ahead). next_change_at is NULL when
+-- nothing changes in that range.
+CREATE OR REPLACE FUNCTION get_menu_availability(p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (menu_item_id UUID, is_available_now BOOLEAN, next_change_at TIMESTAMPTZ) AS $$
+DECLARE
+  tz TEXT := menu_time_zone();
+  today DATE := (p_at AT TIME ZONE menu_time_zone())::DATE;
+  item RECORD;
+  candidate TIMESTAMPTZ;
+BEGIN
+  FOR item IN SELECT id, category, availability_override_until FROM menu_items LOOP
+    menu_item_id := item.id;
+    is_available_now := menu_item_available_at(item.id, p_at);
+    next_change_at := NULL;
+
+    FOR candidate IN
+      SELECT DISTINCT moment FROM (
+        -- Midnight and every window boundary on each of the next 15 days
+        SELECT ((today + day_offset) + boundary) AT TIME ZONE tz AS moment
+        FROM generate_series(0, 14) AS day_offset,
+          LATERAL (
+            SELECT '00:00'::TIME AS boundary
+            UNION SELECT unnest(ARRAY[s.starts_at, s.ends_at])
+              FROM menu_availability_schedules s
+              WHERE s.menu_item_id = item.id OR s.category = item.category
+            UNION SELECT unnest(ARRAY[c.available_from, c.available_until])
+              FROM menu_categories c
+              WHERE c.slug = item.category
+          ) AS boundaries
+        WHERE boundary IS NOT NULL
+        -- Seasonal start and end dates further out
+        UNION
+        SELECT (boundary_date + COALESCE(s.starts_at, '00:00'::TIME)) AT TIME ZONE tz
+        FROM menu_availability_schedules s,
+          LATERAL unnest(ARRAY[s.valid_from, s.valid_until + 1]) AS boundary_date
+        WHERE (s.menu_item_id = item.id OR s.category = item.category)
+          AND boundary_date BETWEEN today AND today + 366
+        UNION
+        SELECT item.availability_override_until
+      ) AS moments
+      WHERE moment > p_at
+      ORDER BY moment
+    LOOP
+      IF menu_item_available_at(item.id, candidate) <> is_available_now THEN
+        next_change_at := candidate;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Sets or clears (p_is_available NULL) an item's manual override.
+-- Without p_until the override lasts until the end of today in the kitchen's time zone.
+CREATE OR REPLACE FUNCTION set_menu_item_availability_override(
+  p_menu_item_id UUID,
+  p_is_available BOOLEAN,
+  p_until TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS menu_items AS $$
+DECLARE
+  tz TEXT := menu_time_zone();
+  override_until TIMESTAMPTZ;
+  updated menu_items;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_is_available IS NOT NULL THEN
+    override_until := COALESCE(p_until, (((NOW() AT TIME ZONE tz)::DATE + 1)::TIMESTAMP) AT TIME ZONE tz);
+
+    IF override_until <= NOW() THEN
+      RAISE EXCEPTION 'The override must end in the future';
+    END IF;
+  END IF;
+
+  UPDATE menu_items
+  SET availability_override = p_is_available,
+      availability_override_until = override_until,
+      updated_at = NOW()
+  WHERE id = p_menu_item_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item % does not exist', p_menu_item_id;
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Every new order line, however it is created, must be orderable when the order is due
+CREATE OR REPLACE FUNCTION enforce_menu_item_schedule()
+RETURNS TRIGGER AS $$
+DECLARE
+  due_at TIMESTAMPTZ;
+BEGIN
+  IF NEW.menu_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(scheduled_for, NOW()) INTO due_at FROM orders WHERE id = NEW.order_id;
+
+  IF NOT menu_item_available_at(NEW.menu_item_id, COALESCE(due_at, NOW())) THEN
+    RAISE EXCEPTION '% is not available at this time', NEW.item_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_enforce_menu_schedule ON order_items;
+CREATE TRIGGER order_items_enforce_menu_schedule
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_menu_item_schedule();
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE menu_availability_schedules;
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
@@ -0,0 +1,96 @@
+-- Bulk menu import
+-- Applies a whole validated import (see menu-transfer.ts) in one transaction: either every row is
+-- written or none is. Rows with an id that exists update that item; the rest are inserted.
+-- Categories the import uses but this database doesn't have yet are created, all day and active.
+-- Modifier groups and availability schedules are not part of the import.
+
+-- p_items: [{ "id": "..." | null, "name": "...", "description": "...", "price": 9.5, "category": "dinner",
+--             "image_url": "...", "is_available": true, "allergens": ["gluten"], "dietary_tags": ["vegan"] }, ...]
+-- Returns { "inserted": 3, "updated": 5, "categories_created": 1 }
+CREATE OR REPLACE FUNCTION import_menu_items(p_items JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  line JSONB;
+  line_id UUID;
+  line_tags TEXT[];
+  inserted_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  categories_created INTEGER := 0;
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'superadmin')
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Only admins can access this function';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import';
+  END IF;
+
+  INSERT INTO menu_categories (slug, name, sort_order)
+  SELECT DISTINCT line_category, initcap(replace(line_category, '_', ' ')), 100
+  FROM jsonb_array_elements(p_items) AS item,
+    LATERAL (SELECT item->>'category' AS line_category) AS c
+  WHERE line_category IS NOT NULL
+  ON CONFLICT (slug) DO NOTHING;
+
+  GET DIAGNOSTICS categories_created = ROW_COUNT;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    IF COALESCE(TRIM(line->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every item needs a name';
+    END IF;
+
+    IF (line->>'price') IS NULL OR (line->>'price')::NUMERIC < 0 THEN
+      RAISE EXCEPTION 'Invalid price for %', line->>'name';
+    END IF;
+
+    line_id := NULLIF(line->>'id', '')::UUID;
+    line_tags := ARRAY(SELECT jsonb_array_elements_text(COALESCE(line->'dietary_tags', '[]')));
+
+    UPDATE menu_items
+    SET name = TRIM(line->>'name'),
+        description = COALESCE(line->>'description', ''),
+        price = (line->>'price')::NUMERIC,
+        category = line->>'category',
+        image_url = COALESCE(line->>'image_url', ''),
+        is_available = COALESCE((line->>'is_available')::BOOLEAN, TRUE),
+        allergens = ARRAY(SELECT jsonb_array_elements_text(COALESCE(line->'allergens', '[]'))),
+        dietary_tags = line_tags,
+        -- Same rule as isVegetarianByTags in menu-tags.ts
+        is_vegetarian = line_tags && ARRAY['vegetarian', 'vegan', 'jain'],
+        updated_at = NOW()
+    WHERE line_id IS NOT NULL AND id = line_id;
+
+    IF FOUND THEN
+      updated_count := updated_count + 1;
+    ELSE
+      INSERT INTO menu_items (
+        id, name, description, price, category, image_url, is_available, allergens, dietary_tags, is_vegetarian
+      )
+      VALUES (
+        COALESCE(line_id, gen_random_uuid()),
+        TRIM(line->>'name'),
+        COALESCE(line->>'description', ''),
+        (line->>'price')::NUMERIC,
+        line->>'category',
+        COALESCE(line->>'image_url', ''),
+        COALESCE((line->>'is_available')::BOOLEAN, TRUE),
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(line->'allergens', '[]'))),
+        line_tags,
+        line_tags && ARRAY['vegetarian', 'vegan', 'jain']
+      );
+      inserted_count := inserted_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'inserted', inserted_count,
+    'updated', updated_count,
+    'categories_created', categories_created
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,82 @@
+/**
+ * Admin Settings
+ *
+ * Panel-wide settings shared by every admin, stored as JSON values in the
+ * admin_settings table, and each admin's own preferences in admin_user_settings
+ * so they follow the admin to any device. Per-browser preferences stay in
+ * localStorage instead.
+ */
+
+import { supabase } from './supabase';
+
+/**
+ * Reads a setting, filling in any fields missing from the stored value
+ */
+export const getAdminSetting = async <T extends object>(key: string, defaults: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...defaults, ...(data?.value || {}) };
+};
+
+export const saveAdminSetting = async <T extends object>(key: string, value: T): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('admin_settings')
+    .upsert({ key, value, updated_by: user?.id ?? null, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+/**
+ * Reads the signed-in admin's own value for a setting, filling in missing fields
+ */
+export const getAdminUserSetting = async <T extends object>(userId: string, key: string, defaults: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('admin_user_settings')
+    .select('value')
+    .eq('user_id', userId)
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...defaults, ...(data?.value || {}) };
+};
+
+export const saveAdminUserSetting = async <T extends object>(userId: string, key: string, value: T): Promise<void> => {
+  const { error } = await supabase
+    .from('admin_user_settings')
+    .upsert({ user_id: userId, key, value, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+/**
+ * Calls onChange with the new value whenever the admin saves the setting, from any tab or device
+ */
+export const subscribeToAdminUserSetting = <T extends object>(
+  channelPrefix: string,
+  userId: string,
+  key: string,
+  onChange: (value: T) => void
+): ReturnType<typeof supabase.channel> => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+
+  return supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'admin_user_settings', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        const row = payload.new as { key?: string; value?: T };
+        if (row?.key === key && row.value) onChange(row.value);
+      }
+    )
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
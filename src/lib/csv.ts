@@ -0,0 +1,85 @@
+/**
+ * CSV Helpers
+ *
+ * RFC 4180 encoding for exports: values containing commas, quotes or line
+ * breaks are quoted, and rows end with CRLF so Excel opens them cleanly.
+ * The parser reads the same format back for imports.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Leading characters that spreadsheet apps would evaluate as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  // Guard against formula injection from customer-entered text
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: CsvValue[]): string =>
+  `${values.map(escapeCsvValue).join(',')}\r\n`;
+
+// Byte order mark so Excel reads the file as UTF-8
+export const CSV_BOM = '﻿';
+
+/**
+ * Undoes the formula guard added by escapeCsvValue
+ */
+export const unescapeCsvValue = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Splits CSV text into rows of values. Handles quoted values with commas,
+ * doubled quotes and line breaks, CRLF or LF line endings and a leading BOM;
+ * blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(CSV_BOM) ? text.slice(CSV_BOM.length) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.length > 1 || row[0] !== '') rows.push(row.map(unescapeCsvValue));
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('The file ends inside a quoted value');
+  }
+  if (value !== '' || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,158 @@
+/**
+ * Delivery Zones
+ *
+ * Zone lookup for delivery addresses. Zones are polygons or a radius around
+ * the kitchen; lookups run locally against stored coordinates, so only the
+ * initial geocode of an address ever leaves the browser.
+ */
+
+import { supabase, DeliveryZone, Order } from './supabase';
+import { getAdminSetting, saveAdminSetting } from './admin-settings';
+import { toAmount } from './order-totals';
+import { GeoPoint } from './geocoding';
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'created_at' | 'updated_at'>;
+
+export interface KitchenLocation {
+  lat: number | null;
+  lng: number | null;
+}
+
+const KITCHEN_LOCATION_KEY = 'kitchen_location';
+const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_KITCHEN_LOCATION: KitchenLocation = { lat: null, lng: null };
+
+export const getKitchenLocation = (): Promise<KitchenLocation> =>
+  getAdminSetting(KITCHEN_LOCATION_KEY, DEFAULT_KITCHEN_LOCATION);
+
+export const saveKitchenLocation = (location: KitchenLocation): Promise<void> =>
+  saveAdminSetting(KITCHEN_LOCATION_KEY, location);
+
+const toKitchenPoint = (kitchen: KitchenLocation): GeoPoint | null =>
+  kitchen.lat !== null && kitchen.lng !== null ? { lat: kitchen.lat, lng: kitchen.lng } : null;
+
+// Geometry
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in kilometres
+ */
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Ray-casting test; fine at city scale where the earth's curvature doesn't matter
+ */
+export const isPointInPolygon = (point: GeoPoint, polygon: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (latI > point.lat) !== (latJ > point.lat)
+      && point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+export const zoneContains = (zone: DeliveryZone, point: GeoPoint, kitchen: KitchenLocation): boolean => {
+  if (zone.zone_type === 'polygon') {
+    return !!zone.polygon && zone.polygon.length >= 3 && isPointInPolygon(point, zone.polygon);
+  }
+
+  const center = toKitchenPoint(kitchen);
+  return !!center && zone.radius_km !== null && haversineKm(center, point) <= toAmount(zone.radius_km);
+};
+
+/**
+ * The cheapest active zone covering the point, or null when it's outside every zone
+ */
+export const findDeliveryZone = (
+  point: GeoPoint,
+  zones: DeliveryZone[],
+  kitchen: KitchenLocation
+): DeliveryZone | null =>
+  zones
+    .filter(zone => zone.is_active && zoneContains(zone, point, kitchen))
+    .sort((a, b) => toAmount(a.delivery_fee) - toAmount(b.delivery_fee))[0] || null;
+
+export const getOrderLocation = (order: Pick<Order, 'delivery_lat' | 'delivery_lng'>): GeoPoint | null =>
+  order.delivery_lat != null && order.delivery_lng != null
+    ? { lat: order.delivery_lat, lng: order.delivery_lng }
+    : null;
+
+/**
+ * Parses "lat, lng" per line (or GeoJSON-style [lng, lat] pairs) into polygon vertices
+ */
+export const parsePolygon = (text: string): [number, number][] => {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[')) {
+    const pairs: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(pairs)) throw new Error('Expected a list of [lng, lat] pairs');
+    return pairs.map((pair) => {
+      if (!Array.isArray(pair) || pair.length < 2) throw new Error('Expected a list of [lng, lat] pairs');
+      return [Number(pair[1]), Number(pair[0])] as [number, number];
+    });
+  }
+
+  return trimmed
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [lat, lng] = line.split(/[,\s]+/).map(Number);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        throw new Error(`"${line}" is not a valid "lat, lng" point`);
+      }
+      return [lat, lng] as [number, number];
+    });
+};
+
+export const formatPolygon = (polygon: [number, number][] | null): string =>
+  (polygon || []).map(([lat, lng]) => `${lat}, ${lng}`).join('\n');
+
+// Data access
+
+export const fetchDeliveryZones = async (): Promise<DeliveryZone[]> => {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select('*')
+    .order('delivery_fee', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveDeliveryZone = async (zone: DeliveryZoneInput, zoneId?: string): Promise<void> => {
+  const { error } = zoneId
+    ? await supabase.from('delivery_zones').update({ ...zone, updated_at: new Date().toISOString() }).eq('id', zoneId)
+    : await supabase.from('delivery_zones').insert(zone);
+
+  if (error) throw error;
+};
+
+export const deleteDeliveryZone = async (zoneId: string): Promise<void> => {
+  const { error } = await supabase.from('delivery_zones').delete().eq('id', zoneId);
+  if (error) throw error;
+};
+
+/**
+ * Stores an order's geocoded address so it is only looked up once
+ */
+export const saveOrderLocation = async (orderId: string, point: GeoPoint): Promise<void> => {
+  const { error } = await supabase
+    .from('orders')
+    .update({ delivery_lat: point.lat, delivery_lng: point.lng })
+    .eq('id', orderId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,57 @@
+/**
+ * Delivery Dispatch
+ *
+ * Driver roster and delivery runs: assigning ready orders to a driver
+ * (several at once make one run) and taking them back out again.
+ */
+
+import { supabase, DeliveryRun, Driver } from './supabase';
+
+export type DriverInput = Pick<Driver, 'name' | 'phone' | 'vehicle' | 'is_active' | 'user_id'>;
+
+export const fetchDrivers = async (): Promise<Driver[]> => {
+  const { data, error } = await supabase
+    .from('drivers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveDriver = async (driver: DriverInput, driverId?: string): Promise<void> => {
+  const { error } = driverId
+    ? await supabase.from('drivers').update(driver).eq('id', driverId)
+    : await supabase.from('drivers').insert(driver);
+
+  if (error) throw error;
+};
+
+/**
+ * Active runs with their orders; for a driver, RLS limits this to their own runs
+ */
+export const fetchActiveRuns = async (): Promise<DeliveryRun[]> => {
+  const { data, error } = await supabase
+    .from('delivery_runs')
+    .select('*, orders(*, order_items(*))')
+    .eq('status', 'active')
+    .order('started_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const assignOrdersToDriver = async (orderIds: string[], driverId: string): Promise<DeliveryRun> => {
+  const { data, error } = await supabase.rpc('assign_orders_to_driver', {
+    p_order_ids: orderIds,
+    p_driver_id: driverId,
+  });
+
+  if (error) throw error;
+  return data as DeliveryRun;
+};
+
+export const unassignOrder = async (orderId: string): Promise<void> => {
+  const { error } = await supabase.rpc('unassign_order', { p_order_id: orderId });
+  if (error) throw error;
+};
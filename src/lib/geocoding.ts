@@ -0,0 +1,102 @@
+/**
+ * Geocoding
+ *
+ * Turns delivery addresses into coordinates behind a small pluggable
+ * interface. Development uses a local fixture file so no external service is
+ * needed; set NEXT_PUBLIC_GEOCODER=nominatim to use OpenStreetMap instead, or
+ * register another provider with setGeocoder.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Geocoder {
+  name: string;
+  /** Resolves to null when the address can't be found */
+  geocode: (address: string) => Promise<GeoPoint | null>;
+}
+
+// Served from /public; maps normalised addresses to coordinates
+const FIXTURE_URL = '/geocoding-fixture.json';
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+
+export const normalizeAddress = (address: string): string =>
+  address.toLowerCase().replace(/[.,#]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const createFixtureGeocoder = (url: string = FIXTURE_URL): Geocoder => {
+  let fixture: Promise<Record<string, GeoPoint>> | null = null;
+
+  const loadFixture = () => {
+    if (!fixture) {
+      fixture = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Geocoding fixture not found at ${url}`);
+          return response.json() as Promise<Record<string, GeoPoint>>;
+        })
+        .then(entries => Object.fromEntries(
+          Object.entries(entries).map(([address, point]) => [normalizeAddress(address), point])
+        ))
+        .catch(error => {
+          // Let a later call retry
+          fixture = null;
+          throw error;
+        });
+    }
+    return fixture;
+  };
+
+  return {
+    name: 'fixture',
+    geocode: async (address) => (await loadFixture())[normalizeAddress(address)] || null,
+  };
+};
+
+export const createNominatimGeocoder = (): Geocoder => ({
+  name: 'nominatim',
+  geocode: async (address) => {
+    const params = new URLSearchParams({ q: address, format: 'json', limit: '1' });
+    const response = await fetch(`${NOMINATIM_URL}?${params}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Geocoding failed (${response.status})`);
+
+    const results: Array<{ lat: string; lon: string }> = await response.json();
+    if (results.length === 0) return null;
+    return { lat: parseFloat(results[0].lat), lng: parseFloat(results[0].lon) };
+  },
+});
+
+let activeGeocoder: Geocoder | null = null;
+const cache = new Map<string, Promise<GeoPoint | null>>();
+
+export const setGeocoder = (geocoder: Geocoder): void => {
+  activeGeocoder = geocoder;
+  cache.clear();
+};
+
+export const getGeocoder = (): Geocoder => {
+  if (!activeGeocoder) {
+    activeGeocoder = process.env.NEXT_PUBLIC_GEOCODER === 'nominatim'
+      ? createNominatimGeocoder()
+      : createFixtureGeocoder();
+  }
+  return activeGeocoder;
+};
+
+/**
+ * Geocodes an address once per session; failed lookups are not cached
+ */
+export const geocodeAddress = (address: string): Promise<GeoPoint | null> => {
+  const key = normalizeAddress(address);
+  if (!key) return Promise.resolve(null);
+
+  let result = cache.get(key);
+  if (!result) {
+    result = getGeocoder().geocode(address).catch(error => {
+      cache.delete(key);
+      throw error;
+    });
+    cache.set(key, result);
+  }
+  return result;
+};
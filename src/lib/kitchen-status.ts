@@ -0,0 +1,108 @@
+/**
+ * Kitchen Status
+ *
+ * Order intake mode shared with the storefront: accepting, busy (quoted ETAs
+ * are extended) or paused (online orders are rejected by the database). The
+ * kitchen pauses itself when pending + preparing orders go over the threshold.
+ */
+
+import { supabase, KitchenStatus, KitchenStatusChange } from './supabase';
+
+export type KitchenMode = KitchenStatus['mode'];
+
+export type KitchenStatusChannel = ReturnType<typeof supabase.channel>;
+
+export const KITCHEN_MODE_LABELS: Record<KitchenMode, string> = {
+  accepting: 'Accepting orders',
+  busy: 'Busy',
+  paused: 'Paused',
+};
+
+export const DEFAULT_KITCHEN_STATUS: KitchenStatus = {
+  mode: 'accepting',
+  reason: null,
+  is_automatic: false,
+  busy_extra_minutes: 20,
+  auto_pause_threshold: null,
+  updated_by: null,
+  updated_at: new Date(0).toISOString(),
+};
+
+/**
+ * ETA to quote a customer for a base estimate, extended while the kitchen is busy
+ */
+export const getQuotedEtaMinutes = (baseMinutes: number, status: KitchenStatus): number =>
+  status.mode === 'busy' ? baseMinutes + status.busy_extra_minutes : baseMinutes;
+
+export const fetchKitchenStatus = async (): Promise<KitchenStatus> => {
+  const { data, error } = await supabase
+    .from('kitchen_status')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_KITCHEN_STATUS, ...(data || {}) };
+};
+
+/**
+ * Pending + preparing orders, the load the auto-pause threshold is measured against
+ */
+export const fetchActiveKitchenOrderCount = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('count_active_kitchen_orders');
+  if (error) throw error;
+  return data || 0;
+};
+
+export const setKitchenMode = async (mode: KitchenMode, reason?: string): Promise<KitchenStatus> => {
+  const { data, error } = await supabase.rpc('set_kitchen_mode', {
+    p_mode: mode,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+  return data as KitchenStatus;
+};
+
+export const saveKitchenIntakeSettings = async (
+  busyExtraMinutes: number,
+  autoPauseThreshold: number | null
+): Promise<KitchenStatus> => {
+  const { data, error } = await supabase.rpc('update_kitchen_intake_settings', {
+    p_busy_extra_minutes: busyExtraMinutes,
+    p_auto_pause_threshold: autoPauseThreshold,
+  });
+
+  if (error) throw error;
+  return data as KitchenStatus;
+};
+
+export const fetchKitchenStatusLog = async (limit = 10): Promise<KitchenStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('kitchen_status_log')
+    .select('*, actor:users(email, full_name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Calls onChange with the new status whenever it changes, including auto-pauses.
+ * The caller owns the returned channel and must unsubscribe it on cleanup.
+ */
+export const subscribeToKitchenStatus = (
+  channelPrefix: string,
+  onChange: (status: KitchenStatus) => void
+): KitchenStatusChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'kitchen_status' }, (payload) => {
+      onChange({ ...DEFAULT_KITCHEN_STATUS, ...(payload.new as KitchenStatus) });
+    })
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
@@ -0,0 +1,200 @@
+/**
+ * Menu Availability
+ *
+ * Schedules that limit when menu items, or whole categories, can be ordered
+ * (days of the week, a daily time range and seasonal dates), plus the manual
+ * override the availability toggle sets. Effective availability is worked out
+ * by the database (019_menu_availability.sql) in the kitchen's time zone; this
+ * module reads it and formats it for the admin panel.
+ */
+
+import { supabase, MenuAvailabilitySchedule, MenuItem, MenuItemAvailability } from './supabase';
+import { getAdminSetting, saveAdminSetting } from './admin-settings';
+import { formatCategoryTime } from './menu-categories';
+
+export type MenuScheduleInput = Omit<MenuAvailabilitySchedule, 'id' | 'created_at'>;
+
+export type MenuScheduleChannel = ReturnType<typeof supabase.channel>;
+
+export interface MenuAvailabilitySettings {
+  time_zone: string;
+}
+
+const MENU_AVAILABILITY_SETTINGS_KEY = 'menu_availability';
+
+export const DEFAULT_MENU_AVAILABILITY_SETTINGS: MenuAvailabilitySettings = {
+  time_zone: 'UTC',
+};
+
+// Indexed by days_of_week value
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const getMenuAvailabilitySettings = (): Promise<MenuAvailabilitySettings> =>
+  getAdminSetting(MENU_AVAILABILITY_SETTINGS_KEY, DEFAULT_MENU_AVAILABILITY_SETTINGS);
+
+export const saveMenuAvailabilitySettings = (settings: MenuAvailabilitySettings): Promise<void> =>
+  saveAdminSetting(MENU_AVAILABILITY_SETTINGS_KEY, settings);
+
+/**
+ * Whether the browser knows the time zone, so the database will too
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * "Every day", "Weekdays", "Weekends" or "Mon, Wed, Fri"
+ */
+export const formatDays = (days: number[]): string => {
+  const sorted = ALL_DAYS.filter(day => days.includes(day));
+  const key = sorted.join(',');
+
+  if (key === '0,1,2,3,4,5,6') return 'Every day';
+  if (key === '1,2,3,4,5') return 'Weekdays';
+  if (key === '0,6') return 'Weekends';
+  return sorted.map(day => DAY_LABELS[day]).join(', ');
+};
+
+const formatDate = (date: string): string =>
+  // Date-only strings parse as UTC midnight, so format them in UTC too
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * "Fri • 17:00–22:00 • from 1 Dec 2026 to 31 Jan 2027"
+ */
+export const formatSchedule = (schedule: Omit<MenuScheduleInput, 'menu_item_id' | 'category' | 'label'>): string => {
+  const parts = [formatDays(schedule.days_of_week)];
+
+  parts.push(schedule.starts_at && schedule.ends_at
+    ? `${formatCategoryTime(schedule.starts_at)}–${formatCategoryTime(schedule.ends_at)}`
+    : 'All day');
+
+  if (schedule.valid_from && schedule.valid_until) {
+    parts.push(`${formatDate(schedule.valid_from)} to ${formatDate(schedule.valid_until)}`);
+  } else if (schedule.valid_from) {
+    parts.push(`from ${formatDate(schedule.valid_from)}`);
+  } else if (schedule.valid_until) {
+    parts.push(`until ${formatDate(schedule.valid_until)}`);
+  }
+
+  return parts.join(' • ');
+};
+
+export const hasActiveOverride = (
+  item: Pick<MenuItem, 'availability_override' | 'availability_override_until'>,
+  now: Date = new Date()
+): boolean =>
+  item.availability_override != null
+  && !!item.availability_override_until
+  && new Date(item.availability_override_until) > now;
+
+/**
+ * A moment in the kitchen's time zone: "Fri 07:00", with the date when it is
+ * a week or more away
+ */
+export const formatKitchenTime = (at: string, timeZone: string, now: Date = new Date()): string => {
+  const date = new Date(at);
+  const withDate = date.getTime() - now.getTime() >= 6 * 24 * 60 * 60 * 1000;
+
+  return date.toLocaleString(undefined, {
+    weekday: 'short',
+    ...(withDate ? { day: 'numeric', month: 'short' } : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+  });
+};
+
+/**
+ * "Available until Fri 11:00", "Unavailable, next available Fri 07:00"...
+ */
+export const describeAvailability = (availability: MenuItemAvailability, timeZone: string): string => {
+  const nextChange = availability.next_change_at ? formatKitchenTime(availability.next_change_at, timeZone) : null;
+
+  if (availability.is_available_now) {
+    return nextChange ? `Available until ${nextChange}` : 'Available';
+  }
+  return nextChange
+    ? `Unavailable, next available ${nextChange}`
+    : 'Unavailable, not scheduled in the next two weeks';
+};
+
+// Data access
+
+/**
+ * Effective availability of every menu item, by menu item id: right now, or at
+ * the given time (e.g. when a pre-order is due)
+ */
+export const fetchMenuAvailability = async (at?: string): Promise<Record<string, MenuItemAvailability>> => {
+  const { data, error } = await supabase.rpc('get_menu_availability', at ? { p_at: at } : {});
+  if (error) throw error;
+
+  const byItem: Record<string, MenuItemAvailability> = {};
+  ((data || []) as MenuItemAvailability[]).forEach(row => {
+    byItem[row.menu_item_id] = row;
+  });
+  return byItem;
+};
+
+/**
+ * Forces an item on or off until the override expires (end of today in the
+ * kitchen's time zone unless given); null clears it and hands back to the schedules
+ */
+export const setAvailabilityOverride = async (
+  menuItemId: string,
+  isAvailable: boolean | null,
+  until?: string
+): Promise<MenuItem> => {
+  const { data, error } = await supabase.rpc('set_menu_item_availability_override', {
+    p_menu_item_id: menuItemId,
+    p_is_available: isAvailable,
+    p_until: until ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchMenuSchedules = async (): Promise<MenuAvailabilitySchedule[]> => {
+  const { data, error } = await supabase
+    .from('menu_availability_schedules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveMenuSchedule = async (schedule: MenuScheduleInput, scheduleId?: string): Promise<void> => {
+  const { error } = scheduleId
+    ? await supabase.from('menu_availability_schedules').update(schedule).eq('id', scheduleId)
+    : await supabase.from('menu_availability_schedules').insert(schedule);
+
+  if (error) throw error;
+};
+
+export const deleteMenuSchedule = async (scheduleId: string): Promise<void> => {
+  const { error } = await supabase.from('menu_availability_schedules').delete().eq('id', scheduleId);
+  if (error) throw error;
+};
+
+export const subscribeToMenuSchedules = (
+  channelPrefix: string,
+  onChange: () => void
+): MenuScheduleChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'menu_availability_schedules' }, () => onChange())
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
@@ -0,0 +1,144 @@
+/**
+ * Menu Categories
+ *
+ * Admin-managed categories that menu items are grouped under. Items store
+ * the category slug; the display name, order, active flag and optional daily
+ * time window live in the menu_categories table. Whether a category is being
+ * served right now is worked out by the database in the kitchen's time zone
+ * (see menu-availability.ts).
+ */
+
+import { supabase, MenuCategory, MenuItem } from './supabase';
+
+export type MenuCategoryInput = Omit<MenuCategory, 'created_at' | 'updated_at'>;
+
+export type MenuCategoryChannel = ReturnType<typeof supabase.channel>;
+
+export interface CategoryGroup<T extends Pick<MenuItem, 'category'> = MenuItem> {
+  slug: string;
+  name: string;
+  // Null for items whose category could not be found
+  category: MenuCategory | null;
+  items: T[];
+}
+
+/**
+ * Slug for a new category name: "Weekend specials" -> "weekend_specials"
+ */
+export const toCategorySlug = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const sortCategories = (categories: MenuCategory[]): MenuCategory[] =>
+  categories.slice().sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+export const getCategoryName = (slug: string, categories: MenuCategory[]): string =>
+  categories.find(category => category.slug === slug)?.name || slug;
+
+// 'HH:MM:SS' from Postgres, shown as 'HH:MM'
+export const formatCategoryTime = (time: string): string => time.slice(0, 5);
+
+export const formatCategoryWindow = (category: MenuCategory): string =>
+  category.available_from && category.available_until
+    ? `${formatCategoryTime(category.available_from)}–${formatCategoryTime(category.available_until)}`
+    : 'All day';
+
+/**
+ * Items grouped under their categories in display order. Categories with no
+ * items are kept so they can be shown empty; items pointing at an unknown
+ * category are collected at the end.
+ */
+export const groupItemsByCategory = <T extends Pick<MenuItem, 'category'>>(
+  items: T[],
+  categories: MenuCategory[]
+): CategoryGroup<T>[] => {
+  const groups: CategoryGroup<T>[] = sortCategories(categories).map(category => ({
+    slug: category.slug,
+    name: category.name,
+    category,
+    items: items.filter(item => item.category === category.slug),
+  }));
+
+  const known = new Set(categories.map(category => category.slug));
+  const unknown = items.filter(item => !known.has(item.category));
+  if (unknown.length > 0) {
+    groups.push({ slug: '', name: 'Uncategorised', category: null, items: unknown });
+  }
+
+  return groups;
+};
+
+// Data access
+
+export const fetchMenuCategories = async (): Promise<MenuCategory[]> => {
+  const { data, error } = await supabase
+    .from('menu_categories')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Creates the category, or updates it when it already exists; the slug never changes
+ */
+export const saveMenuCategory = async (category: MenuCategoryInput, isNew: boolean): Promise<void> => {
+  const { error } = isNew
+    ? await supabase.from('menu_categories').insert(category)
+    : await supabase
+      .from('menu_categories')
+      .update({ ...category, updated_at: new Date().toISOString() })
+      .eq('slug', category.slug);
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`A category with the key "${category.slug}" already exists`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Swaps the sort order of two neighbouring categories
+ */
+export const swapCategoryOrder = async (first: MenuCategory, second: MenuCategory): Promise<void> => {
+  const updatedAt = new Date().toISOString();
+  // Equal sort orders (e.g. migrated categories) would swap to the same values
+  const firstOrder = first.sort_order === second.sort_order ? second.sort_order + 1 : second.sort_order;
+
+  const results = await Promise.all([
+    supabase.from('menu_categories').update({ sort_order: firstOrder, updated_at: updatedAt }).eq('slug', first.slug),
+    supabase.from('menu_categories').update({ sort_order: first.sort_order, updated_at: updatedAt }).eq('slug', second.slug),
+  ]);
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+};
+
+export const deleteMenuCategory = async (slug: string): Promise<void> => {
+  const { error } = await supabase.from('menu_categories').delete().eq('slug', slug);
+
+  // Categories still holding menu items are protected by the menu_items foreign key
+  if (error?.code === '23503') {
+    throw new Error('This category still has menu items; move them or switch the category off instead');
+  }
+  if (error) throw error;
+};
+
+/**
+ * Calls onChange whenever a category is added, edited, reordered or deleted
+ */
+export const subscribeToMenuCategories = (
+  channelPrefix: string,
+  onChange: () => void
+): MenuCategoryChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'menu_categories' }, () => onChange())
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
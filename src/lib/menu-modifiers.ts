@@ -0,0 +1,185 @@
+/**
+ * Menu Modifiers
+ *
+ * Modifier groups (bread choice, spice level, toppings) with priced options
+ * and min/max selection rules. Groups are shared and attached to menu items;
+ * an order line keeps a snapshot of the options chosen, and its price
+ * already includes their deltas.
+ */
+
+import { supabase, ModifierGroup, ModifierOption, OrderItemModifier } from './supabase';
+import { formatCurrency, toAmount } from './order-totals';
+
+export type ModifierGroupInput = Pick<ModifierGroup, 'name' | 'min_select' | 'max_select' | 'sort_order'>;
+export type ModifierOptionInput = Pick<ModifierOption, 'group_id' | 'name' | 'price_delta' | 'is_available' | 'sort_order'>;
+
+const bySortOrder = <T extends { sort_order: number; name: string }>(a: T, b: T) =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+/**
+ * "Pick exactly 1", "Up to 3", "Optional"...
+ */
+export const describeSelectionRule = (group: Pick<ModifierGroup, 'min_select' | 'max_select'>): string => {
+  const { min_select: min, max_select: max } = group;
+
+  if (max !== null && min === max) return `Pick exactly ${min}`;
+  if (min === 0) return max === null ? 'Optional' : `Up to ${max}`;
+  if (max === null) return `Pick at least ${min}`;
+  return `Pick ${min}–${max}`;
+};
+
+/**
+ * First rule the selection breaks, as a message, or null when every group is satisfied
+ */
+export const validateModifierSelection = (groups: ModifierGroup[], selectedOptionIds: string[]): string | null => {
+  for (const group of groups) {
+    const chosen = (group.options || []).filter(option => selectedOptionIds.includes(option.id)).length;
+    if (chosen < group.min_select || (group.max_select !== null && chosen > group.max_select)) {
+      return `${group.name}: ${describeSelectionRule(group).toLowerCase()}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * The chosen options in the shape stored on order_items, in group order
+ */
+export const toOrderItemModifiers = (groups: ModifierGroup[], selectedOptionIds: string[]): OrderItemModifier[] =>
+  groups.reduce<OrderItemModifier[]>((all, group) => all.concat(
+    (group.options || [])
+      .filter(option => selectedOptionIds.includes(option.id))
+      .map(option => ({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        option_name: option.name,
+        price_delta: toAmount(option.price_delta),
+      }))
+  ), []);
+
+/**
+ * Key for an order line being built: a menu item plus the options chosen for it,
+ * so the same dish with different options is kept as separate lines
+ */
+export const toModifierLineKey = (menuItemId: string, optionIds: string[]): string =>
+  optionIds.length > 0 ? `${menuItemId}|${optionIds.slice().sort().join(',')}` : menuItemId;
+
+export const parseModifierLineKey = (key: string): { menuItemId: string; optionIds: string[] } => {
+  const [menuItemId, optionIds] = key.split('|');
+  return { menuItemId, optionIds: optionIds ? optionIds.split(',') : [] };
+};
+
+export const getModifiersTotal = (modifiers: Pick<OrderItemModifier, 'price_delta'>[] = []): number =>
+  modifiers.reduce((sum, modifier) => sum + toAmount(modifier.price_delta), 0);
+
+export const formatPriceDelta = (delta: number | string): string => {
+  const amount = toAmount(delta);
+  if (amount === 0) return '';
+  return amount > 0 ? `+${formatCurrency(amount)}` : `-${formatCurrency(-amount)}`;
+};
+
+/**
+ * "Naan, Extra cheese (+$1.50)"
+ */
+export const formatModifiers = (modifiers: OrderItemModifier[] = []): string =>
+  modifiers
+    .map(modifier => {
+      const delta = formatPriceDelta(modifier.price_delta);
+      return delta ? `${modifier.option_name} (${delta})` : modifier.option_name;
+    })
+    .join(', ');
+
+// Data access
+
+/**
+ * Every modifier group with its options, both in display order
+ */
+export const fetchModifierGroups = async (): Promise<ModifierGroup[]> => {
+  const { data, error } = await supabase
+    .from('modifier_groups')
+    .select('*, options:modifier_options(*)');
+
+  if (error) throw error;
+  return (data || [])
+    .map((group: ModifierGroup) => ({ ...group, options: (group.options || []).slice().sort(bySortOrder) }))
+    .sort(bySortOrder);
+};
+
+export const saveModifierGroup = async (group: ModifierGroupInput, groupId?: string): Promise<void> => {
+  const { error } = groupId
+    ? await supabase.from('modifier_groups').update({ ...group, updated_at: new Date().toISOString() }).eq('id', groupId)
+    : await supabase.from('modifier_groups').insert(group);
+
+  if (error) throw error;
+};
+
+/**
+ * Deleting a group also removes its options and detaches it from every menu item;
+ * past orders keep their snapshot
+ */
+export const deleteModifierGroup = async (groupId: string): Promise<void> => {
+  const { error } = await supabase.from('modifier_groups').delete().eq('id', groupId);
+  if (error) throw error;
+};
+
+export const saveModifierOption = async (option: ModifierOptionInput, optionId?: string): Promise<void> => {
+  const { error } = optionId
+    ? await supabase.from('modifier_options').update(option).eq('id', optionId)
+    : await supabase.from('modifier_options').insert(option);
+
+  if (error) throw error;
+};
+
+export const deleteModifierOption = async (optionId: string): Promise<void> => {
+  const { error } = await supabase.from('modifier_options').delete().eq('id', optionId);
+  if (error) throw error;
+};
+
+/**
+ * Group ids attached to each menu item, in the item's order
+ */
+export const fetchItemModifierGroupIds = async (): Promise<Record<string, string[]>> => {
+  const { data, error } = await supabase
+    .from('menu_item_modifier_groups')
+    .select('menu_item_id, group_id, sort_order')
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+
+  const groupIdsByItem: Record<string, string[]> = {};
+  (data || []).forEach(link => {
+    groupIdsByItem[link.menu_item_id] = [...(groupIdsByItem[link.menu_item_id] || []), link.group_id];
+  });
+  return groupIdsByItem;
+};
+
+/**
+ * Replaces the groups attached to a menu item; their order is the order given
+ */
+export const setItemModifierGroups = async (menuItemId: string, groupIds: string[]): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from('menu_item_modifier_groups')
+    .delete()
+    .eq('menu_item_id', menuItemId);
+
+  if (deleteError) throw deleteError;
+  if (groupIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('menu_item_modifier_groups')
+    .insert(groupIds.map((groupId, index) => ({ menu_item_id: menuItemId, group_id: groupId, sort_order: index })));
+
+  if (error) throw error;
+};
+
+/**
+ * The groups attached to a menu item, resolved from the full list
+ */
+export const getItemModifierGroups = (
+  menuItemId: string,
+  groups: ModifierGroup[],
+  groupIdsByItem: Record<string, string[]>
+): ModifierGroup[] =>
+  (groupIdsByItem[menuItemId] || [])
+    .map(groupId => groups.find(group => group.id === groupId))
+    .filter((group): group is ModifierGroup => !!group);
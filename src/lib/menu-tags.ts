@@ -0,0 +1,95 @@
+/**
+ * Menu Tags
+ *
+ * Allergens and dietary tags on menu items. The keys are fixed and mirror the
+ * check constraints in 018_menu_tags.sql - keep the two in sync. Order lines keep
+ * a copy of their dish's allergens so kitchen tickets can warn about them.
+ */
+
+import { MenuItem, OrderItem } from './supabase';
+
+export type Allergen = MenuItem['allergens'][number];
+export type DietaryTag = MenuItem['dietary_tags'][number];
+
+// In the order they are listed on forms and tickets
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Gluten',
+  peanuts: 'Peanuts',
+  tree_nuts: 'Tree nuts',
+  dairy: 'Dairy',
+  egg: 'Egg',
+  soy: 'Soy',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  molluscs: 'Molluscs',
+  sesame: 'Sesame',
+  mustard: 'Mustard',
+  celery: 'Celery',
+  sulphites: 'Sulphites',
+  lupin: 'Lupin',
+};
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  halal: 'Halal',
+  jain: 'Jain',
+  spicy: 'Spicy',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+export const DIETARY_TAGS = Object.keys(DIETARY_TAG_LABELS) as DietaryTag[];
+
+// Vegan and Jain dishes are vegetarian too
+const VEGETARIAN_TAGS: DietaryTag[] = ['vegetarian', 'vegan', 'jain'];
+
+/**
+ * Value for menu_items.is_vegetarian, which storefronts still read
+ */
+export const isVegetarianByTags = (tags: DietaryTag[]): boolean =>
+  tags.some(tag => VEGETARIAN_TAGS.includes(tag));
+
+/**
+ * An item's dietary tags; items saved before tags existed only have the vegetarian flag
+ */
+export const getDietaryTags = (item: Pick<MenuItem, 'dietary_tags' | 'is_vegetarian'>): DietaryTag[] =>
+  item.dietary_tags?.length ? item.dietary_tags : item.is_vegetarian ? ['vegetarian'] : [];
+
+/**
+ * Sorts tags into the fixed display order and drops duplicates
+ */
+export const sortAllergens = (allergens: Allergen[]): Allergen[] =>
+  ALLERGENS.filter(allergen => allergens.includes(allergen));
+
+export const sortDietaryTags = (tags: DietaryTag[]): DietaryTag[] =>
+  DIETARY_TAGS.filter(tag => tags.includes(tag));
+
+/**
+ * "Gluten, Dairy"
+ */
+export const formatAllergens = (allergens: Allergen[] = []): string =>
+  sortAllergens(allergens).map(allergen => ALLERGEN_LABELS[allergen]).join(', ');
+
+/**
+ * Every allergen across an order's lines, for a ticket-level warning
+ */
+export const getOrderAllergens = (items: Pick<OrderItem, 'allergens'>[] = []): Allergen[] =>
+  sortAllergens(items.reduce<Allergen[]>((all, item) => all.concat(item.allergens || []), []));
+
+// Menu filter values: a dietary tag, or an allergen the dish contains or is free from
+export type MenuTagFilter = '' | `tag:${DietaryTag}` | `contains:${Allergen}` | `free:${Allergen}`;
+
+export const matchesMenuTagFilter = (
+  item: Pick<MenuItem, 'allergens' | 'dietary_tags' | 'is_vegetarian'>,
+  filter: MenuTagFilter
+): boolean => {
+  if (!filter) return true;
+
+  const [kind, value] = filter.split(':');
+  const allergens: string[] = item.allergens || [];
+  const tags: string[] = getDietaryTags(item);
+
+  if (kind === 'tag') return tags.includes(value);
+  if (kind === 'contains') return allergens.includes(value);
+  return !allergens.includes(value);
+};
@@ -0,0 +1,370 @@
+/**
+ * Menu Import and Export
+ *
+ * Moves menu items in and out as CSV or JSON, for backups, copying a menu
+ * between environments and onboarding a new brand. Imported rows are checked
+ * against a zod schema and compared with the current menu before anything is
+ * written; the changes are then applied in one transaction by import_menu_items
+ * (020_menu_import.sql). Modifier groups and availability schedules are not included.
+ */
+
+import { z } from 'zod';
+import { supabase, MenuItem } from './supabase';
+import { CSV_BOM, parseCsv, toCsvRow } from './csv';
+import { downloadBlob } from './order-export';
+import { toAmount } from './order-totals';
+import { toCategorySlug } from './menu-categories';
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  DietaryTag,
+  DIETARY_TAG_LABELS,
+  DIETARY_TAGS,
+  getDietaryTags,
+  sortAllergens,
+  sortDietaryTags,
+} from './menu-tags';
+
+export type MenuFileFormat = 'csv' | 'json';
+
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged' | 'invalid';
+
+export interface ImportPreviewRow {
+  // Row number in the file, counting from 1 (after the CSV header)
+  row: number;
+  status: ImportRowStatus;
+  name: string;
+  data: MenuImportItem | null;
+  // The menu item this row updates
+  existing: MenuItem | null;
+  // Field names that differ from the existing item
+  changes: string[];
+  errors: string[];
+}
+
+export interface MenuImportResult {
+  inserted: number;
+  updated: number;
+  categories_created: number;
+  // "Name: reason" for images that stayed at their original URL
+  imageFailures: string[];
+}
+
+// Column order of the export, and the keys the import understands
+export const MENU_TRANSFER_FIELDS = [
+  'id',
+  'name',
+  'description',
+  'price',
+  'category',
+  'image_url',
+  'is_available',
+  'allergens',
+  'dietary_tags',
+] as const;
+
+export const MENU_IMAGE_BUCKET = 'restaurant-images';
+
+// Server-side handler that copies images into the bucket (app/api/menu-images)
+const COPY_IMAGE_ENDPOINT = '/api/menu-images';
+
+// Tag lists are written "gluten|dairy" in CSV; commas and semicolons are accepted too
+const LIST_SEPARATOR = '|';
+
+const blankToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+/**
+ * Reads a tag list from a JSON array or a separated string, accepting keys or
+ * labels in any case ("Tree nuts" or "tree_nuts")
+ */
+const toTagList = (labels: Record<string, string>) => (value: unknown) => {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : String(value).split(/[|;,]/);
+
+  return values
+    .map(entry => String(entry).trim())
+    .filter(Boolean)
+    .map(entry => {
+      const key = entry.toLowerCase().replace(/[\s-]+/g, '_');
+      return Object.keys(labels).find(tag => tag === key || labels[tag].toLowerCase() === entry.toLowerCase()) || entry;
+    });
+};
+
+const toBoolean = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return true;
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  return value;
+};
+
+export const menuImportItemSchema = z.object({
+  id: z.preprocess(blankToUndefined, z.string().uuid('id must be a UUID').optional()),
+  name: z.string({ required_error: 'name is required' }).trim().min(1, 'name is required'),
+  description: z.preprocess(value => value ?? '', z.string().trim()),
+  price: z.preprocess(
+    blankToUndefined,
+    z.coerce.number({ required_error: 'price is required', invalid_type_error: 'price must be a number' })
+      .finite('price must be a number')
+      .nonnegative('price must not be negative')
+      .refine(price => Math.abs(Math.round(price * 100) - price * 100) < 1e-6, 'price can have at most 2 decimals')
+  ),
+  category: z.string({ required_error: 'category is required' })
+    .transform(toCategorySlug)
+    .refine(slug => slug !== '', 'category is required'),
+  image_url: z.preprocess(
+    value => value ?? '',
+    z.string().trim().refine(url => url === '' || /^https?:\/\//.test(url), 'image_url must be an http(s) URL')
+  ),
+  is_available: z.preprocess(toBoolean, z.boolean({ invalid_type_error: 'is_available must be true or false' })),
+  allergens: z.preprocess(toTagList(ALLERGEN_LABELS), z.array(z.enum(ALLERGENS as [Allergen, ...Allergen[]], {
+    errorMap: () => ({ message: `allergens must be from: ${ALLERGENS.join(', ')}` }),
+  }))),
+  dietary_tags: z.preprocess(toTagList(DIETARY_TAG_LABELS), z.array(z.enum(DIETARY_TAGS as [DietaryTag, ...DietaryTag[]], {
+    errorMap: () => ({ message: `dietary_tags must be from: ${DIETARY_TAGS.join(', ')}` }),
+  }))),
+});
+
+export type MenuImportItem = z.infer<typeof menuImportItemSchema>;
+
+/**
+ * Raw rows from a file: a JSON array (or { "items": [...] }, as exported), or
+ * CSV with a header row naming the columns
+ */
+export const parseMenuFile = (fileName: string, text: string): Record<string, unknown>[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const items = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array of menu items, or an object with an "items" array');
+    }
+    return items.map(item => (item && typeof item === 'object' ? item : {}) as Record<string, unknown>);
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const keys = header.map(column => column.trim().toLowerCase());
+  if (!keys.includes('name')) {
+    throw new Error('The CSV header must include a "name" column');
+  }
+
+  return rows.map(values => {
+    const record: Record<string, unknown> = {};
+    keys.forEach((key, index) => {
+      record[key] = values[index];
+    });
+    return record;
+  });
+};
+
+const sameList = (a: string[], b: string[]) => a.slice().sort().join('|') === b.slice().sort().join('|');
+
+/**
+ * Fields of the row that differ from the existing item
+ */
+const getChangedFields = (item: MenuImportItem, existing: MenuItem): string[] => {
+  const changes: string[] = [];
+
+  if (item.name !== existing.name) changes.push('name');
+  if (item.description !== (existing.description || '')) changes.push('description');
+  if (item.price !== toAmount(existing.price)) changes.push('price');
+  if (item.category !== existing.category) changes.push('category');
+  if (item.image_url !== (existing.image_url || '')) changes.push('image_url');
+  if (item.is_available !== existing.is_available) changes.push('is_available');
+  if (!sameList(item.allergens, existing.allergens || [])) changes.push('allergens');
+  if (!sameList(item.dietary_tags, getDietaryTags(existing))) changes.push('dietary_tags');
+
+  return changes;
+};
+
+/**
+ * Validates every row and sorts it into new, changed, unchanged or invalid.
+ * A row updates the item with its id when there is one, otherwise the item
+ * with the same name.
+ */
+export const buildImportPreview = (rows: Record<string, unknown>[], existingItems: MenuItem[]): ImportPreviewRow[] => {
+  const byId = new Map(existingItems.map(item => [item.id, item]));
+  const byName = new Map(existingItems.map(item => [item.name.trim().toLowerCase(), item]));
+  // Row number that first claimed each id or name, to catch duplicates
+  const claimed = new Map<string, number>();
+
+  return rows.map((raw, index) => {
+    const row = index + 1;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    const parsed = menuImportItemSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      const errors = parsed.error.issues.map(issue => issue.message);
+      return { row, status: 'invalid', name, data: null, existing: null, changes: [], errors };
+    }
+
+    const item = parsed.data;
+    const existing = (item.id && byId.get(item.id)) || byName.get(item.name.toLowerCase()) || null;
+    const keys = [item.id, existing?.id, `name:${item.name.toLowerCase()}`].filter((key): key is string => !!key);
+    const duplicateOf = keys.map(key => claimed.get(key)).find(claimedRow => claimedRow !== undefined);
+
+    if (duplicateOf !== undefined) {
+      return {
+        row, status: 'invalid', name, data: item, existing, changes: [],
+        errors: [`Same item as row ${duplicateOf}`],
+      };
+    }
+    keys.forEach(key => claimed.set(key, row));
+
+    const normalised = { ...item, allergens: sortAllergens(item.allergens), dietary_tags: sortDietaryTags(item.dietary_tags) };
+    if (!existing) {
+      return { row, status: 'new', name, data: normalised, existing: null, changes: [], errors: [] };
+    }
+
+    const changes = getChangedFields(normalised, existing);
+    return {
+      row, status: changes.length > 0 ? 'changed' : 'unchanged', name, data: normalised, existing, changes, errors: [],
+    };
+  });
+};
+
+/**
+ * Whether the URL already points into our image bucket
+ */
+export const isStoredImageUrl = (url: string): boolean =>
+  url.includes(`/storage/v1/object/public/${MENU_IMAGE_BUCKET}/`);
+
+/**
+ * Has the server download an image from a URL and store a copy in the image
+ * bucket (browsers can't read most image hosts because of CORS), resolving
+ * with the copy's public URL and its path in the bucket
+ */
+export const copyImageToStorage = async (url: string): Promise<{ url: string; path: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('not signed in');
+  }
+
+  const response = await fetch(COPY_IMAGE_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+    body: JSON.stringify({ url }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `copy failed (${response.status})`);
+  }
+  return body;
+};
+
+/**
+ * Removes copied images again when the import they were made for fails
+ */
+const removeCopiedImages = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(MENU_IMAGE_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error removing copied images:', error);
+  }
+};
+
+// Data access
+
+/**
+ * Writes the new and changed rows in one transaction. With copyImages, images
+ * on other hosts are copied into the bucket first; an image that can't be
+ * copied keeps its original URL and is reported back, and the copies are
+ * removed again if the import fails.
+ */
+export const applyMenuImport = async (
+  preview: ImportPreviewRow[],
+  options: { copyImages: boolean },
+  onProgress?: (message: string) => void
+): Promise<MenuImportResult> => {
+  const rows = preview.filter(row => row.data && (row.status === 'new' || row.status === 'changed'));
+  if (rows.length === 0) {
+    throw new Error('Nothing to import');
+  }
+
+  const imageFailures: string[] = [];
+  // Bucket paths of the copies made for this import
+  const copiedPaths: string[] = [];
+  const items = rows.map(row => ({ ...(row.data as MenuImportItem), id: row.existing?.id ?? row.data?.id ?? null }));
+
+  if (options.copyImages) {
+    const external = items.filter(item => item.image_url && !isStoredImageUrl(item.image_url));
+    for (let index = 0; index < external.length; index++) {
+      const item = external[index];
+      onProgress?.(`Copying image ${index + 1} of ${external.length}...`);
+      try {
+        const copy = await copyImageToStorage(item.image_url);
+        item.image_url = copy.url;
+        copiedPaths.push(copy.path);
+      } catch (error: unknown) {
+        imageFailures.push(`${item.name}: ${error instanceof Error ? error.message : 'could not be copied'}`);
+      }
+    }
+  }
+
+  onProgress?.('Saving...');
+  const { data, error } = await supabase.rpc('import_menu_items', { p_items: items });
+  if (error) {
+    await removeCopiedImages(copiedPaths);
+    throw error;
+  }
+
+  return { ...(data as Omit<MenuImportResult, 'imageFailures'>), imageFailures };
+};
+
+/**
+ * Downloads every menu item, ordered by category then name
+ */
+export const exportMenu = async (format: MenuFileFormat): Promise<number> => {
+  const { data, error } = await supabase
+    .from('menu_items')
+    .select('*')
+    .order('category', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  const items = (data || []).map((item: MenuItem) => ({
+    id: item.id,
+    name: item.name,
+    description: item.description || '',
+    price: toAmount(item.price),
+    category: item.category,
+    image_url: item.image_url || '',
+    is_available: item.is_available,
+    allergens: sortAllergens(item.allergens || []),
+    dietary_tags: sortDietaryTags(getDietaryTags(item)),
+  }));
+
+  const filename = `menu-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'json') {
+    const body = JSON.stringify({ exported_at: new Date().toISOString(), items }, null, 2);
+    downloadBlob(new Blob([body], { type: 'application/json' }), filename);
+    return items.length;
+  }
+
+  const chunks = [
+    CSV_BOM + toCsvRow([...MENU_TRANSFER_FIELDS]),
+    ...items.map(item => toCsvRow(MENU_TRANSFER_FIELDS.map(field => {
+      const value = item[field];
+      return Array.isArray(value) ? value.join(LIST_SEPARATOR) : value;
+    }))),
+  ];
+  downloadBlob(new Blob(chunks, { type: 'text/csv;charset=utf-8' }), filename);
+  return items.length;
+};
@@ -0,0 +1,128 @@
+/**
+ * New-Order Alerts
+ *
+ * Sound, desktop notification and acknowledgement helpers for the
+ * panel-wide new-order alert. Acknowledgement is shared through the
+ * orders table; muting is a per-admin preference stored with the admin's
+ * own settings, so it follows them across devices and tabs.
+ */
+
+import { supabase, Order } from './supabase';
+import {
+  getAdminSetting,
+  getAdminUserSetting,
+  saveAdminSetting,
+  saveAdminUserSetting,
+  subscribeToAdminUserSetting,
+} from './admin-settings';
+
+export interface NewOrderAlertSettings {
+  escalate_after_minutes: number;
+}
+
+// The admin's own alert preferences
+export interface NewOrderAlertPreferences {
+  muted: boolean;
+}
+
+const ALERT_SETTINGS_KEY = 'new_order_alerts';
+
+export const DEFAULT_ALERT_SETTINGS: NewOrderAlertSettings = {
+  escalate_after_minutes: 3,
+};
+
+const DEFAULT_ALERT_PREFERENCES: NewOrderAlertPreferences = {
+  muted: false,
+};
+
+export const getAlertSettings = (): Promise<NewOrderAlertSettings> =>
+  getAdminSetting(ALERT_SETTINGS_KEY, DEFAULT_ALERT_SETTINGS);
+
+export const saveAlertSettings = (settings: NewOrderAlertSettings): Promise<void> =>
+  saveAdminSetting(ALERT_SETTINGS_KEY, settings);
+
+export const isAlertMuted = async (userId: string): Promise<boolean> =>
+  (await getAdminUserSetting(userId, ALERT_SETTINGS_KEY, DEFAULT_ALERT_PREFERENCES)).muted;
+
+export const setAlertMuted = (userId: string, muted: boolean): Promise<void> =>
+  saveAdminUserSetting(userId, ALERT_SETTINGS_KEY, { muted });
+
+/**
+ * Keeps the admin's other tabs and devices in step when they mute or unmute
+ */
+export const subscribeToAlertMuted = (
+  channelPrefix: string,
+  userId: string,
+  onChange: (muted: boolean) => void
+) =>
+  subscribeToAdminUserSetting<NewOrderAlertPreferences>(channelPrefix, userId, ALERT_SETTINGS_KEY, value => onChange(!!value.muted));
+
+/**
+ * Online orders still waiting in pending that nobody has acknowledged
+ */
+export const fetchUnacknowledgedOrders = async (): Promise<Order[]> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('status', 'pending')
+    .is('acknowledged_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const acknowledgeOrders = async (orderIds: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('acknowledge_orders', { p_order_ids: orderIds });
+  if (error) throw error;
+};
+
+export const needsAcknowledgement = (order: Order): boolean =>
+  order.status === 'pending' && !order.acknowledged_at;
+
+export const isEscalated = (order: Order, settings: NewOrderAlertSettings, now: number = Date.now()): boolean =>
+  now - new Date(order.created_at).getTime() >= settings.escalate_after_minutes * 60000;
+
+/**
+ * Plays one alert chime. Escalated alerts are louder, higher and longer.
+ * Browsers only allow audio after a user gesture, so the context may still be suspended.
+ */
+export const playAlertTone = (context: AudioContext, escalated: boolean): void => {
+  const notes = escalated ? [880, 1175, 880, 1175] : [660, 880];
+  const gainLevel = escalated ? 0.6 : 0.2;
+  const noteLength = 0.18;
+
+  notes.forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + index * noteLength;
+
+    oscillator.type = escalated ? 'square' : 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(gainLevel, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + noteLength);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + noteLength);
+  });
+};
+
+export const canShowDesktopNotifications = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+export const showDesktopNotification = (title: string, body: string, tag: string): void => {
+  if (!canShowDesktopNotifications() || Notification.permission !== 'granted') return;
+
+  try {
+    const notification = new Notification(title, { body, tag, requireInteraction: true });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.error('Desktop notification failed:', error);
+  }
+};
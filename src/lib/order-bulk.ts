@@ -0,0 +1,55 @@
+/**
+ * Bulk Order Actions
+ *
+ * Runs one action over many orders through the bulk_update_orders RPC and
+ * summarises the per-order outcome.
+ */
+
+import { supabase } from './supabase';
+
+export type BulkOrderAction = 'mark_read' | 'advance' | 'cancel';
+
+export interface BulkOrderResult {
+  order_id: string;
+  ok: boolean;
+  message: string | null;
+}
+
+export const runBulkOrderAction = async (
+  orderIds: string[],
+  action: BulkOrderAction,
+  reason?: string
+): Promise<BulkOrderResult[]> => {
+  const { data, error } = await supabase.rpc('bulk_update_orders', {
+    p_order_ids: orderIds,
+    p_action: action,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as BulkOrderResult[];
+};
+
+/**
+ * e.g. "12 updated, 1 rejected: already delivered"
+ */
+export const summarizeBulkResults = (results: BulkOrderResult[]): string => {
+  const updated = results.filter(result => result.ok).length;
+  const rejected = results.filter(result => !result.ok);
+
+  if (rejected.length === 0) {
+    return `${updated} updated`;
+  }
+
+  const reasons: Record<string, number> = {};
+  rejected.forEach(result => {
+    const reason = result.message || 'unknown error';
+    reasons[reason] = (reasons[reason] || 0) + 1;
+  });
+
+  const reasonText = Object.entries(reasons)
+    .map(([reason, count]) => (rejected.length > 1 && count > 1 ? `${reason} (${count})` : reason))
+    .join(', ');
+
+  return `${updated} updated, ${rejected.length} rejected: ${reasonText}`;
+};
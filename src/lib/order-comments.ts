@@ -0,0 +1,93 @@
+/**
+ * Order Comments
+ *
+ * Internal staff notes on an order. RLS keeps them to admin roles, so they
+ * are never exposed to the customer.
+ */
+
+import { supabase, OrderComment } from './supabase';
+
+export type CommentsChannel = ReturnType<typeof supabase.channel>;
+
+export const fetchOrderComments = async (orderId: string): Promise<OrderComment[]> => {
+  // Two foreign keys point at users, so name the one to embed
+  const { data, error } = await supabase
+    .from('order_comments')
+    .select('*, author:users!order_comments_author_id_fkey(email, full_name)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const addOrderComment = async (orderId: string, body: string): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('order_comments')
+    .insert({ order_id: orderId, body: body.trim(), author_id: user?.id });
+
+  if (error) throw error;
+};
+
+export const setCommentResolved = async (commentId: string, resolved: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('order_comments')
+    .update({ resolved_at: resolved ? new Date().toISOString() : null })
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+/**
+ * Number of unresolved comments per order, for the given orders
+ */
+export const fetchUnresolvedCommentCounts = async (orderIds: string[]): Promise<Record<string, number>> => {
+  if (orderIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('order_comments')
+    .select('order_id')
+    .is('resolved_at', null)
+    .in('order_id', orderIds);
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  (data || []).forEach(comment => {
+    counts[comment.order_id] = (counts[comment.order_id] || 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * Calls onChange for any comment change, optionally only on one order.
+ * The caller owns the returned channel and must unsubscribe it on cleanup.
+ */
+export const subscribeToCommentChanges = (
+  channelPrefix: string,
+  onChange: (orderId: string) => void,
+  orderId?: string
+): CommentsChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'order_comments',
+        ...(orderId ? { filter: `order_id=eq.${orderId}` } : {}),
+      },
+      (payload) => {
+        const changed = (payload.new && 'order_id' in payload.new ? payload.new : payload.old) as Partial<OrderComment>;
+        if (changed.order_id) {
+          onChange(changed.order_id);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
@@ -0,0 +1,56 @@
+/**
+ * Order Edits
+ *
+ * Changes to an order's line items after placement through the edit_order_items
+ * RPC, which recalculates total_amount and logs every edit in order_edits.
+ */
+
+import { supabase, Order, OrderEdit, User } from './supabase';
+
+/**
+ * One line in an edit: an existing line's new quantity (0 removes it) or a new menu item
+ */
+export type OrderItemChange =
+  | { order_item_id: string; quantity: number }
+  | { menu_item_id: string; quantity: number; modifier_option_ids?: string[] };
+
+// Food has left the kitchen, so changing the lines needs a superadmin override
+export const EDIT_LOCKED_STATUSES: Order['status'][] = ['ready', 'delivered'];
+
+export const isEditLocked = (status: Order['status']): boolean =>
+  EDIT_LOCKED_STATUSES.includes(status);
+
+/**
+ * Whether a user with the given role may edit an order in this status at all
+ */
+export const canEditOrder = (status: Order['status'], role: User['role'] | undefined): boolean => {
+  if (status === 'cancelled') return false;
+  return !isEditLocked(status) || role === 'superadmin';
+};
+
+export const fetchOrderEdits = async (orderId: string): Promise<OrderEdit[]> => {
+  const { data, error } = await supabase
+    .from('order_edits')
+    .select('*, actor:users(email, full_name)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const editOrderItems = async (
+  orderId: string,
+  changes: OrderItemChange[],
+  options: { override?: boolean; note?: string } = {}
+): Promise<OrderEdit> => {
+  const { data, error } = await supabase.rpc('edit_order_items', {
+    p_order_id: orderId,
+    p_changes: changes,
+    p_override: options.override ?? false,
+    p_note: options.note ?? null,
+  });
+
+  if (error) throw error;
+  return data as OrderEdit;
+};
@@ -0,0 +1,263 @@
+/**
+ * Order Export
+ *
+ * CSV and XLSX exports of the filtered orders list, one row per order or one
+ * row per line item. Orders are paged out of Supabase with the list's cursor.
+ * Where the browser can save straight to disk, CSV pages are written to the
+ * file as they arrive; elsewhere, and for XLSX (the browser build of ExcelJS
+ * has no streaming writer), the whole file is built in memory first.
+ */
+
+import { Order, OrderItem } from './supabase';
+import { buildOrdersQuery, getCursorAfter, OrderCursor, OrderFilters } from './order-filters';
+import { getItemsTotal, getLineTotal, getNetAmount, toAmount } from './order-totals';
+import { CSV_BOM, CsvValue, toCsvRow } from './csv';
+import { formatModifiers } from './menu-modifiers';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportLayout = 'orders' | 'items';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  /** Item columns only appear in the one-row-per-item layout */
+  level: 'order' | 'item';
+  /** Timestamps are formatted in the chosen timezone */
+  timestamp?: boolean;
+  value: (order: Order, item: OrderItem | null) => CsvValue;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  layout: ExportLayout;
+  columns: string[];
+  timeZone: string;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+const FILE_TYPES: Record<ExportFormat, { mime: string; description: string }> = {
+  csv: { mime: 'text/csv', description: 'CSV file' },
+  xlsx: { mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', description: 'Excel workbook' },
+};
+
+// File System Access API; not in TypeScript's DOM types because only Chromium browsers have it
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'order_id', label: 'Order ID', level: 'order', value: order => order.id },
+  { key: 'created_at', label: 'Created', level: 'order', timestamp: true, value: order => order.created_at },
+  { key: 'status', label: 'Status', level: 'order', value: order => order.status },
+  { key: 'source', label: 'Source', level: 'order', value: order => order.source || 'online' },
+  { key: 'customer_name', label: 'Customer', level: 'order', value: order => order.customer_name },
+  { key: 'customer_email', label: 'Email', level: 'order', value: order => order.customer_email },
+  { key: 'customer_phone', label: 'Phone', level: 'order', value: order => order.customer_phone },
+  { key: 'delivery_address', label: 'Delivery address', level: 'order', value: order => order.delivery_address },
+  { key: 'scheduled_for', label: 'Scheduled for', level: 'order', timestamp: true, value: order => order.scheduled_for },
+  { key: 'items_total', label: 'Items total', level: 'order', value: order => getItemsTotal(order.order_items || []) },
+  { key: 'delivery_fee', label: 'Delivery fee', level: 'order', value: order => toAmount(order.delivery_fee) },
+  { key: 'total_amount', label: 'Total', level: 'order', value: order => toAmount(order.total_amount) },
+  { key: 'refunded_amount', label: 'Refunded', level: 'order', value: order => toAmount(order.refunded_amount) },
+  { key: 'net_amount', label: 'Net', level: 'order', value: order => getNetAmount(order) },
+  { key: 'special_instructions', label: 'Instructions', level: 'order', value: order => order.special_instructions },
+  { key: 'item_name', label: 'Item', level: 'item', value: (_, item) => item?.item_name },
+  { key: 'item_modifiers', label: 'Modifiers', level: 'item', value: (_, item) => item && formatModifiers(item.modifiers) },
+  { key: 'quantity', label: 'Quantity', level: 'item', value: (_, item) => item?.quantity },
+  { key: 'unit_price', label: 'Unit price', level: 'item', value: (_, item) => item && toAmount(item.price) },
+  { key: 'line_total', label: 'Line total', level: 'item', value: (_, item) => item && getLineTotal(item) },
+  { key: 'refunded_quantity', label: 'Refunded qty', level: 'item', value: (_, item) => item?.refunded_quantity || 0 },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS
+  .filter(column => !['customer_email', 'special_instructions', 'refunded_quantity'].includes(column.key))
+  .map(column => column.key);
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Timestamps as "yyyy-mm-dd hh:mm:ss" wall-clock time in the given zone, which
+ * spreadsheets parse as a date without shifting it again
+ */
+export const createTimestampFormatter = (timeZone: string) => {
+  const format = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  return (value: string | null | undefined): string => {
+    if (!value) return '';
+    const parts: Record<string, string> = {};
+    format.formatToParts(new Date(value)).forEach(part => {
+      parts[part.type] = part.value;
+    });
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+  };
+};
+
+const getSelectedColumns = (options: ExportOptions): ExportColumn[] =>
+  EXPORT_COLUMNS.filter(column =>
+    options.columns.includes(column.key) && (options.layout === 'items' || column.level === 'order')
+  );
+
+/**
+ * Rows for one order: a single row, or one per line item (orders without items still get a row)
+ */
+const toRows = (
+  order: Order,
+  columns: ExportColumn[],
+  layout: ExportLayout,
+  formatTimestamp: (value: string | null | undefined) => string
+): CsvValue[][] => {
+  const items: (OrderItem | null)[] = layout === 'items' && order.order_items?.length ? order.order_items : [null];
+  return items.map(item => columns.map(column => {
+    const value = column.value(order, item);
+    return column.timestamp ? formatTimestamp(value as string | null) : value;
+  }));
+};
+
+/**
+ * Calls onPage with each page of the filtered orders, newest first
+ */
+export const pageFilteredOrders = async (
+  filters: OrderFilters,
+  onPage: (orders: Order[]) => void | Promise<void>
+): Promise<void> => {
+  let cursor: OrderCursor | null = null;
+
+  for (;;) {
+    const { data, error } = await buildOrdersQuery(filters, { cursor, limit: EXPORT_PAGE_SIZE });
+    if (error) throw error;
+
+    const page = data || [];
+    if (page.length > 0) {
+      await onPage(page);
+    }
+    if (page.length < EXPORT_PAGE_SIZE) return;
+    cursor = getCursorAfter(page[page.length - 1]);
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const getSaveFilePicker = (): SaveFilePicker | null =>
+  typeof window !== 'undefined' && 'showSaveFilePicker' in window
+    ? (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker.bind(window)
+    : null;
+
+/**
+ * Whether exports are written to disk as they are fetched instead of being built in memory
+ */
+export const canStreamExports = (): boolean => getSaveFilePicker() !== null;
+
+/**
+ * Opens the file an export is written to: a file the user picks, written as
+ * chunks arrive, or a Blob downloaded when the stream closes where the
+ * browser can't save straight to disk. Resolves with null if the user
+ * cancels the save dialog.
+ */
+const openExportFile = async (filename: string, format: ExportFormat): Promise<WritableStream<BlobPart> | null> => {
+  const { mime, description } = FILE_TYPES[format];
+  const showSaveFilePicker = getSaveFilePicker();
+
+  if (showSaveFilePicker) {
+    try {
+      const handle = await showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description, accept: { [mime]: [`.${format}`] } }],
+      });
+      return await handle.createWritable();
+    } catch (error: unknown) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  const chunks: BlobPart[] = [];
+  return new WritableStream<BlobPart>({
+    write: (chunk) => {
+      chunks.push(chunk);
+    },
+    close: () => downloadBlob(new Blob(chunks, { type: format === 'csv' ? `${mime};charset=utf-8` : mime }), filename),
+  });
+};
+
+/**
+ * Exports the filtered orders to a file; resolves with the number of orders
+ * exported, or null if the user cancelled choosing where to save it
+ */
+export const exportOrders = async (
+  filters: OrderFilters,
+  options: ExportOptions,
+  onProgress?: (exported: number) => void
+): Promise<number | null> => {
+  const columns = getSelectedColumns(options);
+  if (columns.length === 0) {
+    throw new Error('Choose at least one column to export');
+  }
+
+  const formatTimestamp = createTimestampFormatter(options.timeZone);
+  const header = columns.map(column => column.label);
+  const filename = `orders-${createTimestampFormatter(options.timeZone)(new Date().toISOString()).slice(0, 10)}.${options.format}`;
+  let exported = 0;
+
+  // Opened before anything is fetched, while the click still allows a save dialog
+  const file = await openExportFile(filename, options.format);
+  if (!file) return null;
+  const writer = file.getWriter();
+
+  try {
+    if (options.format === 'csv') {
+      await writer.write(CSV_BOM + toCsvRow(header));
+      await pageFilteredOrders(filters, async (orders) => {
+        await writer.write(orders.map(order => toRows(order, columns, options.layout, formatTimestamp).map(toCsvRow).join('')).join(''));
+        exported += orders.length;
+        onProgress?.(exported);
+      });
+    } else {
+      // Loaded on demand so the spreadsheet library isn't part of the main bundle
+      const { default: ExcelJS } = await import('exceljs');
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet(options.layout === 'items' ? 'Order items' : 'Orders');
+      sheet.columns = columns.map(column => ({ header: column.label, key: column.key, width: column.timestamp ? 20 : 16 }));
+      sheet.getRow(1).font = { bold: true };
+      sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+      await pageFilteredOrders(filters, (orders) => {
+        orders.forEach(order => {
+          toRows(order, columns, options.layout, formatTimestamp).forEach(row => sheet.addRow(row));
+        });
+        exported += orders.length;
+        onProgress?.(exported);
+      });
+
+      await writer.write(await workbook.xlsx.writeBuffer());
+    }
+
+    await writer.close();
+  } catch (error: unknown) {
+    // Discards the partly written file
+    await writer.abort(error).catch(() => undefined);
+    throw error;
+  }
+
+  return exported;
+};
@@ -0,0 +1,195 @@
+/**
+ * Order Filters
+ *
+ * Filtering, search and cursor pagination for the orders list. Filters live in
+ * the URL query string so a filtered view can be shared, are applied in the
+ * Supabase query, and are mirrored client-side for realtime inserts.
+ */
+
+import { supabase, Order } from './supabase';
+import { toAmount } from './order-totals';
+
+export type OrderScheduleView = 'all' | 'asap' | 'scheduled';
+
+export interface OrderFilters {
+  schedule: OrderScheduleView; // ASAP orders, pre-orders or both
+  statuses: Order['status'][];
+  dateFrom: string | null; // yyyy-mm-dd, inclusive
+  dateTo: string | null; // yyyy-mm-dd, inclusive
+  minAmount: number | null;
+  maxAmount: number | null;
+  search: string; // customer name, email or phone
+}
+
+/**
+ * Position after the last loaded order; orders are sorted newest first with id as tie-breaker
+ */
+export interface OrderCursor {
+  createdAt: string;
+  id: string;
+}
+
+export const ORDERS_PAGE_SIZE = 25;
+
+export const EMPTY_ORDER_FILTERS: OrderFilters = {
+  schedule: 'all',
+  statuses: [],
+  dateFrom: null,
+  dateTo: null,
+  minAmount: null,
+  maxAmount: null,
+  search: '',
+};
+
+const ORDER_STATUSES: Order['status'][] = ['pending', 'confirmed', 'preparing', 'ready', 'delivered', 'cancelled'];
+
+// Query string keys owned by the order filters
+const FILTER_PARAMS = ['when', 'status', 'from', 'to', 'min', 'max', 'q'];
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const parseDate = (value: string | null): string | null =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+const SCHEDULE_VIEWS: OrderScheduleView[] = ['all', 'asap', 'scheduled'];
+
+export const parseOrderFilters = (params: URLSearchParams): OrderFilters => ({
+  schedule: SCHEDULE_VIEWS.find(view => view === params.get('when')) || 'all',
+  statuses: (params.get('status') || '')
+    .split(',')
+    .filter((status): status is Order['status'] => ORDER_STATUSES.includes(status as Order['status'])),
+  dateFrom: parseDate(params.get('from')),
+  dateTo: parseDate(params.get('to')),
+  minAmount: parseNumber(params.get('min')),
+  maxAmount: parseNumber(params.get('max')),
+  search: params.get('q')?.trim() || '',
+});
+
+/**
+ * Writes the filters into a copy of the given params, keeping unrelated keys such as the active tab
+ */
+export const applyFiltersToParams = (filters: OrderFilters, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach(key => next.delete(key));
+
+  if (filters.schedule !== 'all') next.set('when', filters.schedule);
+  if (filters.statuses.length > 0) next.set('status', filters.statuses.join(','));
+  if (filters.dateFrom) next.set('from', filters.dateFrom);
+  if (filters.dateTo) next.set('to', filters.dateTo);
+  if (filters.minAmount !== null) next.set('min', filters.minAmount.toString());
+  if (filters.maxAmount !== null) next.set('max', filters.maxAmount.toString());
+  if (filters.search) next.set('q', filters.search);
+
+  return next;
+};
+
+/**
+ * Whether any filter narrows the list; the ASAP/Scheduled view is a tab, not a filter
+ */
+export const hasActiveFilters = (filters: OrderFilters): boolean =>
+  filters.statuses.length > 0 ||
+  !!filters.dateFrom ||
+  !!filters.dateTo ||
+  filters.minAmount !== null ||
+  filters.maxAmount !== null ||
+  !!filters.search;
+
+// Day bounds are local to the admin's browser, matching how dates are displayed
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+const endOfDay = (date: string) => {
+  const end = startOfDay(date);
+  end.setDate(end.getDate() + 1);
+  return end;
+};
+
+// Characters that would break out of a PostgREST or() expression
+const sanitizeSearch = (search: string) => search.replace(/[,()"\\%*]/g, ' ').trim();
+
+/**
+ * Builds the filtered, newest-first orders query. Pass a cursor to load the page after it.
+ */
+export const buildOrdersQuery = (
+  filters: OrderFilters,
+  options: { select?: string; cursor?: OrderCursor | null; limit?: number } = {}
+) => {
+  let query = supabase
+    .from('orders')
+    .select(options.select ?? '*, order_items(*)')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (filters.schedule === 'asap') {
+    query = query.is('scheduled_for', null);
+  } else if (filters.schedule === 'scheduled') {
+    query = query.not('scheduled_for', 'is', null);
+  }
+  if (filters.statuses.length > 0) {
+    query = query.in('status', filters.statuses);
+  }
+  if (filters.dateFrom) {
+    query = query.gte('created_at', startOfDay(filters.dateFrom).toISOString());
+  }
+  if (filters.dateTo) {
+    query = query.lt('created_at', endOfDay(filters.dateTo).toISOString());
+  }
+  if (filters.minAmount !== null) {
+    query = query.gte('total_amount', filters.minAmount);
+  }
+  if (filters.maxAmount !== null) {
+    query = query.lte('total_amount', filters.maxAmount);
+  }
+
+  const search = sanitizeSearch(filters.search);
+  if (search) {
+    query = query.or(
+      `customer_name.ilike.%${search}%,customer_email.ilike.%${search}%,customer_phone.ilike.%${search}%`
+    );
+  }
+
+  if (options.cursor) {
+    const { createdAt, id } = options.cursor;
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+  }
+
+  if (options.limit) {
+    query = query.limit(options.limit);
+  }
+
+  return query.overrideTypes<Order[], { merge: false }>();
+};
+
+export const getCursorAfter = (order: Pick<Order, 'created_at' | 'id'>): OrderCursor => ({
+  createdAt: order.created_at,
+  id: order.id,
+});
+
+/**
+ * Client-side mirror of buildOrdersQuery, used to decide whether a realtime insert belongs in the list
+ */
+export const matchesOrderFilters = (order: Order, filters: OrderFilters): boolean => {
+  if (filters.schedule === 'asap' && order.scheduled_for) return false;
+  if (filters.schedule === 'scheduled' && !order.scheduled_for) return false;
+  if (filters.statuses.length > 0 && !filters.statuses.includes(order.status)) return false;
+
+  const createdAt = new Date(order.created_at);
+  if (filters.dateFrom && createdAt < startOfDay(filters.dateFrom)) return false;
+  if (filters.dateTo && createdAt >= endOfDay(filters.dateTo)) return false;
+
+  const amount = toAmount(order.total_amount);
+  if (filters.minAmount !== null && amount < filters.minAmount) return false;
+  if (filters.maxAmount !== null && amount > filters.maxAmount) return false;
+
+  const search = sanitizeSearch(filters.search).toLowerCase();
+  if (search) {
+    const haystack = [order.customer_name, order.customer_email, order.customer_phone]
+      .map(value => (value || '').toLowerCase());
+    if (!haystack.some(value => value.includes(search))) return false;
+  }
+
+  return true;
+};
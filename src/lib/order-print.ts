@@ -0,0 +1,360 @@
+/**
+ * Order Printing
+ *
+ * Kitchen tickets and customer receipts, as a print-optimised HTML page or as
+ * fixed-width plain text for 40- and 80-column thermal printers.
+ */
+
+import { supabase, Order, OrderItem } from './supabase';
+import { formatCurrency, getItemsTotal, getLineTotal, toAmount } from './order-totals';
+import { formatPriceDelta } from './menu-modifiers';
+import { formatAllergens } from './menu-tags';
+
+export type PrintDocumentType = 'kitchen' | 'receipt';
+export type PrintFormat = 'html' | 'text-40' | 'text-80';
+
+export interface PrintSettings {
+  autoPrintNewOrders: boolean;
+  format: PrintFormat;
+}
+
+const PRINT_SETTINGS_KEY = 'kitchen_print_settings';
+const BUSINESS_NAME = 'Cloud Kitchen';
+
+const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  autoPrintNewOrders: false,
+  format: 'text-40',
+};
+
+export const PRINT_FORMAT_LABELS: Record<PrintFormat, string> = {
+  'html': 'Full page',
+  'text-40': 'Thermal 40 col',
+  'text-80': 'Thermal 80 col',
+};
+
+/**
+ * Print settings are per device, since each kitchen screen has its own printer
+ */
+export const getPrintSettings = (): PrintSettings => {
+  try {
+    const stored = localStorage.getItem(PRINT_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PRINT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRINT_SETTINGS;
+  } catch {
+    return DEFAULT_PRINT_SETTINGS;
+  }
+};
+
+export const savePrintSettings = (settings: PrintSettings): void => {
+  localStorage.setItem(PRINT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Plain-text layout helpers
+
+const center = (text: string, width: number) => {
+  const padding = Math.max(0, Math.floor((width - text.length) / 2));
+  return ' '.repeat(padding) + text;
+};
+
+const divider = (width: number, char = '-') => char.repeat(width);
+
+/**
+ * Left and right text on one line, wrapping the left side if they don't fit
+ */
+const columns = (left: string, right: string, width: number): string[] => {
+  const available = width - right.length - 1;
+  const wrapped = wrap(left, available);
+  const last = wrapped.pop() || '';
+  return [...wrapped, last + ' '.repeat(Math.max(1, width - last.length - right.length)) + right];
+};
+
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= width) {
+        line += ' ' + word;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const orderNumber = (order: Order) => `#${order.id.slice(-8)}`;
+
+export const formatKitchenTicketText = (order: Order, items: OrderItem[], width: 40 | 80): string => {
+  const lines: string[] = [
+    divider(width, '='),
+    center('KITCHEN TICKET', width),
+    center(`Order ${orderNumber(order)}`, width),
+    divider(width, '='),
+    ...wrap(`Placed: ${new Date(order.created_at).toLocaleString()}`, width),
+    ...wrap(`Customer: ${order.customer_name}`, width),
+    divider(width),
+  ];
+
+  items.forEach(item => {
+    const prefix = `${item.quantity} x `;
+    const indent = ' '.repeat(prefix.length);
+    wrap(item.item_name, width - prefix.length).forEach((line, index) => {
+      lines.push((index === 0 ? prefix : indent) + line);
+    });
+    (item.modifiers || []).forEach(modifier => {
+      wrap(`+ ${modifier.option_name}`, width - indent.length).forEach(line => lines.push(indent + line));
+    });
+    if (item.allergens && item.allergens.length > 0) {
+      wrap(`!! ALLERGENS: ${formatAllergens(item.allergens)}`, width - indent.length)
+        .forEach(line => lines.push(indent + line));
+    }
+  });
+
+  if (items.length === 0) {
+    lines.push('(no items)');
+  }
+
+  if (order.special_instructions) {
+    lines.push(divider(width), 'NOTES:', ...wrap(order.special_instructions, width));
+  }
+
+  lines.push(divider(width, '='));
+  return lines.join('\n');
+};
+
+export const formatReceiptText = (order: Order, items: OrderItem[], width: 40 | 80): string => {
+  const lines: string[] = [
+    center(BUSINESS_NAME, width),
+    center('RECEIPT', width),
+    divider(width),
+    ...columns(`Order ${orderNumber(order)}`, new Date(order.created_at).toLocaleDateString(), width),
+    ...wrap(order.customer_name, width),
+  ];
+
+  if (order.customer_phone) lines.push(...wrap(order.customer_phone, width));
+  if (order.delivery_address) lines.push(...wrap(order.delivery_address, width));
+  lines.push(divider(width));
+
+  items.forEach(item => {
+    lines.push(...columns(`${item.quantity} x ${item.item_name}`, formatCurrency(getLineTotal(item)), width));
+    (item.modifiers || []).forEach(modifier => {
+      wrap(`+ ${modifier.option_name} ${formatPriceDelta(modifier.price_delta)}`, width - 4)
+        .forEach(line => lines.push(`    ${line}`));
+    });
+    if (item.quantity > 1) {
+      lines.push(`    @ ${formatCurrency(item.price)}`);
+    }
+  });
+
+  lines.push(divider(width));
+  if (items.length > 0) {
+    lines.push(...columns('Items', formatCurrency(getItemsTotal(items)), width));
+  }
+  if (toAmount(order.delivery_fee) > 0) {
+    lines.push(...columns('Delivery', formatCurrency(order.delivery_fee), width));
+  }
+  lines.push(...columns('TOTAL', formatCurrency(order.total_amount), width));
+  lines.push(divider(width), center('Thank you!', width));
+
+  return lines.join('\n');
+};
+
+export const formatOrderText = (
+  order: Order,
+  items: OrderItem[],
+  documentType: PrintDocumentType,
+  width: 40 | 80
+): string =>
+  documentType === 'kitchen'
+    ? formatKitchenTicketText(order, items, width)
+    : formatReceiptText(order, items, width);
+
+// HTML layout
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const buildDocumentBody = (order: Order, items: OrderItem[], documentType: PrintDocumentType): string => {
+  const modifierLines = (item: OrderItem) => (item.modifiers || [])
+    .map(modifier => `<div class="modifier">+ ${escapeHtml(modifier.option_name)}${
+      documentType === 'kitchen' ? '' : ` ${formatPriceDelta(modifier.price_delta)}`
+    }</div>`)
+    .join('');
+
+  const allergenLine = (item: OrderItem) => item.allergens && item.allergens.length > 0
+    ? `<div class="allergens">ALLERGENS: ${escapeHtml(formatAllergens(item.allergens))}</div>`
+    : '';
+
+  const rows = items.map(item => documentType === 'kitchen'
+    ? `<tr><td class="qty">${item.quantity}×</td><td>${escapeHtml(item.item_name)}${modifierLines(item)}${allergenLine(item)}</td></tr>`
+    : `<tr><td class="qty">${item.quantity}×</td><td>${escapeHtml(item.item_name)}${modifierLines(item)}</td><td class="amount">${formatCurrency(getLineTotal(item))}</td></tr>`
+  ).join('');
+
+  const notes = order.special_instructions
+    ? `<div class="notes"><strong>Notes:</strong> ${escapeHtml(order.special_instructions)}</div>`
+    : '';
+
+  const deliveryRow = toAmount(order.delivery_fee) > 0
+    ? `<tr><td class="qty"></td><td>Delivery</td><td class="amount">${formatCurrency(order.delivery_fee)}</td></tr>`
+    : '';
+
+  if (documentType === 'kitchen') {
+    return `
+      <section class="document kitchen">
+        <h1>Order ${orderNumber(order)}</h1>
+        <p class="meta">${escapeHtml(order.customer_name)} • ${new Date(order.created_at).toLocaleString()}</p>
+        <table>${rows || '<tr><td>(no items)</td></tr>'}</table>
+        ${notes}
+      </section>`;
+  }
+
+  return `
+    <section class="document receipt">
+      <h1>${BUSINESS_NAME}</h1>
+      <p class="meta">Receipt for order ${orderNumber(order)} • ${new Date(order.created_at).toLocaleString()}</p>
+      <p>${escapeHtml(order.customer_name)}<br>${escapeHtml(order.customer_phone || '')}<br>${escapeHtml(order.delivery_address || '')}</p>
+      <table>${rows}${deliveryRow}</table>
+      <p class="total">Total <span>${formatCurrency(order.total_amount)}</span></p>
+      ${notes}
+      <p class="meta">Thank you!</p>
+    </section>`;
+};
+
+const PRINT_STYLES = `
+  @page { margin: 12mm; }
+  body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #000; margin: 0; }
+  .document { page-break-after: always; max-width: 480px; margin: 0 auto; }
+  .document:last-child { page-break-after: auto; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .meta { color: #444; font-size: 12px; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  td { padding: 4px 0; border-bottom: 1px dashed #999; vertical-align: top; }
+  .kitchen td { font-size: 18px; font-weight: 600; }
+  .qty { width: 48px; }
+  .modifier { font-size: 0.85em; font-weight: 400; padding-left: 8px; }
+  .allergens { display: inline-block; font-size: 0.85em; font-weight: 700; border: 1px solid #000; padding: 0 4px; margin-left: 8px; }
+  .amount { text-align: right; }
+  .total { display: flex; justify-content: space-between; font-size: 18px; font-weight: 700; }
+  .notes { border: 2px solid #000; padding: 8px; margin-top: 8px; font-size: 16px; }
+  pre { font-family: "Courier New", monospace; margin: 0; white-space: pre; page-break-after: always; }
+  pre:last-child { page-break-after: auto; }
+  pre.cols-40 { font-size: 12px; }
+  pre.cols-80 { font-size: 9px; }
+`;
+
+/**
+ * Builds a standalone HTML page for one or more orders in the given format
+ */
+export const buildPrintHtml = (
+  entries: Array<{ order: Order; items: OrderItem[] }>,
+  documentType: PrintDocumentType,
+  format: PrintFormat
+): string => {
+  const body = entries.map(({ order, items }) => {
+    if (format === 'html') {
+      return buildDocumentBody(order, items, documentType);
+    }
+    const width = format === 'text-80' ? 80 : 40;
+    return `<pre class="cols-${width}">${escapeHtml(formatOrderText(order, items, documentType, width))}</pre>`;
+  }).join('');
+
+  const title = documentType === 'kitchen' ? 'Kitchen ticket' : 'Receipt';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+};
+
+/**
+ * Prints an HTML page through a hidden iframe, so it works without a pop-up window
+ */
+export const printHtml = (html: string): void => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.right = '0';
+  iframe.style.bottom = '0';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    iframe.remove();
+    throw new Error('Printing is not available in this browser');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+
+  // Give the browser a moment to lay out before opening the print dialog
+  setTimeout(() => {
+    frameWindow.focus();
+    frameWindow.print();
+    setTimeout(() => iframe.remove(), 1000);
+  }, 250);
+};
+
+/**
+ * Loads the order's line items (when missing) and prints the document
+ */
+export const printOrders = async (
+  orders: Order[],
+  documentType: PrintDocumentType,
+  format: PrintFormat
+): Promise<void> => {
+  const missing = orders.filter(order => !order.order_items).map(order => order.id);
+  const itemsByOrder: Record<string, OrderItem[]> = {};
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('order_items')
+      .select('*')
+      .in('order_id', missing)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    (data || []).forEach((item: OrderItem) => {
+      (itemsByOrder[item.order_id] ||= []).push(item);
+    });
+  }
+
+  const entries = orders.map(order => ({
+    order,
+    items: order.order_items || itemsByOrder[order.id] || [],
+  }));
+
+  printHtml(buildPrintHtml(entries, documentType, format));
+};
+
+/**
+ * Saves the plain-text layout as a .txt file, for printers fed from a spool folder
+ */
+export const downloadOrderText = (
+  order: Order,
+  items: OrderItem[],
+  documentType: PrintDocumentType,
+  width: 40 | 80
+): void => {
+  const blob = new Blob([formatOrderText(order, items, documentType, width) + '\n'], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${documentType}-${order.id.slice(-8)}-${width}col.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+/**
+ * Order Read Tracking
+ *
+ * Read/unread state per admin. Each admin has a "read everything before"
+ * mark plus per-order overrides, so marking all as read is a single write
+ * and one admin's actions never clear another admin's unread orders.
+ */
+
+import { supabase } from './supabase';
+
+export type ReadsChannel = ReturnType<typeof supabase.channel>;
+
+export const fetchUnreadOrderCount = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_unread_order_count');
+  if (error) throw error;
+  return data || 0;
+};
+
+/**
+ * The subset of the given orders that are unread for the current admin
+ */
+export const fetchUnreadOrderIds = async (orderIds: string[]): Promise<Set<string>> => {
+  if (orderIds.length === 0) return new Set();
+
+  const { data, error } = await supabase.rpc('get_unread_order_ids', { p_order_ids: orderIds });
+  if (error) throw error;
+  return new Set<string>(data || []);
+};
+
+export const setOrdersRead = async (orderIds: string[], read: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('mark_orders_read', { p_order_ids: orderIds, p_read: read });
+  if (error) throw error;
+};
+
+export const markAllOrdersRead = async (): Promise<void> => {
+  const { error } = await supabase.rpc('mark_all_orders_read');
+  if (error) throw error;
+};
+
+/**
+ * Calls onChange whenever this admin's read state changes, from any tab or device.
+ * The caller owns the returned channel and must unsubscribe it on cleanup.
+ */
+export const subscribeToReadChanges = (
+  channelPrefix: string,
+  userId: string,
+  onChange: () => void
+): ReadsChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+  const filter = `user_id=eq.${userId}`;
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'order_reads', filter }, () => onChange())
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'order_read_marks', filter }, () => onChange())
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
@@ -0,0 +1,64 @@
+/**
+ * Order Refunds
+ *
+ * Refunds whole or partial order lines, or a free amount, through the
+ * refund_order_item / refund_order_amount RPCs.
+ */
+
+import { supabase, OrderRefund } from './supabase';
+
+export type RefundReasonCode = OrderRefund['reason_code'];
+
+export const REFUND_REASON_LABELS: Record<RefundReasonCode, string> = {
+  wrong_item: 'Wrong item',
+  missing_item: 'Missing item',
+  quality_issue: 'Quality issue',
+  late_delivery: 'Late delivery',
+  customer_request: 'Customer request',
+  other: 'Other',
+};
+
+export const fetchOrderRefunds = async (orderId: string): Promise<OrderRefund[]> => {
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .select('*, actor:users(email, full_name)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const refundOrderItem = async (
+  orderItemId: string,
+  quantity: number,
+  reasonCode: RefundReasonCode,
+  note?: string
+): Promise<OrderRefund> => {
+  const { data, error } = await supabase.rpc('refund_order_item', {
+    p_order_item_id: orderItemId,
+    p_quantity: quantity,
+    p_reason_code: reasonCode,
+    p_note: note ?? null,
+  });
+
+  if (error) throw error;
+  return data as OrderRefund;
+};
+
+export const refundOrderAmount = async (
+  orderId: string,
+  amount: number,
+  reasonCode: RefundReasonCode,
+  note?: string
+): Promise<OrderRefund> => {
+  const { data, error } = await supabase.rpc('refund_order_amount', {
+    p_order_id: orderId,
+    p_amount: amount,
+    p_reason_code: reasonCode,
+    p_note: note ?? null,
+  });
+
+  if (error) throw error;
+  return data as OrderRefund;
+};
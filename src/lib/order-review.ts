@@ -0,0 +1,108 @@
+/**
+ * Order Review
+ *
+ * Rules that hold suspicious online orders for review: repeat orders with
+ * identical items, unusually large totals, and blocklisted contacts. The
+ * database flags orders as they arrive and keeps flagged orders in pending
+ * until an admin clears them.
+ */
+
+import { supabase, Order, OrderBlocklistEntry } from './supabase';
+import { getAdminSetting, saveAdminSetting } from './admin-settings';
+
+export type BlocklistKind = OrderBlocklistEntry['kind'];
+
+export interface OrderReviewRules {
+  /** Same phone or email with identical items within this many minutes; 0 turns the check off */
+  duplicate_window_minutes: number;
+  /** Orders above this total are flagged; null turns the check off */
+  large_order_amount: number | null;
+}
+
+const REVIEW_RULES_KEY = 'order_review_rules';
+
+export const DEFAULT_REVIEW_RULES: OrderReviewRules = {
+  duplicate_window_minutes: 10,
+  large_order_amount: 250,
+};
+
+export const REVIEW_REASON_LABELS: Record<string, string> = {
+  duplicate: 'Possible duplicate',
+  large_total: 'Unusually large total',
+  blocklisted_phone: 'Blocklisted phone',
+  blocklisted_email: 'Blocklisted email',
+  blocklisted_address: 'Blocklisted address',
+};
+
+export const BLOCKLIST_KIND_LABELS: Record<BlocklistKind, string> = {
+  phone: 'Phone',
+  email: 'Email',
+  address: 'Address',
+};
+
+export const getReviewRules = (): Promise<OrderReviewRules> =>
+  getAdminSetting(REVIEW_RULES_KEY, DEFAULT_REVIEW_RULES);
+
+export const saveReviewRules = (rules: OrderReviewRules): Promise<void> =>
+  saveAdminSetting(REVIEW_RULES_KEY, rules);
+
+export const isHeldForReview = (order: Pick<Order, 'review_status'>): boolean =>
+  order.review_status === 'flagged';
+
+export const describeReviewReasons = (order: Pick<Order, 'review_reasons'>): string =>
+  (order.review_reasons || []).map(reason => REVIEW_REASON_LABELS[reason] || reason).join(', ');
+
+/**
+ * Current hold state straight from the database; duplicates are only flagged once the items arrive
+ */
+export const fetchIsHeldForReview = async (orderId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('review_status')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data && isHeldForReview(data);
+};
+
+/**
+ * Releases held orders; resolves with the orders that were actually cleared
+ */
+export const clearOrderReview = async (orderIds: string[]): Promise<Order[]> => {
+  const { data, error } = await supabase.rpc('clear_order_review', { p_order_ids: orderIds });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchBlocklist = async (): Promise<OrderBlocklistEntry[]> => {
+  const { data, error } = await supabase
+    .from('order_blocklist')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Adds a blocklist entry; the database normalises the value before storing it
+ */
+export const addBlocklistEntry = async (kind: BlocklistKind, value: string, note?: string): Promise<void> => {
+  const { error } = await supabase
+    .from('order_blocklist')
+    .insert({ kind, value, note: note?.trim() || null });
+
+  if (error) {
+    // Unique violation on (kind, value)
+    if (error.code === '23505') {
+      throw new Error(`That ${BLOCKLIST_KIND_LABELS[kind].toLowerCase()} is already blocklisted`);
+    }
+    throw error;
+  }
+};
+
+export const removeBlocklistEntry = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('order_blocklist').delete().eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,177 @@
+/**
+ * Order SLA Helpers
+ *
+ * Resolves the target time for an order's current stage (global target,
+ * overridden per menu category) and reports whether it is on track, at risk
+ * or breached. Targets live in the sla_targets table.
+ */
+
+import { supabase, Order, SlaTarget } from './supabase';
+
+export type SlaStage = SlaTarget['stage'];
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+export const SLA_STAGES: SlaStage[] = ['acknowledge', 'prepare', 'deliver'];
+
+export const SLA_STAGE_LABELS: Record<SlaStage, string> = {
+  acknowledge: 'Pending → Confirmed',
+  prepare: 'Confirmed → Ready',
+  deliver: 'Ready → Delivered',
+};
+
+// Share of the target that can elapse before an order counts as at risk
+export const AT_RISK_RATIO = 0.75;
+
+const STAGE_FOR_STATUS: Partial<Record<Order['status'], SlaStage>> = {
+  pending: 'acknowledge',
+  confirmed: 'prepare',
+  preparing: 'prepare',
+  ready: 'deliver',
+};
+
+export interface SlaConfig {
+  targets: SlaTarget[];
+  // Category slugs; order items only sometimes carry menu_item_id, so fall back to the item name
+  categoryByItemId: Record<string, string>;
+  categoryByName: Record<string, string>;
+}
+
+export interface OrderSla {
+  stage: SlaStage;
+  state: SlaState;
+  targetMinutes: number;
+  elapsedMinutes: number;
+  deadline: Date;
+}
+
+export const EMPTY_SLA_CONFIG: SlaConfig = {
+  targets: [],
+  categoryByItemId: {},
+  categoryByName: {},
+};
+
+export const fetchSlaConfig = async (): Promise<SlaConfig> => {
+  const [targetsResult, menuResult] = await Promise.all([
+    supabase.from('sla_targets').select('*'),
+    supabase.from('menu_items').select('id, name, category'),
+  ]);
+
+  if (targetsResult.error) throw targetsResult.error;
+  if (menuResult.error) throw menuResult.error;
+
+  const categoryByItemId: Record<string, string> = {};
+  const categoryByName: Record<string, string> = {};
+  (menuResult.data || []).forEach(item => {
+    categoryByItemId[item.id] = item.category;
+    categoryByName[item.name] = item.category;
+  });
+
+  return { targets: targetsResult.data || [], categoryByItemId, categoryByName };
+};
+
+export const getOrderCategories = (order: Order, config: SlaConfig): string[] => {
+  const categories = new Set<string>();
+  (order.order_items || []).forEach(item => {
+    const category = (item.menu_item_id && config.categoryByItemId[item.menu_item_id])
+      || config.categoryByName[item.item_name];
+    if (category) {
+      categories.add(category);
+    }
+  });
+  return Array.from(categories);
+};
+
+/**
+ * Category targets override the global one; an order spanning several
+ * categories gets the strictest of them.
+ */
+export const getTargetMinutes = (
+  stage: SlaStage,
+  categories: string[],
+  targets: SlaTarget[]
+): number | null => {
+  const categoryTargets = targets
+    .filter(target => target.stage === stage && target.category && categories.includes(target.category))
+    .map(target => target.target_minutes);
+
+  if (categoryTargets.length > 0) {
+    return Math.min(...categoryTargets);
+  }
+
+  const globalTarget = targets.find(target => target.stage === stage && !target.category);
+  return globalTarget ? globalTarget.target_minutes : null;
+};
+
+const getStageStart = (order: Order, stage: SlaStage): string => {
+  if (stage === 'prepare') return order.confirmed_at || order.created_at;
+  if (stage === 'deliver') return order.ready_at || order.updated_at;
+  return order.created_at;
+};
+
+/**
+ * SLA for the order's current stage, or null when it has none (closed orders
+ * or no target configured)
+ */
+export const getOrderSla = (order: Order, config: SlaConfig, now: number = Date.now()): OrderSla | null => {
+  const stage = STAGE_FOR_STATUS[order.status];
+  if (!stage) return null;
+
+  const targetMinutes = getTargetMinutes(stage, getOrderCategories(order, config), config.targets);
+  if (!targetMinutes) return null;
+
+  let start = new Date(getStageStart(order, stage)).getTime();
+  // A pre-order confirmed early is due at its scheduled time, not a prep target after confirmation
+  if (stage === 'prepare' && order.scheduled_for) {
+    start = Math.max(start, new Date(order.scheduled_for).getTime() - targetMinutes * 60000);
+  }
+  const elapsedMinutes = Math.max(0, (now - start) / 60000);
+  const state: SlaState = elapsedMinutes >= targetMinutes
+    ? 'breached'
+    : elapsedMinutes >= targetMinutes * AT_RISK_RATIO ? 'at_risk' : 'on_track';
+
+  return {
+    stage,
+    state,
+    targetMinutes,
+    elapsedMinutes,
+    deadline: new Date(start + targetMinutes * 60000),
+  };
+};
+
+/**
+ * Sets the target for a stage (globally when category is null); a null
+ * value removes a category override
+ */
+export const saveSlaTarget = async (
+  targets: SlaTarget[],
+  stage: SlaStage,
+  category: string | null,
+  minutes: number | null
+): Promise<void> => {
+  const existing = targets.find(target => target.stage === stage && target.category === category);
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (minutes === null) {
+    if (!category) {
+      throw new Error('The global target cannot be removed');
+    }
+    if (!existing) return;
+    const { error } = await supabase.from('sla_targets').delete().eq('id', existing.id);
+    if (error) throw error;
+    return;
+  }
+
+  if (existing) {
+    const { error } = await supabase
+      .from('sla_targets')
+      .update({ target_minutes: minutes, updated_by: user?.id ?? null, updated_at: new Date().toISOString() })
+      .eq('id', existing.id);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('sla_targets')
+    .insert({ stage, category, target_minutes: minutes, updated_by: user?.id ?? null });
+  if (error) throw error;
+};
@@ -0,0 +1,87 @@
+/**
+ * Order Status State Machine
+ *
+ * Legal status transitions for orders, who may make them, and which need a reason.
+ * Mirrors the order_status_transitions table in 001_order_status_rules.sql, which the
+ * database enforces on every update - keep the two in sync.
+ */
+
+import { supabase, Order, User } from './supabase';
+
+export type OrderStatus = Order['status'];
+export type UserRole = User['role'];
+
+export interface StatusTransition {
+  to: OrderStatus;
+  roles: UserRole[];
+  requiresReason: boolean;
+}
+
+const STAFF: UserRole[] = ['admin', 'superadmin'];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, StatusTransition[]> = {
+  pending: [
+    { to: 'confirmed', roles: STAFF, requiresReason: false },
+    { to: 'cancelled', roles: STAFF, requiresReason: false },
+  ],
+  confirmed: [
+    { to: 'preparing', roles: STAFF, requiresReason: false },
+    { to: 'cancelled', roles: STAFF, requiresReason: false },
+  ],
+  preparing: [
+    { to: 'ready', roles: STAFF, requiresReason: false },
+    { to: 'cancelled', roles: STAFF, requiresReason: true },
+  ],
+  ready: [
+    { to: 'delivered', roles: [...STAFF, 'driver'], requiresReason: false },
+    { to: 'cancelled', roles: ['superadmin'], requiresReason: true },
+  ],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Finds the transition between two statuses, if it exists at all
+ */
+export const findTransition = (from: OrderStatus, to: OrderStatus): StatusTransition | undefined =>
+  ORDER_STATUS_TRANSITIONS[from]?.find(transition => transition.to === to);
+
+/**
+ * Lists the moves the given role may make from a status
+ */
+export const getAllowedTransitions = (from: OrderStatus, role: UserRole | undefined): StatusTransition[] => {
+  if (!role) return [];
+  return (ORDER_STATUS_TRANSITIONS[from] || []).filter(transition => transition.roles.includes(role));
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, role: UserRole | undefined): boolean =>
+  !!role && !!findTransition(from, to)?.roles.includes(role);
+
+/**
+ * The forward step through the kitchen flow (pending → confirmed → preparing → ready → delivered)
+ */
+export const getNextStatus = (from: OrderStatus): OrderStatus | null =>
+  ORDER_STATUS_TRANSITIONS[from]?.find(transition => transition.to !== 'cancelled')?.to ?? null;
+
+/**
+ * Moves an order to a new status through the update_order_status RPC,
+ * which re-checks the transition rules on the database side.
+ */
+export const updateOrderStatus = async (orderId: string, status: OrderStatus, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('update_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,52 @@
+/**
+ * Order Total Helpers
+ *
+ * Line-item arithmetic shared by the order screens, so every view agrees on
+ * what an order's items add up to.
+ */
+
+import { Order, OrderItem } from './supabase';
+
+// Amounts closer than this are treated as equal (rounding in stored prices)
+export const TOTAL_TOLERANCE = 0.01;
+
+/**
+ * Supabase returns numeric columns as strings, so normalise before doing maths
+ */
+export const toAmount = (value: number | string | null | undefined): number => {
+  const amount = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+export const formatCurrency = (value: number | string | null | undefined): string =>
+  `$${toAmount(value).toFixed(2)}`;
+
+export const getLineTotal = (item: OrderItem): number =>
+  toAmount(item.price) * item.quantity;
+
+export const getItemsTotal = (items: OrderItem[]): number =>
+  items.reduce((sum, item) => sum + getLineTotal(item), 0);
+
+/**
+ * Difference between the stored total and its line items plus delivery fee (positive when the total is higher)
+ */
+export const getTotalDifference = (order: Order, items: OrderItem[] = order.order_items): number =>
+  toAmount(order.total_amount) - getItemsTotal(items || []) - toAmount(order.delivery_fee);
+
+/**
+ * True when the order's line items don't add up to total_amount.
+ * Orders whose items haven't been loaded yet are never flagged.
+ */
+export const hasTotalMismatch = (order: Order, items: OrderItem[] | undefined = order.order_items): boolean => {
+  if (!items) return false;
+  return Math.abs(getTotalDifference(order, items)) >= TOTAL_TOLERANCE;
+};
+
+/**
+ * What the customer was actually charged after refunds; total_amount stays the original charge
+ */
+export const getNetAmount = (order: Pick<Order, 'total_amount' | 'refunded_amount'>): number =>
+  toAmount(order.total_amount) - toAmount(order.refunded_amount);
+
+export const getRefundableQuantity = (item: OrderItem): number =>
+  item.quantity - (item.refunded_quantity || 0);
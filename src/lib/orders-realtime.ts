@@ -0,0 +1,55 @@
+/**
+ * Orders Realtime Subscription
+ *
+ * Shared postgres_changes subscription on the orders table, used by every
+ * screen that needs to react to orders without a refresh.
+ */
+
+import { supabase, Order } from './supabase';
+
+export interface OrderChangeHandlers {
+  onInsert?: (order: Order) => void;
+  onUpdate?: (order: Order) => void;
+  onDelete?: (orderId: string) => void;
+}
+
+export type OrdersChannel = ReturnType<typeof supabase.channel>;
+
+/**
+ * Subscribes to INSERT, UPDATE and DELETE events on orders.
+ * The caller owns the returned channel and must unsubscribe it on cleanup.
+ */
+export const subscribeToOrderChanges = (
+  channelPrefix: string,
+  handlers: OrderChangeHandlers
+): OrdersChannel => {
+  const channelName = `${channelPrefix}-${Date.now()}`;
+  console.log(`${channelPrefix}: Creating channel`, channelName);
+
+  return supabase
+    .channel(channelName)
+    .on('postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'orders' },
+      (payload) => {
+        console.log(`${channelPrefix}: New order received`, payload);
+        handlers.onInsert?.(payload.new as Order);
+      }
+    )
+    .on('postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'orders' },
+      (payload) => {
+        console.log(`${channelPrefix}: Order updated`, payload);
+        handlers.onUpdate?.(payload.new as Order);
+      }
+    )
+    .on('postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'orders' },
+      (payload) => {
+        console.log(`${channelPrefix}: Order deleted`, payload);
+        handlers.onDelete?.(payload.old.id as string);
+      }
+    )
+    .subscribe((status) => {
+      console.log(`${channelPrefix} channel status:`, status);
+    });
+};
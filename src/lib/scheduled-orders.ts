@@ -0,0 +1,128 @@
+/**
+ * Scheduled Orders
+ *
+ * Pre-orders booked into fulfilment slots. An order with scheduled_for set is
+ * held back from the kitchen queue until the lead time before its slot; slot
+ * capacity is enforced by the database when the order is written.
+ */
+
+import { supabase, FulfilmentSlot, Order } from './supabase';
+import { getAdminSetting, saveAdminSetting } from './admin-settings';
+
+export interface ScheduledOrderSettings {
+  kitchen_lead_minutes: number;
+}
+
+export interface SlotInput {
+  fulfilment_type: FulfilmentSlot['fulfilment_type'];
+  starts_at: string;
+  ends_at: string;
+  capacity: number;
+}
+
+const SCHEDULED_SETTINGS_KEY = 'scheduled_orders';
+
+export const DEFAULT_SCHEDULED_SETTINGS: ScheduledOrderSettings = {
+  kitchen_lead_minutes: 45,
+};
+
+export const FULFILMENT_TYPE_LABELS: Record<FulfilmentSlot['fulfilment_type'], string> = {
+  delivery: 'Delivery',
+  pickup: 'Pickup',
+};
+
+export const getScheduledSettings = (): Promise<ScheduledOrderSettings> =>
+  getAdminSetting(SCHEDULED_SETTINGS_KEY, DEFAULT_SCHEDULED_SETTINGS);
+
+export const saveScheduledSettings = (settings: ScheduledOrderSettings): Promise<void> =>
+  saveAdminSetting(SCHEDULED_SETTINGS_KEY, settings);
+
+export const isScheduled = (order: Pick<Order, 'scheduled_for'>): boolean => !!order.scheduled_for;
+
+/**
+ * When a pre-order is released to the kitchen; ASAP orders have no release time
+ */
+export const getKitchenReleaseTime = (
+  order: Pick<Order, 'scheduled_for'>,
+  settings: ScheduledOrderSettings
+): Date | null => {
+  if (!order.scheduled_for) return null;
+  return new Date(new Date(order.scheduled_for).getTime() - settings.kitchen_lead_minutes * 60000);
+};
+
+export const isInKitchenWindow = (
+  order: Pick<Order, 'scheduled_for'>,
+  settings: ScheduledOrderSettings,
+  now: number = Date.now()
+): boolean => {
+  const release = getKitchenReleaseTime(order, settings);
+  return !release || release.getTime() <= now;
+};
+
+export const formatScheduledTime = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Slots overlapping the range, with how many places are already booked
+ */
+export const fetchFulfilmentSlots = async (from: Date, to: Date): Promise<FulfilmentSlot[]> => {
+  const { data, error } = await supabase.rpc('get_fulfilment_slots', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Creates the slot, repeated on the following days when repeatDays > 0
+ */
+export const createFulfilmentSlots = async (slot: SlotInput, repeatDays = 0): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const rows = Array.from({ length: repeatDays + 1 }, (_, day) => {
+    const startsAt = new Date(slot.starts_at);
+    const endsAt = new Date(slot.ends_at);
+    // setDate keeps the local wall-clock time across daylight saving changes
+    startsAt.setDate(startsAt.getDate() + day);
+    endsAt.setDate(endsAt.getDate() + day);
+    return {
+      fulfilment_type: slot.fulfilment_type,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      capacity: slot.capacity,
+      created_by: user?.id ?? null,
+    };
+  });
+
+  const { error } = await supabase.from('fulfilment_slots').insert(rows);
+  if (error) throw error;
+};
+
+export const updateSlotCapacity = async (slotId: string, capacity: number): Promise<void> => {
+  const { error } = await supabase
+    .from('fulfilment_slots')
+    .update({ capacity })
+    .eq('id', slotId);
+
+  if (error) throw error;
+};
+
+export const deleteFulfilmentSlot = async (slotId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('fulfilment_slots')
+    .delete()
+    .eq('id', slotId);
+
+  // Booked slots are protected by the orders foreign key
+  if (error?.code === '23503') {
+    throw new Error('This slot has bookings and can\'t be deleted');
+  }
+  if (error) throw error;
+};
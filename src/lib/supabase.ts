@@ -22,25 +22,103 @@ export interface MenuItem {
   description: string;
   price: number;
   image_url: string;
-  category: 'morning' | 'afternoon' | 'dinner';
+  category: string; // menu_categories slug
   is_vegetarian: boolean;
-  is_available: boolean;
+  allergens: (
+    | 'gluten' | 'peanuts' | 'tree_nuts' | 'dairy' | 'egg' | 'soy' | 'fish'
+    | 'shellfish' | 'molluscs' | 'sesame' | 'mustard' | 'celery' | 'sulphites' | 'lupin'
+  )[];
+  dietary_tags: ('vegetarian' | 'vegan' | 'halal' | 'jain' | 'spicy')[];
+  is_available: boolean; // permanent on/off; schedules and overrides decide the rest
+  availability_override?: boolean | null;
+  availability_override_until?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MenuCategory {
+  slug: string;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
+  available_from: string | null; // 'HH:MM:SS'
+  available_until: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface MenuAvailabilitySchedule {
+  id: string;
+  // Exactly one of these is set
+  menu_item_id: string | null;
+  category: string | null;
+  days_of_week: number[]; // 0 = Sunday
+  starts_at: string | null; // 'HH:MM:SS'; both null = all day
+  ends_at: string | null;
+  valid_from: string | null; // 'YYYY-MM-DD'
+  valid_until: string | null;
+  label: string | null;
+  created_at: string;
+}
+
+export interface MenuItemAvailability {
+  menu_item_id: string;
+  is_available_now: boolean;
+  next_change_at: string | null;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number | null; // null = no upper limit
+  sort_order: number;
+  options?: ModifierOption[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
 export interface Order {
   id: string;
-  user_id: string;
+  user_id: string | null; // NULL for phone and walk-in orders entered by staff
   customer_name: string;
   customer_email: string;
   customer_phone: string;
   delivery_address: string;
   total_amount: number;
+  refunded_amount?: number;
   status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
   special_instructions?: string;
+  status_reason?: string | null;
   order_items: OrderItem[];
   is_read: boolean;
+  acknowledged_at?: string | null;
+  acknowledged_by?: string | null;
+  confirmed_at?: string | null;
+  ready_at?: string | null;
+  source?: 'online' | 'phone' | 'walk_in';
+  delivery_run_id?: string | null;
+  scheduled_for?: string | null;
+  delivery_lat?: number | null;
+  delivery_lng?: number | null;
+  delivery_zone_id?: string | null;
+  delivery_fee?: number;
+  fulfilment_slot_id?: string | null;
+  review_status?: 'flagged' | 'cleared' | null;
+  review_reasons?: string[];
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_by?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -48,9 +126,161 @@ export interface Order {
 export interface OrderItem {
   id: string;
   order_id: string;
+  menu_item_id?: string | null;
   item_name: string;
   quantity: number;
+  refunded_quantity?: number;
+  price: number; // unit price including modifiers
+  modifiers?: OrderItemModifier[];
+  allergens?: MenuItem['allergens']; // copied from the menu item when the line is created
+  created_at: string;
+}
+
+export interface OrderItemModifier {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  option_name: string;
+  price_delta: number;
+}
+
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  order_item_id: string | null;
+  quantity: number | null;
+  amount: number;
+  reason_code: 'wrong_item' | 'missing_item' | 'quality_issue' | 'late_delivery' | 'customer_request' | 'other';
+  note: string | null;
+  actor_id: string | null;
+  created_at: string;
+  actor?: Pick<User, 'email' | 'full_name'> | null;
+}
+
+export interface OrderEditChange {
+  item_name: string;
+  // Options on the line; missing on edits logged before modifiers existed
+  modifiers?: OrderItemModifier[];
   price: number;
+  from_quantity: number;
+  to_quantity: number;
+}
+
+export interface OrderEdit {
+  id: string;
+  order_id: string;
+  changes: OrderEditChange[];
+  previous_total: number;
+  new_total: number;
+  overrode_lock: boolean;
+  note: string | null;
+  actor_id: string | null;
+  created_at: string;
+  actor?: Pick<User, 'email' | 'full_name'> | null;
+}
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
+  actor_id: string | null;
+  note: string | null;
+  created_at: string;
+  actor?: Pick<User, 'email' | 'full_name'> | null;
+}
+
+export interface SlaTarget {
+  id: string;
+  stage: 'acknowledge' | 'prepare' | 'deliver';
+  category: MenuItem['category'] | null;
+  target_minutes: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface OrderComment {
+  id: string;
+  order_id: string;
+  author_id: string | null;
+  body: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  author?: Pick<User, 'email' | 'full_name'> | null;
+}
+
+export interface Driver {
+  id: string;
+  user_id: string | null;
+  name: string;
+  phone: string;
+  vehicle: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface DeliveryRun {
+  id: string;
+  driver_id: string;
+  status: 'active' | 'completed';
+  assigned_by: string | null;
+  started_at: string;
+  completed_at: string | null;
+  orders?: Order[];
+}
+
+export interface FulfilmentSlot {
+  id: string;
+  fulfilment_type: 'delivery' | 'pickup';
+  starts_at: string;
+  ends_at: string;
+  capacity: number;
+  booked?: number;
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  zone_type: 'polygon' | 'radius';
+  polygon: [number, number][] | null; // [lat, lng] vertices
+  radius_km: number | null;
+  delivery_fee: number;
+  min_order_amount: number;
+  eta_minutes: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface KitchenStatus {
+  mode: 'accepting' | 'busy' | 'paused';
+  reason: string | null;
+  is_automatic: boolean;
+  busy_extra_minutes: number;
+  auto_pause_threshold: number | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface KitchenStatusChange {
+  id: string;
+  from_mode: KitchenStatus['mode'] | null;
+  to_mode: KitchenStatus['mode'];
+  reason: string | null;
+  is_automatic: boolean;
+  active_orders: number | null;
+  actor_id: string | null;
+  created_at: string;
+  actor?: Pick<User, 'email' | 'full_name'> | null;
+}
+
+export interface OrderBlocklistEntry {
+  id: string;
+  kind: 'phone' | 'email' | 'address';
+  value: string;
+  note: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -59,7 +289,7 @@ export interface User {
   email: string;
   full_name: string;
   phone: string;
-  role: 'customer' | 'admin' | 'superadmin';
+  role: 'customer' | 'driver' | 'admin' | 'superadmin';
   created_at: string;
   updated_at: string;
 }
\ No newline at end of file
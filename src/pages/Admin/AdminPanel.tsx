@@ -1,19 +1,36 @@
 import { useState, useEffect } from 'react';
-import { Menu, X, Package, Utensils, Users, LogOut, Home, LayoutDashboard, Bell, Search } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Menu, X, Package, Utensils, Users, LogOut, Home, LayoutDashboard, Search, ChefHat, Truck } from 'lucide-react';
 import { Dashboard } from './Dashboard';
 import { MenuManagement } from './MenuManagement';
 import { OrderManagement } from './OrderManagement';
+import { DispatchBoard } from './DispatchBoard';
 import { UserManagement } from './UserManagement';  // Import from same directory
+import { SlaAlertWatcher } from './SlaAlertWatcher';
+import { NewOrderAlerts } from './NewOrderAlerts';
+import { KitchenStatusControl } from './KitchenStatusControl';
+import { UnreadOrdersBadge } from './UnreadOrdersBadge';
 import { useAuth } from '../../contexts/AuthContext';
 import { AdminRouteGuard, useAdminPermissions } from '../../components/AdminRouteGuard';
 
+type AdminTab = 'dashboard' | 'orders' | 'dispatch' | 'menu' | 'users';
+
+const ADMIN_TABS: AdminTab[] = ['dashboard', 'orders', 'dispatch', 'menu', 'users'];
+
 export const AdminPanel = () => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'orders' | 'menu' | 'users'>('dashboard');
+  // The active tab lives in the URL so links (e.g. a filtered order view) can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get('tab') as AdminTab | null;
+  const activeTab: AdminTab = tabParam && ADMIN_TABS.includes(tabParam) ? tabParam : 'dashboard';
+  const setActiveTab = (tab: AdminTab) => {
+    setSearchParams(tab === 'dashboard' ? {} : { tab });
+  };
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [currentTime, setCurrentTime] = useState(new Date());
   const { signOut, userProfile } = useAuth();
   const { hasPermission } = useAdminPermissions();
+  const navigate = useNavigate();
 
   // Update current time every minute
   useEffect(() => {
@@ -37,6 +54,7 @@ export const AdminPanel = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 flex overflow-hidden">
+      <SlaAlertWatcher />
       {/* Modern Sidebar */}
       <aside 
         className={`bg-gradient-to-b from-blue-900 to-blue-800 text-white w-72 min-h-screen flex flex-col 
@@ -100,7 +118,30 @@ export const AdminPanel = () => {
             >
               <Package size={18} className={activeTab === 'orders' ? 'text-blue-200' : ''} />
               <span>Orders</span>
-              {activeTab === 'orders' && <div className="ml-auto w-1.5 h-6 bg-blue-400 rounded-full"></div>}
+              <span className="ml-auto flex items-center space-x-2">
+                <UnreadOrdersBadge />
+                {activeTab === 'orders' && <div className="w-1.5 h-6 bg-blue-400 rounded-full"></div>}
+              </span>
+            </button>
+
+            <button
+              onClick={() => setActiveTab('dispatch')}
+              className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all 
+              ${activeTab === 'dispatch' 
+                ? 'bg-blue-600/30 text-white font-medium shadow-md' 
+                : 'text-blue-100/80 hover:bg-white/10'}`}
+            >
+              <Truck size={18} className={activeTab === 'dispatch' ? 'text-blue-200' : ''} />
+              <span>Dispatch</span>
+              {activeTab === 'dispatch' && <div className="ml-auto w-1.5 h-6 bg-blue-400 rounded-full"></div>}
+            </button>
+
+            <button
+              onClick={() => navigate('/admin/kds')}
+              className="w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all text-blue-100/80 hover:bg-white/10"
+            >
+              <ChefHat size={18} />
+              <span>Kitchen Display</span>
             </button>
 
             <button
@@ -175,6 +216,7 @@ export const AdminPanel = () => {
             <div className="text-lg font-medium text-gray-800">
               {activeTab === 'dashboard' && 'Dashboard Overview'}
               {activeTab === 'orders' && 'Order Management'}
+              {activeTab === 'dispatch' && 'Dispatch'}
               {activeTab === 'menu' && 'Menu Management'}
               {activeTab === 'users' && 'User Management'}
             </div>
@@ -205,10 +247,8 @@ export const AdminPanel = () => {
               })}
             </div>
             
-            {/* Notification bell - removed mock notifications */}
-            <button className="relative p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
-              <Bell size={20} />
-            </button>
+            <KitchenStatusControl />
+            <NewOrderAlerts />
           </div>
         </header>
         
@@ -227,6 +267,7 @@ export const AdminPanel = () => {
           {/* Content for each tab */}
           {activeTab === 'dashboard' && <Dashboard />}
           {activeTab === 'orders' && <OrderManagement />}
+          {activeTab === 'dispatch' && <DispatchBoard />}
           {activeTab === 'menu' && <MenuManagement />}
           {activeTab === 'users' && <UserManagement />}
         </main>
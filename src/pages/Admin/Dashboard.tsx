@@ -1,7 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { BarChart3, TrendingUp, Package, Users, DollarSign, Clock } from 'lucide-react';
-import { supabase, Order } from '../../lib/supabase';
+import { BarChart3, TrendingUp, Package, Users, DollarSign, Clock, Timer, Tags } from 'lucide-react';
+import { supabase, MenuCategory, Order } from '../../lib/supabase';
 import { useNotification } from '../../contexts/NotificationContext';
+import { getNetAmount } from '../../lib/order-totals';
+import { EMPTY_SLA_CONFIG, fetchSlaConfig, getOrderSla, OrderSla, SlaConfig } from '../../lib/order-sla';
+import { fetchMenuCategories, groupItemsByCategory } from '../../lib/menu-categories';
+import { fetchMenuAvailability } from '../../lib/menu-availability';
+import { SlaBadge } from './SlaBadge';
+
+// How often SLA highlights are re-evaluated
+const SLA_TICK_MS = 30000;
 
 interface DashboardStats {
   todayOrders: number;
@@ -11,7 +19,10 @@ interface DashboardStats {
   totalMenuItems: number;
   weeklyRevenue: number[];
   popularItems: Array<{ name: string; count: number }>;
+  // available: items that can be ordered right now (schedules, overrides and category hours applied)
+  menuCategories: Array<{ slug: string; name: string; category: MenuCategory | null; total: number; available: number }>;
   recentOrders: Order[];
+  activeOrders: Order[];
 }
 
 export const Dashboard = () => {
@@ -23,9 +34,13 @@ export const Dashboard = () => {
     totalMenuItems: 0,
     weeklyRevenue: [],
     popularItems: [],
+    menuCategories: [],
     recentOrders: [],
+    activeOrders: [],
   });
   const [loading, setLoading] = useState(true);
+  const [slaConfig, setSlaConfig] = useState<SlaConfig>(EMPTY_SLA_CONFIG);
+  const [now, setNow] = useState(() => Date.now());
   const { addNotification } = useNotification();
   const isFetchingRef = useRef(false);
   const mountedRef = useRef(true);
@@ -57,7 +72,7 @@ export const Dashboard = () => {
       // Fetch today's orders
       const { data: todayOrders, error: todayError } = await supabase
         .from('orders')
-        .select('total_amount, status')
+        .select('total_amount, refunded_amount, status')
         .gte('created_at', todayStart)
         .lt('created_at', todayEnd);
 
@@ -69,7 +84,8 @@ export const Dashboard = () => {
 
       // Calculate today's stats
       const todayOrdersCount = todayOrders?.length || 0;
-      const todayRevenue = todayOrders?.reduce((sum, order) => sum + parseFloat(order.total_amount?.toString() || '0'), 0) || 0;
+      // Revenue is net of refunds
+      const todayRevenue = todayOrders?.reduce((sum, order) => sum + getNetAmount(order), 0) || 0;
       const pendingCount = todayOrders?.filter(o => o.status === 'pending').length || 0;
 
       // Fetch total customers
@@ -78,10 +94,34 @@ export const Dashboard = () => {
         .select('*', { count: 'exact', head: true })
         .eq('role', 'customer');
 
-      // Fetch total menu items
-      const { count: menuCount } = await supabase
+      // Fetch menu items, grouped by category below
+      const { data: menuItems } = await supabase
         .from('menu_items')
-        .select('*', { count: 'exact', head: true });
+        .select('id, category, is_available');
+
+      let categories: MenuCategory[] = [];
+      try {
+        categories = await fetchMenuCategories();
+      } catch (categoryError) {
+        console.error('Error loading menu categories:', categoryError);
+      }
+
+      // Same availability the server enforces on new orders, in the kitchen's time zone
+      const availability = await fetchMenuAvailability().catch(availabilityError => {
+        console.error('Error fetching menu availability:', availabilityError);
+        return null;
+      });
+      const isAvailableNow = (item: { id: string; is_available: boolean }) =>
+        availability ? !!availability[item.id]?.is_available_now : item.is_available;
+
+      const menuCategories = groupItemsByCategory(menuItems || [], categories)
+        .map(({ slug, name, category, items }) => ({
+          slug,
+          name,
+          category,
+          total: items.length,
+          available: items.filter(isAvailableNow).length,
+        }));
 
       // Fetch last 7 days revenue for chart
       const weeklyRevenue: number[] = [];
@@ -95,11 +135,11 @@ export const Dashboard = () => {
 
         const { data: dayOrders } = await supabase
           .from('orders')
-          .select('total_amount')
+          .select('total_amount, refunded_amount')
           .gte('created_at', dayStart.toISOString())
           .lt('created_at', dayEnd.toISOString());
 
-        const dayRevenue = dayOrders?.reduce((sum, order) => sum + parseFloat(order.total_amount.toString()), 0) || 0;
+        const dayRevenue = dayOrders?.reduce((sum, order) => sum + getNetAmount(order), 0) || 0;
         weeklyRevenue.push(dayRevenue);
       }
 
@@ -122,10 +162,25 @@ export const Dashboard = () => {
       // Fetch recent orders
       const { data: recentOrders } = await supabase
         .from('orders')
-        .select('*')
+        .select('*, order_items(*)')
         .order('created_at', { ascending: false })
         .limit(5);
 
+      // Fetch open orders for the SLA highlights
+      const { data: activeOrders } = await supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .in('status', ['pending', 'confirmed', 'preparing', 'ready']);
+
+      try {
+        const config = await fetchSlaConfig();
+        if (mountedRef.current) {
+          setSlaConfig(config);
+        }
+      } catch (slaError) {
+        console.error('Error loading SLA targets:', slaError);
+      }
+
       if (!mountedRef.current) return;
 
       setStats({
@@ -133,10 +188,12 @@ export const Dashboard = () => {
         todayRevenue,
         pendingOrders: pendingCount,
         totalCustomers: customersCount || 0,
-        totalMenuItems: menuCount || 0,
+        totalMenuItems: menuItems?.length || 0,
         weeklyRevenue,
         popularItems,
+        menuCategories,
         recentOrders: recentOrders || [],
+        activeOrders: activeOrders || [],
       });
 
     } catch (error: unknown) {
@@ -203,6 +260,11 @@ export const Dashboard = () => {
     };
   }, []); // Empty dependencies - only run once
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       pending: 'bg-amber-100 text-amber-700 border border-amber-200',
@@ -224,6 +286,12 @@ export const Dashboard = () => {
     dayLabels.push(days[dayIndex]);
   }
 
+  // Breached orders first, then the closest deadlines
+  const ordersAtRisk = stats.activeOrders
+    .map(order => ({ order, sla: getOrderSla(order, slaConfig, now) }))
+    .filter((entry): entry is { order: Order; sla: OrderSla } => !!entry.sla && entry.sla.state !== 'on_track')
+    .sort((a, b) => a.sla.deadline.getTime() - b.sla.deadline.getTime());
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -358,6 +426,77 @@ export const Dashboard = () => {
         </div>
       </div>
 
+      {/* Menu by category */}
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Tags className="text-blue-600" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Menu by Category</h3>
+          </div>
+          <div className="bg-blue-50 text-blue-700 text-xs py-1 px-2 rounded-md font-medium border border-blue-100">
+            {stats.totalMenuItems} items
+          </div>
+        </div>
+
+        {stats.menuCategories.length > 0 ? (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {stats.menuCategories.map(({ slug, name, category, total, available }) => {
+              const serving = !!category && category.is_active && available > 0;
+              return (
+                <div key={slug} className="rounded-lg border border-gray-200 p-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900 truncate">{name}</p>
+                    <span className={`h-2 w-2 rounded-full ${serving ? 'bg-emerald-500' : 'bg-gray-300'}`} />
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900">{total}</p>
+                  <p className="text-xs text-gray-500">
+                    {available} available now
+                    {category && !category.is_active && ' • inactive'}
+                    {category?.is_active && total > 0 && !serving && ' • not serving'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No menu categories yet</p>
+        )}
+      </div>
+
+      {/* Orders at risk of missing their prep-time targets */}
+      {ordersAtRisk.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md p-6 border-2 border-red-200">
+          <div className="flex items-center space-x-2 mb-4">
+            <Timer className="text-red-600" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Orders at Risk</h3>
+            <span className="bg-red-100 text-red-700 text-xs py-1 px-2 rounded-full font-medium">
+              {ordersAtRisk.filter(entry => entry.sla.state === 'breached').length} breached
+            </span>
+          </div>
+          <div className="rounded-lg overflow-hidden border border-gray-200">
+            {ordersAtRisk.map(({ order, sla }, index) => (
+              <div
+                key={order.id}
+                className={`flex items-center justify-between p-4 ${
+                  sla.state === 'breached' ? 'bg-red-50' : 'bg-amber-50'
+                } ${index !== ordersAtRisk.length - 1 ? 'border-b border-gray-200' : ''}`}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">Order #{order.id.slice(-8)}</p>
+                  <p className="text-sm text-gray-600">{order.customer_name}</p>
+                </div>
+                <div className="text-right flex flex-col items-end space-y-1">
+                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
+                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  </span>
+                  <SlaBadge sla={sla} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Orders */}
       <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
         <div className="flex items-center justify-between mb-6">
@@ -394,6 +533,7 @@ export const Dashboard = () => {
                   <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
                     {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
                   </span>
+                  <SlaBadge sla={getOrderSla(order, slaConfig, now)} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,416 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MapPin, Pencil, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { DeliveryZone } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { formatCurrency, toAmount } from '../../lib/order-totals';
+import { geocodeAddress } from '../../lib/geocoding';
+import {
+  DEFAULT_KITCHEN_LOCATION,
+  deleteDeliveryZone,
+  DeliveryZoneInput,
+  fetchDeliveryZones,
+  findDeliveryZone,
+  formatPolygon,
+  getKitchenLocation,
+  KitchenLocation,
+  parsePolygon,
+  saveDeliveryZone,
+  saveKitchenLocation,
+} from '../../lib/delivery-zones';
+
+interface DeliveryZonesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Form values as typed
+interface ZoneForm {
+  name: string;
+  zone_type: DeliveryZone['zone_type'];
+  polygon: string;
+  radius_km: string;
+  delivery_fee: string;
+  min_order_amount: string;
+  eta_minutes: string;
+  is_active: boolean;
+}
+
+const EMPTY_ZONE_FORM: ZoneForm = {
+  name: '',
+  zone_type: 'radius',
+  polygon: '',
+  radius_km: '3',
+  delivery_fee: '0',
+  min_order_amount: '0',
+  eta_minutes: '30',
+  is_active: true,
+};
+
+const toZoneForm = (zone: DeliveryZone): ZoneForm => ({
+  name: zone.name,
+  zone_type: zone.zone_type,
+  polygon: formatPolygon(zone.polygon),
+  radius_km: zone.radius_km !== null ? String(zone.radius_km) : '',
+  delivery_fee: String(zone.delivery_fee),
+  min_order_amount: String(zone.min_order_amount),
+  eta_minutes: String(zone.eta_minutes),
+  is_active: zone.is_active,
+});
+
+/**
+ * Validates the form into a zone row, throwing with a message for the first bad field
+ */
+const toZoneInput = (form: ZoneForm): DeliveryZoneInput => {
+  const deliveryFee = parseFloat(form.delivery_fee);
+  const minOrder = parseFloat(form.min_order_amount);
+  const eta = parseInt(form.eta_minutes, 10);
+
+  if (!form.name.trim()) throw new Error('Zone name is required');
+  if (!Number.isFinite(deliveryFee) || deliveryFee < 0) throw new Error('Delivery fee must be zero or more');
+  if (!Number.isFinite(minOrder) || minOrder < 0) throw new Error('Minimum order must be zero or more');
+  if (!Number.isInteger(eta) || eta < 1) throw new Error('ETA must be whole minutes');
+
+  let polygon: [number, number][] | null = null;
+  let radiusKm: number | null = null;
+
+  if (form.zone_type === 'polygon') {
+    polygon = parsePolygon(form.polygon);
+    if (polygon.length < 3) throw new Error('A polygon needs at least 3 points');
+  } else {
+    radiusKm = parseFloat(form.radius_km);
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) throw new Error('Radius must be above zero');
+  }
+
+  return {
+    name: form.name.trim(),
+    zone_type: form.zone_type,
+    polygon,
+    radius_km: radiusKm,
+    delivery_fee: deliveryFee,
+    min_order_amount: minOrder,
+    eta_minutes: eta,
+    is_active: form.is_active,
+  };
+};
+
+export const DeliveryZonesDialog = ({ open, onClose }: DeliveryZonesDialogProps) => {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [kitchen, setKitchen] = useState<KitchenLocation>(DEFAULT_KITCHEN_LOCATION);
+  const [kitchenDraft, setKitchenDraft] = useState({ lat: '', lng: '' });
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testAddress, setTestAddress] = useState('');
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const { addNotification } = useNotification();
+
+  const loadZones = useCallback(async () => {
+    try {
+      const [loadedZones, location] = await Promise.all([fetchDeliveryZones(), getKitchenLocation()]);
+      setZones(loadedZones);
+      setKitchen(location);
+      setKitchenDraft({
+        lat: location.lat !== null ? String(location.lat) : '',
+        lng: location.lng !== null ? String(location.lng) : '',
+      });
+    } catch (error) {
+      console.error('Error fetching delivery zones:', error);
+      addNotification('Failed to load delivery zones', 'error');
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(null);
+    setEditingZoneId(null);
+    setTestResult(null);
+    loadZones();
+  }, [open]);
+
+  const handleSaveKitchen = async () => {
+    const lat = parseFloat(kitchenDraft.lat);
+    const lng = parseFloat(kitchenDraft.lng);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      addNotification('Enter a valid latitude and longitude', 'error');
+      return;
+    }
+
+    try {
+      await saveKitchenLocation({ lat, lng });
+      setKitchen({ lat, lng });
+      addNotification('Kitchen location saved', 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save kitchen location',
+        'error'
+      );
+    }
+  };
+
+  const handleSaveZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || saving) return;
+
+    setSaving(true);
+    try {
+      await saveDeliveryZone(toZoneInput(form), editingZoneId || undefined);
+      addNotification(editingZoneId ? 'Zone updated' : 'Zone added', 'success');
+      setForm(null);
+      setEditingZoneId(null);
+      await loadZones();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save zone',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteZone = async (zone: DeliveryZone) => {
+    if (!confirm(`Delete the "${zone.name}" zone?`)) return;
+
+    try {
+      await deleteDeliveryZone(zone.id);
+      await loadZones();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to delete zone',
+        'error'
+      );
+    }
+  };
+
+  const handleTestAddress = async () => {
+    if (!testAddress.trim()) return;
+
+    try {
+      const point = await geocodeAddress(testAddress);
+      if (!point) {
+        setTestResult('Address not found');
+        return;
+      }
+      const zone = findDeliveryZone(point, zones, kitchen);
+      setTestResult(zone
+        ? `${zone.name}: ${formatCurrency(zone.delivery_fee)} fee, ${formatCurrency(zone.min_order_amount)} minimum, about ${zone.eta_minutes} min`
+        : `Outside every zone (${point.lat.toFixed(4)}, ${point.lng.toFixed(4)})`);
+    } catch (error: unknown) {
+      setTestResult(error instanceof Error ? error.message : 'Geocoding failed');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Delivery zones</DialogTitle>
+          <DialogDescription>
+            Each address is charged the cheapest active zone that covers it. Radius zones are measured from the kitchen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end space-x-2 text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1">Kitchen latitude</label>
+            <input
+              type="text"
+              value={kitchenDraft.lat}
+              onChange={(e) => setKitchenDraft(prev => ({ ...prev, lat: e.target.value }))}
+              className="w-32 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Longitude</label>
+            <input
+              type="text"
+              value={kitchenDraft.lng}
+              onChange={(e) => setKitchenDraft(prev => ({ ...prev, lng: e.target.value }))}
+              className="w-32 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <button
+            onClick={handleSaveKitchen}
+            className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+          >
+            Save
+          </button>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 space-y-2">
+          {zones.length === 0 ? (
+            <p className="text-sm text-gray-500">No delivery zones yet</p>
+          ) : (
+            zones.map((zone) => (
+              <div key={zone.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                <div>
+                  <p className={`font-medium ${zone.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>{zone.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {zone.zone_type === 'radius' ? `${toAmount(zone.radius_km)} km radius` : `${zone.polygon?.length || 0}-point area`}
+                    {' • '}{formatCurrency(zone.delivery_fee)} fee • {formatCurrency(zone.min_order_amount)} min • ~{zone.eta_minutes} min
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => {
+                      setForm(toZoneForm(zone));
+                      setEditingZoneId(zone.id);
+                    }}
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Edit zone"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteZone(zone)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete zone"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {!form && (
+            <button
+              onClick={() => {
+                setForm(EMPTY_ZONE_FORM);
+                setEditingZoneId(null);
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              + Add zone
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <form onSubmit={handleSaveZone} className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm border border-gray-200 rounded-lg p-3">
+            <input
+              type="text"
+              placeholder="Zone name"
+              value={form.name}
+              onChange={(e) => setForm(prev => prev && ({ ...prev, name: e.target.value }))}
+              className="col-span-2 px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+            <select
+              value={form.zone_type}
+              onChange={(e) => setForm(prev => prev && ({ ...prev, zone_type: e.target.value as DeliveryZone['zone_type'] }))}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg"
+            >
+              <option value="radius">Radius</option>
+              <option value="polygon">Polygon</option>
+            </select>
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, is_active: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Active</span>
+            </label>
+
+            {form.zone_type === 'radius' ? (
+              <label className="col-span-2 md:col-span-4 text-gray-700">
+                Radius from kitchen (km)
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={form.radius_km}
+                  onChange={(e) => setForm(prev => prev && ({ ...prev, radius_km: e.target.value }))}
+                  className="ml-2 w-24 px-2 py-1.5 border border-gray-300 rounded-lg"
+                />
+              </label>
+            ) : (
+              <textarea
+                placeholder={'One "lat, lng" point per line, or paste GeoJSON [[lng, lat], ...] coordinates'}
+                value={form.polygon}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, polygon: e.target.value }))}
+                className="col-span-2 md:col-span-4 px-2 py-1.5 border border-gray-300 rounded-lg font-mono text-xs"
+                rows={5}
+              />
+            )}
+
+            <label className="text-gray-700">
+              Fee
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.delivery_fee}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, delivery_fee: e.target.value }))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-gray-700">
+              Minimum order
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.min_order_amount}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, min_order_amount: e.target.value }))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-gray-700">
+              ETA (min)
+              <input
+                type="number"
+                min={1}
+                value={form.eta_minutes}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, eta_minutes: e.target.value }))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <div className="flex items-end space-x-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-blue-600 text-white px-3 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setForm(null);
+                  setEditingZoneId(null);
+                }}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="border-t border-gray-100 pt-4 text-sm">
+          <label className="block text-gray-700 mb-1">Check an address</label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={testAddress}
+              onChange={(e) => setTestAddress(e.target.value)}
+              className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+            <button
+              onClick={handleTestAddress}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+            >
+              <MapPin size={14} />
+              <span>Check</span>
+            </button>
+          </div>
+          {testResult && <p className="mt-2 text-gray-700">{testResult}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,479 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Truck, MapPin, Clock, UserPlus, Undo2, Phone, Map as MapIcon } from 'lucide-react';
+import { supabase, DeliveryRun, Driver, Order, User } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+import {
+  assignOrdersToDriver,
+  DriverInput,
+  fetchActiveRuns,
+  fetchDrivers,
+  saveDriver,
+  unassignOrder,
+} from '../../lib/dispatch';
+import { formatCurrency } from '../../lib/order-totals';
+import { DeliveryZonesDialog } from './DeliveryZonesDialog';
+
+const EMPTY_DRIVER: DriverInput = {
+  name: '',
+  phone: '',
+  vehicle: null,
+  is_active: true,
+  user_id: null,
+};
+
+const getMinutesSince = (timestamp: string, now: number) =>
+  Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 60000));
+
+export const DispatchBoard = () => {
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [runs, setRuns] = useState<DeliveryRun[]>([]);
+  const [readyOrders, setReadyOrders] = useState<Order[]>([]);
+  const [driverUsers, setDriverUsers] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [assignDriverId, setAssignDriverId] = useState('');
+  const [driverForm, setDriverForm] = useState<DriverInput | null>(null);
+  const [editingDriverId, setEditingDriverId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [zonesOpen, setZonesOpen] = useState(false);
+  const { addNotification } = useNotification();
+  const mountedRef = useRef(true);
+  const addNotificationRef = useRef(addNotification);
+  const channelRef = useRef<OrdersChannel | null>(null);
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Keep notification ref updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+  }, [addNotification]);
+
+  // Tick the "since" timers
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setNow(Date.now());
+    }, 30000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const [driverList, activeRuns, ordersResult] = await Promise.all([
+        fetchDrivers(),
+        fetchActiveRuns(),
+        supabase
+          .from('orders')
+          .select('*, order_items(*)')
+          .eq('status', 'ready')
+          .is('delivery_run_id', null)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (ordersResult.error) throw ordersResult.error;
+      if (!mountedRef.current) return;
+
+      setDrivers(driverList);
+      setRuns(activeRuns);
+      setReadyOrders(ordersResult.data || []);
+      setSelectedIds(prev => {
+        const waiting = new Set((ordersResult.data || []).map(order => order.id));
+        return new Set(Array.from(prev).filter(id => waiting.has(id)));
+      });
+    } catch (error) {
+      console.error('Error fetching dispatch board:', error);
+      addNotificationRef.current('Failed to load the dispatch board', 'error');
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    fetchBoard();
+
+    // Any order change may move an order onto or off the board
+    const scheduleRefresh = () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+      debounceTimerRef.current = setTimeout(() => {
+        if (mountedRef.current) {
+          fetchBoard();
+        }
+      }, 500);
+    };
+
+    if (!channelRef.current) {
+      channelRef.current = subscribeToOrderChanges('dispatch-orders', {
+        onInsert: scheduleRefresh,
+        onUpdate: scheduleRefresh,
+        onDelete: scheduleRefresh,
+      });
+    }
+
+    return () => {
+      mountedRef.current = false;
+
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
+
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, [fetchBoard]);
+
+  const driverFormOpen = driverForm !== null;
+
+  // Logins with the driver role, for linking to a roster entry
+  useEffect(() => {
+    if (!driverFormOpen) return;
+
+    const fetchDriverUsers = async () => {
+      const { data, error } = await supabase.rpc('get_all_users');
+      if (error) {
+        console.error('Error fetching driver logins:', error);
+        return;
+      }
+      if (mountedRef.current) {
+        setDriverUsers(((data || []) as User[]).filter(user => user.role === 'driver'));
+      }
+    };
+
+    fetchDriverUsers();
+  }, [driverFormOpen]);
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const handleAssign = async () => {
+    if (!assignDriverId || selectedIds.size === 0) return;
+
+    setActionLoading(true);
+    try {
+      await assignOrdersToDriver(Array.from(selectedIds), assignDriverId);
+      const driver = drivers.find(candidate => candidate.id === assignDriverId);
+      addNotification(`${selectedIds.size} order${selectedIds.size > 1 ? 's' : ''} assigned to ${driver?.name || 'driver'}`, 'success');
+      setSelectedIds(new Set());
+      await fetchBoard();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to assign orders',
+        'error'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleUnassign = async (order: Order) => {
+    if (!confirm(`Take order #${order.id.slice(-8)} back from its driver?`)) return;
+
+    setActionLoading(true);
+    try {
+      await unassignOrder(order.id);
+      addNotification('Order returned to the ready queue', 'success');
+      await fetchBoard();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to unassign order',
+        'error'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSaveDriver = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!driverForm) return;
+
+    try {
+      await saveDriver(
+        { ...driverForm, name: driverForm.name.trim(), vehicle: driverForm.vehicle?.trim() || null },
+        editingDriverId || undefined
+      );
+      addNotification(editingDriverId ? 'Driver updated' : 'Driver added', 'success');
+      setDriverForm(null);
+      setEditingDriverId(null);
+      await fetchBoard();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save driver',
+        'error'
+      );
+    }
+  };
+
+  const toggleDriverActive = async (driver: Driver) => {
+    try {
+      await saveDriver(
+        { name: driver.name, phone: driver.phone, vehicle: driver.vehicle, user_id: driver.user_id, is_active: !driver.is_active },
+        driver.id
+      );
+      await fetchBoard();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to update driver',
+        'error'
+      );
+    }
+  };
+
+  const activeDrivers = drivers.filter(driver => driver.is_active);
+
+  if (loading) {
+    return <div className="flex justify-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Dispatch</h2>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setZonesOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <MapIcon size={16} />
+            <span>Delivery zones</span>
+          </button>
+          <button
+            onClick={() => {
+              setDriverForm(EMPTY_DRIVER);
+              setEditingDriverId(null);
+            }}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            <UserPlus size={18} />
+            <span>Add driver</span>
+          </button>
+        </div>
+      </div>
+
+      {driverForm && (
+        <form onSubmit={handleSaveDriver} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            placeholder="Name"
+            value={driverForm.name}
+            onChange={(e) => setDriverForm(prev => prev && ({ ...prev, name: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+          <input
+            type="tel"
+            placeholder="Phone"
+            value={driverForm.phone}
+            onChange={(e) => setDriverForm(prev => prev && ({ ...prev, phone: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            placeholder="Vehicle (optional)"
+            value={driverForm.vehicle || ''}
+            onChange={(e) => setDriverForm(prev => prev && ({ ...prev, vehicle: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={driverForm.user_id || ''}
+            onChange={(e) => setDriverForm(prev => prev && ({ ...prev, user_id: e.target.value || null }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">No driver login</option>
+            {driverUsers.map((user) => (
+              <option key={user.id} value={user.id}>{user.email}</option>
+            ))}
+          </select>
+          <div className="md:col-span-4 flex space-x-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              {editingDriverId ? 'Save driver' : 'Add driver'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDriverForm(null);
+                setEditingDriverId(null);
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Ready orders waiting for a driver */}
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Ready for pickup ({readyOrders.length})</h3>
+
+          {readyOrders.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">No orders waiting for a driver</p>
+          ) : (
+            <div className="space-y-2">
+              {readyOrders.map((order) => (
+                <label
+                  key={order.id}
+                  className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer ${
+                    selectedIds.has(order.id) ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(order.id)}
+                    onChange={() => toggleSelected(order.id)}
+                    className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-semibold text-gray-900">#{order.id.slice(-8)}</span>
+                      <span className="text-gray-500">
+                        {order.ready_at ? `${getMinutesSince(order.ready_at, now)} min ready` : ''}
+                      </span>
+                    </div>
+                    <p className="text-gray-700">{order.customer_name}</p>
+                    <p className="flex items-start space-x-1 text-gray-500">
+                      <MapPin size={14} className="shrink-0 mt-0.5" />
+                      <span className="truncate">{order.delivery_address}</span>
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-2 border-t border-gray-100 pt-4">
+            <select
+              value={assignDriverId}
+              onChange={(e) => setAssignDriverId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose driver...</option>
+              {activeDrivers.map((driver) => (
+                <option key={driver.id} value={driver.id}>{driver.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAssign}
+              disabled={actionLoading || !assignDriverId || selectedIds.size === 0}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Truck size={16} />
+              <span>Assign{selectedIds.size > 0 ? ` ${selectedIds.size}` : ''}</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Drivers and what they are carrying */}
+        <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 content-start">
+          {drivers.length === 0 && (
+            <p className="text-sm text-gray-500 py-6 text-center md:col-span-2">No drivers on the roster yet</p>
+          )}
+          {drivers.map((driver) => {
+            const driverRuns = runs.filter(run => run.driver_id === driver.id);
+            return (
+              <div
+                key={driver.id}
+                className={`bg-white rounded-xl shadow-sm p-5 border ${
+                  driver.is_active ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <p className="font-semibold text-gray-900">{driver.name}</p>
+                    <p className="flex items-center space-x-1 text-sm text-gray-500">
+                      <Phone size={12} />
+                      <span>{driver.phone || 'No phone'}</span>
+                      {driver.vehicle && <span>• {driver.vehicle}</span>}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 text-xs">
+                    <button
+                      onClick={() => {
+                        setDriverForm({
+                          name: driver.name,
+                          phone: driver.phone,
+                          vehicle: driver.vehicle,
+                          is_active: driver.is_active,
+                          user_id: driver.user_id,
+                        });
+                        setEditingDriverId(driver.id);
+                      }}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleDriverActive(driver)}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      {driver.is_active ? 'Off shift' : 'On shift'}
+                    </button>
+                  </div>
+                </div>
+
+                {driverRuns.length === 0 ? (
+                  <p className="text-sm text-gray-400">{driver.is_active ? 'Available' : 'Off shift'}</p>
+                ) : (
+                  driverRuns.map((run) => (
+                    <div key={run.id} className="bg-gray-50 rounded-lg p-3 mb-2 last:mb-0">
+                      <p className="flex items-center space-x-1 text-xs font-medium text-gray-600 mb-2">
+                        <Clock size={12} />
+                        <span>
+                          Out since {new Date(run.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {' '}({getMinutesSince(run.started_at, now)} min)
+                        </span>
+                      </p>
+                      {(run.orders || []).map((order) => (
+                        <div key={order.id} className="flex items-center justify-between text-sm py-1">
+                          <div className="min-w-0">
+                            <span className={`font-medium ${order.status === 'delivered' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                              #{order.id.slice(-8)}
+                            </span>
+                            <span className="text-gray-500"> • {order.customer_name} • {formatCurrency(order.total_amount)}</span>
+                          </div>
+                          {order.status === 'ready' && (
+                            <button
+                              onClick={() => handleUnassign(order)}
+                              disabled={actionLoading}
+                              className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              title="Take back"
+                            >
+                              <Undo2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <DeliveryZonesDialog open={zonesOpen} onClose={() => setZonesOpen(false)} />
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CheckCircle, LogOut, MapPin, Phone, RefreshCw, Truck } from 'lucide-react';
+import { DeliveryRun, Order } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchActiveRuns } from '../../lib/dispatch';
+import { updateOrderStatus } from '../../lib/order-status';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+
+/**
+ * Simplified mobile screen for the driver role: only the orders in the
+ * driver's own active runs, with a single "Delivered" action.
+ */
+export const DriverView = () => {
+  const [runs, setRuns] = useState<DeliveryRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deliveringId, setDeliveringId] = useState<string | null>(null);
+  const { addNotification } = useNotification();
+  const { signOut, userProfile } = useAuth();
+  const mountedRef = useRef(true);
+  const addNotificationRef = useRef(addNotification);
+  const channelRef = useRef<OrdersChannel | null>(null);
+
+  // Keep notification ref updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+  }, [addNotification]);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      // RLS only returns this driver's runs
+      const activeRuns = await fetchActiveRuns();
+      if (mountedRef.current) {
+        setRuns(activeRuns);
+      }
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+      addNotificationRef.current('Failed to load your deliveries', 'error');
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    fetchRuns();
+
+    if (!channelRef.current) {
+      channelRef.current = subscribeToOrderChanges('driver-orders', {
+        onInsert: () => fetchRuns(),
+        onUpdate: () => fetchRuns(),
+        onDelete: () => fetchRuns(),
+      });
+    }
+
+    return () => {
+      mountedRef.current = false;
+
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, [fetchRuns]);
+
+  const markDelivered = async (order: Order) => {
+    if (deliveringId) return;
+    if (!confirm(`Mark order #${order.id.slice(-8)} for ${order.customer_name} as delivered?`)) return;
+
+    setDeliveringId(order.id);
+    try {
+      await updateOrderStatus(order.id, 'delivered');
+      addNotification('Delivered', 'success');
+      await fetchRuns();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to update order',
+        'error'
+      );
+    } finally {
+      setDeliveringId(null);
+    }
+  };
+
+  const stops = runs.flatMap(run => (run.orders || []).filter(order => order.status === 'ready'));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-blue-900 text-white px-4 py-3 flex items-center justify-between sticky top-0 z-10">
+        <div className="flex items-center space-x-2">
+          <Truck size={20} />
+          <div>
+            <p className="font-semibold leading-tight">My deliveries</p>
+            <p className="text-xs text-blue-200">{userProfile?.email}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => fetchRuns()} className="p-2 text-blue-100 hover:text-white" title="Refresh">
+            <RefreshCw size={18} />
+          </button>
+          <button
+            onClick={async () => {
+              try {
+                await signOut();
+                window.location.replace('/admin');
+              } catch (error) {
+                console.error('Sign out error:', error);
+              }
+            }}
+            className="p-2 text-blue-100 hover:text-white"
+            title="Sign out"
+          >
+            <LogOut size={18} />
+          </button>
+        </div>
+      </header>
+
+      <main className="p-4 space-y-3 max-w-lg mx-auto">
+        {loading ? (
+          <p className="text-center text-gray-500 py-12">Loading...</p>
+        ) : stops.length === 0 ? (
+          <div className="text-center py-16">
+            <CheckCircle size={40} className="mx-auto text-emerald-500 mb-3" />
+            <p className="text-lg font-medium text-gray-700">No deliveries assigned</p>
+            <p className="text-sm text-gray-500">New runs will show up here automatically</p>
+          </div>
+        ) : (
+          stops.map((order) => (
+            <div key={order.id} className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-bold text-gray-900">{order.customer_name}</p>
+                  <p className="text-xs text-gray-500">Order #{order.id.slice(-8)}</p>
+                </div>
+                <span className="text-sm text-gray-600">
+                  {(order.order_items || []).reduce((count, item) => count + item.quantity, 0)} items
+                </span>
+              </div>
+
+              <a
+                href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(order.delivery_address)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-start space-x-2 text-blue-700"
+              >
+                <MapPin size={18} className="shrink-0 mt-0.5" />
+                <span>{order.delivery_address}</span>
+              </a>
+
+              {order.customer_phone && (
+                <a href={`tel:${order.customer_phone}`} className="flex items-center space-x-2 text-blue-700">
+                  <Phone size={18} />
+                  <span>{order.customer_phone}</span>
+                </a>
+              )}
+
+              {order.special_instructions && (
+                <p className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-sm text-yellow-900">
+                  {order.special_instructions}
+                </p>
+              )}
+
+              <button
+                onClick={() => markDelivered(order)}
+                disabled={deliveringId !== null}
+                className="w-full bg-emerald-600 text-white py-3 rounded-lg text-lg font-semibold hover:bg-emerald-700 transition-colors disabled:opacity-50"
+              >
+                {deliveringId === order.id ? 'Saving...' : 'Delivered'}
+              </button>
+            </div>
+          ))
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2, Pencil } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { FulfilmentSlot } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  createFulfilmentSlots,
+  deleteFulfilmentSlot,
+  fetchFulfilmentSlots,
+  FULFILMENT_TYPE_LABELS,
+  saveScheduledSettings,
+  ScheduledOrderSettings,
+  updateSlotCapacity,
+} from '../../lib/scheduled-orders';
+
+interface FulfilmentSlotsDialogProps {
+  open: boolean;
+  settings: ScheduledOrderSettings;
+  onClose: () => void;
+  onSettingsSaved: (settings: ScheduledOrderSettings) => void;
+}
+
+// How far ahead the slot list looks
+const SLOT_WINDOW_DAYS = 14;
+
+const todayValue = () => {
+  const today = new Date();
+  today.setMinutes(today.getMinutes() - today.getTimezoneOffset());
+  return today.toISOString().slice(0, 10);
+};
+
+const EMPTY_SLOT_FORM = {
+  fulfilment_type: 'delivery' as FulfilmentSlot['fulfilment_type'],
+  date: todayValue(),
+  start: '12:00',
+  end: '12:30',
+  capacity: '10',
+  repeatDays: '0',
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+export const FulfilmentSlotsDialog = ({ open, settings, onClose, onSettingsSaved }: FulfilmentSlotsDialogProps) => {
+  const [slots, setSlots] = useState<FulfilmentSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_SLOT_FORM);
+  const [leadDraft, setLeadDraft] = useState(String(settings.kitchen_lead_minutes));
+  const { addNotification } = useNotification();
+
+  const loadSlots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = new Date();
+      const to = new Date(from.getTime() + SLOT_WINDOW_DAYS * 24 * 60 * 60000);
+      setSlots(await fetchFulfilmentSlots(from, to));
+    } catch (error) {
+      console.error('Error fetching fulfilment slots:', error);
+      addNotification('Failed to load slots', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    if (!open) return;
+    setLeadDraft(String(settings.kitchen_lead_minutes));
+    setForm({ ...EMPTY_SLOT_FORM, date: todayValue() });
+    loadSlots();
+  }, [open]);
+
+  const handleSaveLeadTime = async () => {
+    const minutes = parseInt(leadDraft, 10);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      addNotification('Lead time must be whole minutes', 'error');
+      return;
+    }
+
+    try {
+      const next = { ...settings, kitchen_lead_minutes: minutes };
+      await saveScheduledSettings(next);
+      onSettingsSaved(next);
+      addNotification('Kitchen lead time saved', 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save lead time',
+        'error'
+      );
+    }
+  };
+
+  const handleAddSlot = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startsAt = new Date(`${form.date}T${form.start}`);
+    const endsAt = new Date(`${form.date}T${form.end}`);
+    const capacity = parseInt(form.capacity, 10);
+    const repeatDays = parseInt(form.repeatDays, 10) || 0;
+
+    if (Number.isNaN(startsAt.getTime()) || endsAt <= startsAt) {
+      addNotification('The slot must end after it starts', 'error');
+      return;
+    }
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      addNotification('Capacity must be at least 1', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createFulfilmentSlots({
+        fulfilment_type: form.fulfilment_type,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        capacity,
+      }, Math.max(0, repeatDays));
+      addNotification(repeatDays > 0 ? `${repeatDays + 1} slots added` : 'Slot added', 'success');
+      await loadSlots();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to add slot',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditCapacity = async (slot: FulfilmentSlot) => {
+    const input = prompt('Places in this slot:', String(slot.capacity));
+    if (input === null) return;
+
+    const capacity = parseInt(input, 10);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      addNotification('Capacity must be at least 1', 'error');
+      return;
+    }
+
+    try {
+      await updateSlotCapacity(slot.id, capacity);
+      await loadSlots();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to update slot',
+        'error'
+      );
+    }
+  };
+
+  const handleDelete = async (slot: FulfilmentSlot) => {
+    if (!confirm(`Delete the ${formatTime(slot.starts_at)} ${FULFILMENT_TYPE_LABELS[slot.fulfilment_type].toLowerCase()} slot?`)) return;
+
+    try {
+      await deleteFulfilmentSlot(slot.id);
+      await loadSlots();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to delete slot',
+        'error'
+      );
+    }
+  };
+
+  // Group by local day for display
+  const slotsByDay = slots.reduce<Record<string, FulfilmentSlot[]>>((groups, slot) => {
+    const day = new Date(slot.starts_at).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+    (groups[day] = groups[day] || []).push(slot);
+    return groups;
+  }, {});
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pre-order slots</DialogTitle>
+          <DialogDescription>
+            Time windows customers can book ahead, each with a limited number of orders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end space-x-2 text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1">Send pre-orders to the kitchen (minutes before slot)</label>
+            <input
+              type="number"
+              min={0}
+              value={leadDraft}
+              onChange={(e) => setLeadDraft(e.target.value)}
+              className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleSaveLeadTime}
+            className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+          >
+            Save
+          </button>
+        </div>
+
+        <form onSubmit={handleAddSlot} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end text-sm border-t border-gray-100 pt-4">
+          <div>
+            <label className="block text-gray-700 mb-1">Type</label>
+            <select
+              value={form.fulfilment_type}
+              onChange={(e) => setForm(prev => ({ ...prev, fulfilment_type: e.target.value as FulfilmentSlot['fulfilment_type'] }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+            >
+              {(Object.keys(FULFILMENT_TYPE_LABELS) as FulfilmentSlot['fulfilment_type'][]).map((type) => (
+                <option key={type} value={type}>{FULFILMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">From</label>
+            <input
+              type="time"
+              value={form.start}
+              onChange={(e) => setForm(prev => ({ ...prev, start: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">To</label>
+            <input
+              type="time"
+              value={form.end}
+              onChange={(e) => setForm(prev => ({ ...prev, end: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Capacity</label>
+            <input
+              type="number"
+              min={1}
+              value={form.capacity}
+              onChange={(e) => setForm(prev => ({ ...prev, capacity: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Repeat days</label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={form.repeatDays}
+              onChange={(e) => setForm(prev => ({ ...prev, repeatDays: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="col-span-2 md:col-span-6 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Adding...' : 'Add slot'}
+          </button>
+        </form>
+
+        <div className="border-t border-gray-100 pt-4 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading slots...</p>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-gray-500">No slots in the next {SLOT_WINDOW_DAYS} days</p>
+          ) : (
+            Object.entries(slotsByDay).map(([day, daySlots]) => (
+              <div key={day}>
+                <p className="text-sm font-semibold text-gray-900 mb-2">{day}</p>
+                <ul className="space-y-1">
+                  {daySlots.map((slot) => {
+                    const booked = slot.booked || 0;
+                    return (
+                      <li key={slot.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                        <span className="text-gray-900">
+                          {formatTime(slot.starts_at)} – {formatTime(slot.ends_at)}
+                          <span className="ml-2 text-gray-500">{FULFILMENT_TYPE_LABELS[slot.fulfilment_type]}</span>
+                        </span>
+                        <span className="flex items-center space-x-3">
+                          <span className={booked >= slot.capacity ? 'font-semibold text-red-600' : 'text-gray-600'}>
+                            {booked}/{slot.capacity} booked
+                          </span>
+                          <button
+                            onClick={() => handleEditCapacity(slot)}
+                            className="text-gray-400 hover:text-gray-700"
+                            title="Change capacity"
+                          >
+                            <Pencil size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(slot)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Delete slot"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Maximize, Clock, ChefHat, CalendarClock, ShieldAlert } from 'lucide-react';
+import { supabase, Order, OrderItem } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { getNextStatus, canTransition, updateOrderStatus } from '../../lib/order-status';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+import {
+  DEFAULT_SCHEDULED_SETTINGS,
+  getKitchenReleaseTime,
+  getScheduledSettings,
+  isInKitchenWindow,
+  ScheduledOrderSettings,
+} from '../../lib/scheduled-orders';
+import { isHeldForReview } from '../../lib/order-review';
+import { AllergenWarning } from './MenuTagBadges';
+
+type KitchenStatus = 'pending' | 'confirmed' | 'preparing' | 'ready';
+
+const KDS_COLUMNS: Array<{ status: KitchenStatus; label: string; nextLabel: string; accent: string }> = [
+  { status: 'pending', label: 'New', nextLabel: 'Confirm', accent: 'border-amber-400' },
+  { status: 'confirmed', label: 'Confirmed', nextLabel: 'Start', accent: 'border-blue-400' },
+  { status: 'preparing', label: 'Preparing', nextLabel: 'Ready', accent: 'border-orange-400' },
+  { status: 'ready', label: 'Ready', nextLabel: 'Hand off', accent: 'border-purple-400' },
+];
+
+const KITCHEN_STATUSES = KDS_COLUMNS.map(column => column.status) as Order['status'][];
+
+// Ticket age thresholds in minutes
+const AGE_WARNING_MINUTES = 10;
+const AGE_CRITICAL_MINUTES = 20;
+
+const getAgeMinutes = (createdAt: string, now: number) =>
+  Math.max(0, Math.floor((now - new Date(createdAt).getTime()) / 60000));
+
+const getAgeColor = (minutes: number) => {
+  if (minutes >= AGE_CRITICAL_MINUTES) return 'bg-red-600 text-white';
+  if (minutes >= AGE_WARNING_MINUTES) return 'bg-amber-500 text-gray-900';
+  return 'bg-emerald-600 text-white';
+};
+
+export const KitchenDisplay = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [bumpingId, setBumpingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [scheduledSettings, setScheduledSettings] = useState<ScheduledOrderSettings>(DEFAULT_SCHEDULED_SETTINGS);
+  const navigate = useNavigate();
+  const { addNotification } = useNotification();
+  const { userProfile } = useAuth();
+  const mountedRef = useRef(true);
+  const ordersRef = useRef<Order[]>([]);
+  const isFetchingRef = useRef(false);
+  const addNotificationRef = useRef(addNotification);
+  const channelRef = useRef<OrdersChannel | null>(null);
+  const itemsChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+
+  // Keep notification ref updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+  }, [addNotification]);
+
+  useEffect(() => {
+    ordersRef.current = orders;
+  }, [orders]);
+
+  useEffect(() => {
+    getScheduledSettings()
+      .then(setScheduledSettings)
+      .catch(error => console.error('Error loading pre-order settings:', error));
+  }, []);
+
+  // Tick the age timers (and release pre-orders as their lead time arrives)
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setNow(Date.now());
+    }, 15000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchOrderItems = useCallback(async (orderId: string) => {
+    const { data, error } = await supabase
+      .from('order_items')
+      .select('*')
+      .eq('order_id', orderId);
+
+    if (error) {
+      console.error('Error fetching order items:', error);
+      return;
+    }
+
+    if (mountedRef.current) {
+      setOrders(prev => prev.map(order =>
+        order.id === orderId ? { ...order, order_items: data || [] } : order
+      ));
+    }
+  }, []);
+
+  const fetchKitchenOrders = useCallback(async () => {
+    if (isFetchingRef.current || !mountedRef.current) return;
+
+    isFetchingRef.current = true;
+
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .in('status', KITCHEN_STATUSES)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      if (mountedRef.current) {
+        setOrders(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      if (mountedRef.current) {
+        addNotificationRef.current('Failed to fetch kitchen orders', 'error');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+      isFetchingRef.current = false;
+    }
+  }, []); // No dependencies - stable function
+
+  useEffect(() => {
+    mountedRef.current = true;
+    fetchKitchenOrders();
+
+    // Only create channels if they don't exist
+    if (!channelRef.current) {
+      channelRef.current = subscribeToOrderChanges('KitchenDisplay', {
+        onInsert: (order) => {
+          if (!mountedRef.current || !KITCHEN_STATUSES.includes(order.status)) return;
+          setOrders(prev => [...prev, { ...order, order_items: [] }]);
+          fetchOrderItems(order.id);
+        },
+        onUpdate: (order) => {
+          if (!mountedRef.current) return;
+          if (!KITCHEN_STATUSES.includes(order.status)) {
+            setOrders(prev => prev.filter(existing => existing.id !== order.id));
+            return;
+          }
+          const isNew = !ordersRef.current.some(existing => existing.id === order.id);
+          setOrders(prev => {
+            const existing = prev.find(o => o.id === order.id);
+            if (!existing) {
+              return [...prev, { ...order, order_items: [] }]
+                .sort((a, b) => a.created_at.localeCompare(b.created_at));
+            }
+            // Realtime payloads don't carry the joined order_items
+            return prev.map(o => o.id === order.id ? { ...order, order_items: existing.order_items } : o);
+          });
+          if (isNew) {
+            fetchOrderItems(order.id);
+          }
+        },
+        onDelete: (orderId) => {
+          if (mountedRef.current) {
+            setOrders(prev => prev.filter(order => order.id !== orderId));
+          }
+        },
+      });
+    }
+
+    // Line items are usually written right after the order row
+    if (!itemsChannelRef.current) {
+      itemsChannelRef.current = supabase
+        .channel(`kds-order-items-${Date.now()}`)
+        .on('postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'order_items' },
+          (payload) => {
+            const item = payload.new as OrderItem;
+            if (mountedRef.current) {
+              setOrders(prev => prev.map(order =>
+                order.id === item.order_id && !order.order_items?.some(i => i.id === item.id)
+                  ? { ...order, order_items: [...(order.order_items || []), item] }
+                  : order
+              ));
+            }
+          }
+        )
+        .subscribe((status) => {
+          console.log('KitchenDisplay items channel status:', status);
+        });
+    }
+
+    return () => {
+      console.log('KitchenDisplay: Cleaning up');
+      mountedRef.current = false;
+
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+      if (itemsChannelRef.current) {
+        itemsChannelRef.current.unsubscribe();
+        itemsChannelRef.current = null;
+      }
+    };
+  }, []); // Empty dependencies - only run once
+
+  const bumpOrder = useCallback(async (order: Order) => {
+    const next = getNextStatus(order.status);
+    if (!next || bumpingId) return;
+
+    if (!canTransition(order.status, next, userProfile?.role)) {
+      addNotificationRef.current('You are not allowed to bump this ticket', 'error');
+      return;
+    }
+
+    setBumpingId(order.id);
+    try {
+      await updateOrderStatus(order.id, next);
+      // Real-time subscription will move the ticket automatically
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to bump order',
+        'error'
+      );
+    } finally {
+      setBumpingId(null);
+    }
+  }, [bumpingId, userProfile?.role]);
+
+  // Orders held for review stay off the board until cleared, and pre-orders until the lead time before their slot
+  const reviewCount = orders.filter(isHeldForReview).length;
+  const releasedOrders = orders.filter(order => !isHeldForReview(order) && isInKitchenWindow(order, scheduledSettings, now));
+  const heldCount = orders.length - reviewCount - releasedOrders.length;
+
+  // Tickets in on-screen order, used for the number-key shortcuts
+  const visibleTickets = KDS_COLUMNS.flatMap(column =>
+    releasedOrders.filter(order => order.status === column.status)
+  );
+
+  // Number keys 1-9 bump the matching ticket
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const index = parseInt(e.key, 10);
+      if (Number.isNaN(index) || index < 1) return;
+      const order = visibleTickets[index - 1];
+      if (order) {
+        e.preventDefault();
+        bumpOrder(order);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [visibleTickets, bumpOrder]);
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch((error) => {
+      console.error('Fullscreen error:', error);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <header className="h-14 px-4 flex items-center justify-between border-b border-gray-700">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate('/admin')}
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-800"
+            title="Back to dashboard"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <ChefHat size={22} className="text-amber-400" />
+          <h1 className="text-lg font-bold">Kitchen Display</h1>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-gray-300">
+          <span>{visibleTickets.length} open ticket{visibleTickets.length === 1 ? '' : 's'}</span>
+          {heldCount > 0 && (
+            <span className="flex items-center space-x-1 text-indigo-300">
+              <CalendarClock size={14} />
+              <span>{heldCount} scheduled later</span>
+            </span>
+          )}
+          {reviewCount > 0 && (
+            <span className="flex items-center space-x-1 text-orange-300">
+              <ShieldAlert size={14} />
+              <span>{reviewCount} held for review</span>
+            </span>
+          )}
+          <span className="hidden md:inline">Tap a ticket or press its number to bump</span>
+          <button
+            onClick={enterFullscreen}
+            className="p-2 rounded-lg hover:bg-gray-800"
+            title="Full screen"
+          >
+            <Maximize size={18} />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3 p-3 overflow-hidden">
+        {KDS_COLUMNS.map((column) => {
+          const tickets = releasedOrders.filter(order => order.status === column.status);
+          return (
+            <section key={column.status} className="flex flex-col min-h-0 bg-gray-800 rounded-xl">
+              <div className={`px-4 py-3 border-b-4 ${column.accent} flex items-center justify-between`}>
+                <h2 className="text-base font-bold uppercase tracking-wide">{column.label}</h2>
+                <span className="bg-gray-700 text-sm font-semibold px-2 py-0.5 rounded-full">{tickets.length}</span>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                {tickets.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8 text-sm">No tickets</p>
+                ) : (
+                  tickets.map((order) => {
+                    const ticketNumber = visibleTickets.indexOf(order) + 1;
+                    // Pre-orders age from when they reached the kitchen, not from when they were placed
+                    const release = getKitchenReleaseTime(order, scheduledSettings);
+                    const ageMinutes = getAgeMinutes(release ? release.toISOString() : order.created_at, now);
+                    return (
+                      <button
+                        key={order.id}
+                        onClick={() => bumpOrder(order)}
+                        disabled={bumpingId === order.id}
+                        className="w-full text-left bg-white text-gray-900 rounded-lg shadow overflow-hidden transition-transform active:scale-[0.98] disabled:opacity-60 focus:outline-none focus:ring-4 focus:ring-amber-400"
+                      >
+                        <div className="flex items-center justify-between px-3 py-2 bg-gray-100">
+                          <div className="flex items-center space-x-2">
+                            {ticketNumber <= 9 && (
+                              <span className="h-6 w-6 rounded bg-gray-900 text-white text-xs font-bold flex items-center justify-center">
+                                {ticketNumber}
+                              </span>
+                            )}
+                            <span className="font-bold">#{order.id.slice(-6)}</span>
+                          </div>
+                          <span className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-bold ${getAgeColor(ageMinutes)}`}>
+                            <Clock size={12} />
+                            <span>{ageMinutes}m</span>
+                          </span>
+                        </div>
+
+                        <div className="px-3 py-2">
+                          <p className="text-sm text-gray-600 mb-2 truncate">{order.customer_name}</p>
+                          {order.scheduled_for && (
+                            <p className="flex items-center space-x-1 text-sm font-bold text-indigo-700 mb-2">
+                              <CalendarClock size={14} />
+                              <span>
+                                Due {new Date(order.scheduled_for).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                              </span>
+                            </p>
+                          )}
+                          {order.order_items && order.order_items.length > 0 ? (
+                            <ul className="space-y-1">
+                              {order.order_items.map((item) => (
+                                <li
+                                  key={item.id}
+                                  className={`flex text-base font-semibold ${
+                                    item.allergens?.length ? 'bg-amber-50 border-l-4 border-amber-500 rounded-r pl-1' : ''
+                                  }`}
+                                >
+                                  <span className="w-8 shrink-0">{item.quantity}×</span>
+                                  <span>
+                                    {item.item_name}
+                                    {(item.modifiers || []).map((modifier) => (
+                                      <span key={modifier.option_id} className="block text-sm font-medium text-gray-600">
+                                        + {modifier.option_name}
+                                      </span>
+                                    ))}
+                                    {item.allergens?.length ? (
+                                      <span className="block">
+                                        <AllergenWarning allergens={item.allergens} />
+                                      </span>
+                                    ) : null}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-gray-400 italic">Loading items...</p>
+                          )}
+                          {order.special_instructions && (
+                            <p className="mt-2 text-sm font-medium bg-yellow-100 text-yellow-900 rounded px-2 py-1">
+                              {order.special_instructions}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="px-3 py-2 border-t border-gray-200 text-center text-sm font-bold uppercase text-gray-700">
+                          {column.nextLabel} →
+                        </div>
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
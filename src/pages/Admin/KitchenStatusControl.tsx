@@ -0,0 +1,247 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChefHat } from 'lucide-react';
+import { KitchenStatus, KitchenStatusChange } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  DEFAULT_KITCHEN_STATUS,
+  fetchActiveKitchenOrderCount,
+  fetchKitchenStatus,
+  fetchKitchenStatusLog,
+  KitchenMode,
+  KitchenStatusChannel,
+  KITCHEN_MODE_LABELS,
+  saveKitchenIntakeSettings,
+  setKitchenMode,
+  subscribeToKitchenStatus,
+} from '../../lib/kitchen-status';
+
+const AUTO_PAUSE_KEY = 'kitchen-auto-paused';
+
+const MODE_STYLES: Record<KitchenMode, string> = {
+  accepting: 'bg-emerald-100 text-emerald-800 hover:bg-emerald-200',
+  busy: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  paused: 'bg-red-100 text-red-800 hover:bg-red-200',
+};
+
+const MODE_DOTS: Record<KitchenMode, string> = {
+  accepting: 'bg-emerald-500',
+  busy: 'bg-amber-500',
+  paused: 'bg-red-500',
+};
+
+/**
+ * Header control for the kitchen's intake mode, with busy/auto-pause settings
+ * and the recent history of mode changes
+ */
+export const KitchenStatusControl = () => {
+  const [status, setStatus] = useState<KitchenStatus>(DEFAULT_KITCHEN_STATUS);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [busyMinutesDraft, setBusyMinutesDraft] = useState('');
+  const [thresholdDraft, setThresholdDraft] = useState('');
+  const [activeOrders, setActiveOrders] = useState<number | null>(null);
+  const [history, setHistory] = useState<KitchenStatusChange[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { addNotification, dismissNotification } = useNotification();
+  const addNotificationRef = useRef(addNotification);
+  const dismissNotificationRef = useRef(dismissNotification);
+  const channelRef = useRef<KitchenStatusChannel | null>(null);
+
+  // Keep notification refs updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+    dismissNotificationRef.current = dismissNotification;
+  }, [addNotification, dismissNotification]);
+
+  useEffect(() => {
+    fetchKitchenStatus()
+      .then(setStatus)
+      .catch(error => console.error('Error loading kitchen status:', error));
+
+    if (!channelRef.current) {
+      channelRef.current = subscribeToKitchenStatus('kitchen-status', setStatus);
+    }
+
+    return () => {
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, []);
+
+  // Sticky warning for every admin while the kitchen has paused itself
+  useEffect(() => {
+    if (status.mode === 'paused' && status.is_automatic) {
+      addNotificationRef.current(
+        `Online orders auto-paused: ${status.reason || 'kitchen over capacity'}`,
+        'warning',
+        { duration: 0, key: AUTO_PAUSE_KEY }
+      );
+    } else {
+      dismissNotificationRef.current(AUTO_PAUSE_KEY);
+    }
+  }, [status.mode, status.is_automatic, status.reason]);
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    setBusyMinutesDraft(String(status.busy_extra_minutes));
+    setThresholdDraft(status.auto_pause_threshold ? String(status.auto_pause_threshold) : '');
+
+    fetchActiveKitchenOrderCount()
+      .then(setActiveOrders)
+      .catch(error => console.error('Error counting active orders:', error));
+    fetchKitchenStatusLog(5)
+      .then(setHistory)
+      .catch(error => console.error('Error loading kitchen status history:', error));
+  }, [menuOpen, status]);
+
+  const handleSetMode = async (mode: KitchenMode) => {
+    if (saving || (mode === status.mode && !status.is_automatic)) return;
+
+    setSaving(true);
+    try {
+      setStatus(await setKitchenMode(mode, reason));
+      setReason('');
+      addNotification(`Kitchen set to ${KITCHEN_MODE_LABELS[mode].toLowerCase()}`, 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to change kitchen status',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const busyMinutes = parseInt(busyMinutesDraft, 10);
+    const threshold = thresholdDraft.trim() ? parseInt(thresholdDraft, 10) : null;
+
+    if (!Number.isInteger(busyMinutes) || busyMinutes < 0) {
+      addNotification('Busy ETA extension must be 0 minutes or more', 'error');
+      return;
+    }
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 1)) {
+      addNotification('Auto-pause threshold must be at least 1 order, or blank to turn it off', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setStatus(await saveKitchenIntakeSettings(busyMinutes, threshold));
+      addNotification('Kitchen settings saved', 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save kitchen settings',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setMenuOpen(open => !open)}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium ${MODE_STYLES[status.mode]}`}
+        title="Kitchen status"
+      >
+        <ChefHat size={18} />
+        <span className="hidden md:inline">{KITCHEN_MODE_LABELS[status.mode]}</span>
+        <span className={`h-2 w-2 rounded-full ${MODE_DOTS[status.mode]}`} />
+      </button>
+
+      {menuOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg p-4 space-y-3 text-sm z-30">
+          <div>
+            <p className="font-semibold text-gray-900">Kitchen status</p>
+            {status.reason && (
+              <p className="text-xs text-gray-500">
+                {status.is_automatic ? 'Auto-paused: ' : ''}{status.reason}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(KITCHEN_MODE_LABELS) as KitchenMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => handleSetMode(mode)}
+                disabled={saving}
+                className={`px-2 py-2 rounded-lg font-medium border disabled:opacity-50 ${
+                  status.mode === mode ? `${MODE_STYLES[mode]} border-transparent` : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {mode === 'accepting' ? 'Accepting' : KITCHEN_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            placeholder="Reason (optional, saved with the change)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500">
+            Busy adds {status.busy_extra_minutes} min to quoted ETAs. Paused rejects new online orders.
+          </p>
+
+          <div className="border-t border-gray-100 pt-3 space-y-2">
+            <p className="text-gray-700">
+              {activeOrders === null ? 'Counting active orders...' : `${activeOrders} order${activeOrders === 1 ? '' : 's'} pending or preparing`}
+            </p>
+            <label className="flex items-center justify-between text-gray-700">
+              <span>Busy ETA extension (min)</span>
+              <input
+                type="number"
+                min={0}
+                value={busyMinutesDraft}
+                onChange={(e) => setBusyMinutesDraft(e.target.value)}
+                className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center justify-between text-gray-700">
+              <span>Auto-pause above (orders)</span>
+              <input
+                type="number"
+                min={1}
+                placeholder="Off"
+                value={thresholdDraft}
+                onChange={(e) => setThresholdDraft(e.target.value)}
+                className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <button
+              onClick={handleSaveSettings}
+              disabled={saving}
+              className="w-full px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save settings
+            </button>
+          </div>
+
+          {history.length > 0 && (
+            <div className="border-t border-gray-100 pt-3">
+              <p className="font-medium text-gray-700 mb-1">Recent changes</p>
+              <ul className="space-y-1">
+                {history.map((change) => (
+                  <li key={change.id} className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-900">{KITCHEN_MODE_LABELS[change.to_mode]}</span>
+                    {' • '}
+                    {change.is_automatic ? 'Automatic' : change.actor?.full_name || change.actor?.email || 'Unknown admin'}
+                    {' • '}
+                    {new Date(change.created_at).toLocaleString()}
+                    {change.reason && <span className="block text-gray-500">{change.reason}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
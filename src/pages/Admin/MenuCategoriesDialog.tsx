@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { MenuCategory } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  deleteMenuCategory,
+  formatCategoryTime,
+  formatCategoryWindow,
+  MenuCategoryInput,
+  saveMenuCategory,
+  sortCategories,
+  swapCategoryOrder,
+  toCategorySlug,
+} from '../../lib/menu-categories';
+
+interface MenuCategoriesDialogProps {
+  open: boolean;
+  categories: MenuCategory[];
+  // Menu items per category slug
+  itemCounts: Record<string, number>;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Form values as typed
+interface CategoryForm {
+  name: string;
+  is_active: boolean;
+  all_day: boolean;
+  available_from: string;
+  available_until: string;
+}
+
+const EMPTY_CATEGORY_FORM: CategoryForm = {
+  name: '',
+  is_active: true,
+  all_day: true,
+  available_from: '',
+  available_until: '',
+};
+
+const toCategoryForm = (category: MenuCategory): CategoryForm => ({
+  name: category.name,
+  is_active: category.is_active,
+  all_day: !category.available_from,
+  available_from: category.available_from ? formatCategoryTime(category.available_from) : '',
+  available_until: category.available_until ? formatCategoryTime(category.available_until) : '',
+});
+
+export const MenuCategoriesDialog = ({ open, categories, itemCounts, onClose, onChanged }: MenuCategoriesDialogProps) => {
+  const [form, setForm] = useState<CategoryForm | null>(null);
+  // Slug of the category being edited; null while adding one
+  const [editingSlug, setEditingSlug] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = useNotification();
+
+  const sorted = sortCategories(categories);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(null);
+    setEditingSlug(null);
+  }, [open]);
+
+  /**
+   * Validates the form into a category row, throwing with a message for the first bad field
+   */
+  const toCategoryInput = (values: CategoryForm): MenuCategoryInput => {
+    const name = values.name.trim();
+    const existing = editingSlug ? categories.find(category => category.slug === editingSlug) : null;
+    const slug = existing ? existing.slug : toCategorySlug(name);
+
+    if (!name) throw new Error('Category name is required');
+    if (!slug) throw new Error('Category name needs at least one letter or number');
+    if (!values.all_day) {
+      if (!values.available_from || !values.available_until) throw new Error('Set both ends of the time window');
+      if (values.available_from === values.available_until) throw new Error('The time window must not start and end at the same time');
+    }
+
+    return {
+      slug,
+      name,
+      sort_order: existing
+        ? existing.sort_order
+        : categories.reduce((max, category) => Math.max(max, category.sort_order), 0) + 1,
+      is_active: values.is_active,
+      available_from: values.all_day ? null : values.available_from,
+      available_until: values.all_day ? null : values.available_until,
+    };
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || saving) return;
+
+    setSaving(true);
+    try {
+      await saveMenuCategory(toCategoryInput(form), !editingSlug);
+      addNotification(editingSlug ? 'Category updated' : 'Category added', 'success');
+      setForm(null);
+      setEditingSlug(null);
+      onChanged();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save category',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const neighbour = sorted[index + direction];
+    if (!neighbour || saving) return;
+
+    setSaving(true);
+    try {
+      // The category further up is always passed first
+      await (direction === -1
+        ? swapCategoryOrder(neighbour, sorted[index])
+        : swapCategoryOrder(sorted[index], neighbour));
+      onChanged();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to reorder categories',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: MenuCategory) => {
+    if (!confirm(`Delete the "${category.name}" category?`)) return;
+
+    try {
+      await deleteMenuCategory(category.slug);
+      onChanged();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to delete category',
+        'error'
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Menu categories</DialogTitle>
+          <DialogDescription>
+            Categories are listed in this order on the menu. Inactive categories are hidden from customers, and a time window limits when a category is served.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sorted.length === 0 ? (
+            <p className="text-sm text-gray-500">No categories yet</p>
+          ) : (
+            sorted.map((category, index) => (
+              <div key={category.slug} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                <div>
+                  <p className={`font-medium ${category.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>{category.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatCategoryWindow(category)} • {itemCounts[category.slug] || 0} items
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0 || saving}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === sorted.length - 1 || saving}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setForm(toCategoryForm(category));
+                      setEditingSlug(category.slug);
+                    }}
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Edit category"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(category)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete category"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {!form && (
+            <button
+              onClick={() => {
+                setForm(EMPTY_CATEGORY_FORM);
+                setEditingSlug(null);
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              + Add category
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <form onSubmit={handleSave} className="space-y-2 text-sm border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Display name, e.g. Desserts"
+                value={form.name}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, name: e.target.value }))}
+                className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg"
+                required
+              />
+              <label className="flex items-center space-x-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm(prev => prev && ({ ...prev, is_active: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+            {!editingSlug && form.name.trim() && (
+              <p className="text-xs text-gray-500">Key: <span className="font-mono">{toCategorySlug(form.name)}</span> (fixed once saved)</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-gray-700">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={form.all_day}
+                  onChange={(e) => setForm(prev => prev && ({ ...prev, all_day: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>All day</span>
+              </label>
+              {!form.all_day && (
+                <>
+                  <input
+                    type="time"
+                    value={form.available_from}
+                    onChange={(e) => setForm(prev => prev && ({ ...prev, available_from: e.target.value }))}
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                  <span>to</span>
+                  <input
+                    type="time"
+                    value={form.available_until}
+                    onChange={(e) => setForm(prev => prev && ({ ...prev, available_until: e.target.value }))}
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setForm(null);
+                  setEditingSlug(null);
+                }}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
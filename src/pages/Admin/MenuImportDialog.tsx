@@ -0,0 +1,279 @@
+import { useState, useEffect, useRef } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { MenuItem } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { formatCurrency } from '../../lib/order-totals';
+import {
+  applyMenuImport,
+  buildImportPreview,
+  exportMenu,
+  ImportPreviewRow,
+  ImportRowStatus,
+  MenuFileFormat,
+  parseMenuFile,
+} from '../../lib/menu-transfer';
+
+interface MenuImportDialogProps {
+  open: boolean;
+  // The current menu, to compare the file against
+  menuItems: MenuItem[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  invalid: 'Invalid',
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  changed: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const STATUSES: ImportRowStatus[] = ['new', 'changed', 'unchanged', 'invalid'];
+
+export const MenuImportDialog = ({ open, menuItems, onClose, onImported }: MenuImportDialogProps) => {
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | ''>('');
+  const [copyImages, setCopyImages] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setPreview(null);
+    setStatusFilter('');
+    setProgress('');
+  }, [open]);
+
+  const handleExport = async (format: MenuFileFormat) => {
+    if (busy) return;
+
+    setBusy(true);
+    try {
+      const count = await exportMenu(format);
+      addNotification(`Exported ${count} menu items`, 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to export menu',
+        'error'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseMenuFile(file.name, await file.text());
+      if (rows.length === 0) {
+        throw new Error('The file has no menu items');
+      }
+      setFileName(file.name);
+      setPreview(buildImportPreview(rows, menuItems));
+      setStatusFilter('');
+    } catch (error: unknown) {
+      setFileName('');
+      setPreview(null);
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to read file',
+        'error'
+      );
+    }
+  };
+
+  const counts = STATUSES.reduce((acc, status) => {
+    acc[status] = (preview || []).filter(row => row.status === status).length;
+    return acc;
+  }, {} as Record<ImportRowStatus, number>);
+  const changeCount = counts.new + counts.changed;
+
+  const handleApply = async () => {
+    if (!preview || busy || changeCount === 0) return;
+    if (counts.invalid > 0
+      && !confirm(`${counts.invalid} invalid row(s) will be skipped. Import the other ${changeCount} change(s)?`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await applyMenuImport(preview, { copyImages }, setProgress);
+      addNotification(
+        `Imported menu: ${result.inserted} added, ${result.updated} updated`
+          + (result.categories_created > 0 ? `, ${result.categories_created} new categories` : ''),
+        'success'
+      );
+      if (result.imageFailures.length > 0) {
+        addNotification(
+          `${result.imageFailures.length} image(s) kept their original URL. ${result.imageFailures.join('; ')}`,
+          'warning'
+        );
+      }
+      onImported();
+      onClose();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to import menu',
+        'error'
+      );
+    } finally {
+      setBusy(false);
+      setProgress('');
+    }
+  };
+
+  const visibleRows = (preview || []).filter(row => !statusFilter || row.status === statusFilter);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !busy && onClose()}>
+      <DialogContent className="max-w-3xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export menu</DialogTitle>
+          <DialogDescription>
+            Items are matched by id, or by name when the file has no id. Nothing is saved until you apply the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={busy}
+            className="flex items-center space-x-2 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download size={16} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={busy}
+            className="flex items-center space-x-2 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download size={16} />
+            <span>Export JSON</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center space-x-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Upload size={16} />
+            <span>{fileName ? 'Choose another file' : 'Choose file to import'}</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          {fileName && <span className="text-gray-500">{fileName}</span>}
+        </div>
+
+        {!preview && (
+          <p className="text-xs text-gray-500">
+            Columns: id, name, description, price, category, image_url, is_available, allergens, dietary_tags.
+            In CSV, separate allergens and dietary tags with |. An export is a ready-made template.
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-3 text-sm">
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setStatusFilter('')}
+                className={`px-2.5 py-1 rounded-lg border ${
+                  statusFilter === '' ? 'border-gray-900 text-gray-900' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                All {preview.length}
+              </button>
+              {STATUSES.map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-2.5 py-1 rounded-lg border ${
+                    statusFilter === status ? 'border-gray-900 text-gray-900' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {STATUS_LABELS[status]} {counts[status]}
+                </button>
+              ))}
+            </div>
+
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {visibleRows.length === 0 && <p className="px-3 py-2 text-gray-500">No rows</p>}
+
+              {visibleRows.map((row) => (
+                <div key={row.row} className="px-3 py-2 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      <span className="text-gray-400 font-normal mr-2">#{row.row}</span>
+                      {row.name || '(no name)'}
+                      {row.data && (
+                        <span className="text-gray-500 font-normal">
+                          {' '}• {row.data.category} • {formatCurrency(row.data.price)}
+                        </span>
+                      )}
+                    </p>
+                    {row.status === 'changed' && (
+                      <p className="text-xs text-blue-700">Changes: {row.changes.join(', ')}</p>
+                    )}
+                    {row.errors.map((message, index) => (
+                      <p key={index} className="text-xs text-red-700">{message}</p>
+                    ))}
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                    {STATUS_LABELS[row.status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={copyImages}
+                onChange={(e) => setCopyImages(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Copy images from other sites into our image storage</span>
+            </label>
+
+            <div className="flex items-center justify-end space-x-3">
+              {progress && <span className="text-gray-500">{progress}</span>}
+              <button
+                onClick={onClose}
+                disabled={busy}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={busy || changeCount === 0}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy ? 'Importing...' : changeCount === 0 ? 'Nothing to import' : `Import ${changeCount} change${changeCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,11 +1,78 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Plus, Edit, Trash2, Upload, X, Eye, EyeOff } from 'lucide-react';
-import { supabase, MenuItem } from '../../lib/supabase';
+import { Plus, Edit, Trash2, Upload, X, Eye, EyeOff, Tags, SlidersHorizontal, CalendarClock, ArrowDownUp } from 'lucide-react';
+import {
+  supabase,
+  MenuAvailabilitySchedule,
+  MenuCategory,
+  MenuItem,
+  MenuItemAvailability,
+  ModifierGroup,
+} from '../../lib/supabase';
 import { useNotification } from '../../contexts/NotificationContext';
 import { AdminRouteGuard } from '../../components/AdminRouteGuard';
+import {
+  fetchMenuCategories,
+  formatCategoryWindow,
+  groupItemsByCategory,
+  MenuCategoryChannel,
+  sortCategories,
+  subscribeToMenuCategories,
+} from '../../lib/menu-categories';
+import {
+  describeSelectionRule,
+  fetchItemModifierGroupIds,
+  fetchModifierGroups,
+  getItemModifierGroups,
+  setItemModifierGroups,
+} from '../../lib/menu-modifiers';
+import {
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  DIETARY_TAG_LABELS,
+  DIETARY_TAGS,
+  getDietaryTags,
+  isVegetarianByTags,
+  matchesMenuTagFilter,
+  MenuTagFilter,
+} from '../../lib/menu-tags';
+import {
+  DEFAULT_MENU_AVAILABILITY_SETTINGS,
+  describeAvailability,
+  fetchMenuAvailability,
+  fetchMenuSchedules,
+  formatKitchenTime,
+  formatSchedule,
+  getMenuAvailabilitySettings,
+  hasActiveOverride,
+  MenuScheduleChannel,
+  setAvailabilityOverride,
+  subscribeToMenuSchedules,
+} from '../../lib/menu-availability';
+import { MenuCategoriesDialog } from './MenuCategoriesDialog';
+import { MenuSchedulesDialog, MenuScheduleTarget } from './MenuSchedulesDialog';
+import { MenuImportDialog } from './MenuImportDialog';
+import { ModifierGroupsDialog } from './ModifierGroupsDialog';
+import { ALLERGEN_ICONS, DIETARY_TAG_ICONS, MenuTagBadges } from './MenuTagBadges';
+
+// Availability changes with the clock, so it is refetched this often
+const AVAILABILITY_REFRESH_MS = 60000;
 
 export const MenuManagement = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  // Attached modifier group ids per menu item
+  const [groupIdsByItem, setGroupIdsByItem] = useState<Record<string, string[]>>({});
+  const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([]);
+  const [modifiersOpen, setModifiersOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<MenuTagFilter>('');
+  const [schedules, setSchedules] = useState<MenuAvailabilitySchedule[]>([]);
+  // Effective availability per menu item id, worked out by the database
+  const [availability, setAvailability] = useState<Record<string, MenuItemAvailability>>({});
+  const [timeZone, setTimeZone] = useState(DEFAULT_MENU_AVAILABILITY_SETTINGS.time_zone);
+  const [scheduleTarget, setScheduleTarget] = useState<MenuScheduleTarget | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -18,6 +85,8 @@ export const MenuManagement = () => {
   const isFetchingRef = useRef(false);
   const addNotificationRef = useRef(addNotification);
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const categoriesChannelRef = useRef<MenuCategoryChannel | null>(null);
+  const schedulesChannelRef = useRef<MenuScheduleChannel | null>(null);
 
   // Keep notification ref updated
   useEffect(() => {
@@ -29,8 +98,10 @@ export const MenuManagement = () => {
     description: '',
     price: '',
     image_url: '',
-    category: 'morning' as 'morning' | 'afternoon' | 'dinner',
-    is_vegetarian: false,
+    category: '',
+    allergens: [] as MenuItem['allergens'],
+    dietary_tags: [] as MenuItem['dietary_tags'],
+    is_available: true,
   });
 
   const fetchMenuItems = useCallback(async () => {
@@ -81,6 +152,102 @@ export const MenuManagement = () => {
     }
   }, []); // No dependencies - stable function
 
+  const loadCategories = useCallback(async () => {
+    try {
+      const data = await fetchMenuCategories();
+      if (mountedRef.current) {
+        setCategories(data);
+      }
+    } catch (error) {
+      console.error('Error fetching menu categories:', error);
+      if (mountedRef.current) {
+        addNotificationRef.current('Failed to load menu categories', 'error');
+      }
+    }
+  }, []);
+
+  const loadModifiers = useCallback(async () => {
+    try {
+      const [groups, links] = await Promise.all([fetchModifierGroups(), fetchItemModifierGroupIds()]);
+      if (mountedRef.current) {
+        setModifierGroups(groups);
+        setGroupIdsByItem(links);
+      }
+    } catch (error) {
+      console.error('Error fetching modifier groups:', error);
+      if (mountedRef.current) {
+        addNotificationRef.current('Failed to load modifier groups', 'error');
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    loadModifiers();
+  }, [loadModifiers]);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const [loadedSchedules, settings] = await Promise.all([fetchMenuSchedules(), getMenuAvailabilitySettings()]);
+      if (mountedRef.current) {
+        setSchedules(loadedSchedules);
+        setTimeZone(settings.time_zone);
+      }
+    } catch (error) {
+      console.error('Error fetching menu schedules:', error);
+      if (mountedRef.current) {
+        addNotificationRef.current('Failed to load availability schedules', 'error');
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+
+    if (!schedulesChannelRef.current) {
+      schedulesChannelRef.current = subscribeToMenuSchedules('menu-schedules', loadSchedules);
+    }
+
+    return () => {
+      if (schedulesChannelRef.current) {
+        schedulesChannelRef.current.unsubscribe();
+        schedulesChannelRef.current = null;
+      }
+    };
+  }, [loadSchedules]);
+
+  // Recomputed whenever anything it depends on changes, and every minute as time passes
+  useEffect(() => {
+    const refreshAvailability = async () => {
+      try {
+        const data = await fetchMenuAvailability();
+        if (mountedRef.current) {
+          setAvailability(data);
+        }
+      } catch (error) {
+        console.error('Error fetching menu availability:', error);
+      }
+    };
+
+    refreshAvailability();
+    const timer = setInterval(refreshAvailability, AVAILABILITY_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [menuItems, categories, schedules, timeZone]);
+
+  useEffect(() => {
+    loadCategories();
+
+    if (!categoriesChannelRef.current) {
+      categoriesChannelRef.current = subscribeToMenuCategories('menu-categories', loadCategories);
+    }
+
+    return () => {
+      if (categoriesChannelRef.current) {
+        categoriesChannelRef.current.unsubscribe();
+        categoriesChannelRef.current = null;
+      }
+    };
+  }, [loadCategories]);
+
   useEffect(() => {
     mountedRef.current = true;
     fetchMenuItems();
@@ -197,6 +364,10 @@ export const MenuManagement = () => {
     setActionLoading(true);
 
     try {
+      if (!formData.category) {
+        throw new Error('Choose a category, or add one under Categories');
+      }
+
       let imageUrl = formData.image_url;
 
       if (imageFile) {
@@ -210,8 +381,10 @@ export const MenuManagement = () => {
         price: parseFloat(formData.price),
         image_url: imageUrl,
         category: formData.category,
-        is_vegetarian: formData.is_vegetarian,
-        is_available: true,
+        allergens: formData.allergens,
+        dietary_tags: formData.dietary_tags,
+        is_vegetarian: isVegetarianByTags(formData.dietary_tags),
+        is_available: formData.is_available,
       };
 
       if (editingId) {
@@ -220,14 +393,19 @@ export const MenuManagement = () => {
           .update(data)
           .eq('id', editingId);
         if (error) throw error;
+        await setItemModifierGroups(editingId, selectedGroupIds);
         addNotificationRef.current('Menu item updated successfully', 'success');
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('menu_items')
-          .insert([data]);
+          .insert([data])
+          .select('id')
+          .single();
         if (error) throw error;
+        await setItemModifierGroups(inserted.id, selectedGroupIds);
         addNotificationRef.current('Menu item added successfully', 'success');
       }
+      await loadModifiers();
 
       resetForm();
       // Real-time subscription will update the list automatically
@@ -271,9 +449,12 @@ export const MenuManagement = () => {
       price: item.price.toString(),
       image_url: item.image_url,
       category: item.category,
-      is_vegetarian: item.is_vegetarian,
+      allergens: item.allergens || [],
+      dietary_tags: getDietaryTags(item),
+      is_available: item.is_available,
     });
     setImagePreview(item.image_url);
+    setSelectedGroupIds(groupIdsByItem[item.id] || []);
     setEditingId(item.id);
     setShowAddForm(true);
   };
@@ -302,18 +483,21 @@ export const MenuManagement = () => {
     }
   };
 
-  const toggleAvailability = async (id: string, currentStatus: boolean) => {
+  /**
+   * Overrides the schedules until the end of the day; toggling an overridden
+   * item hands it back to its schedules
+   */
+  const toggleAvailability = async (item: MenuItem) => {
     if (actionLoading) return;
     
     setActionLoading(true);
     try {
-      const { error } = await supabase
-        .from('menu_items')
-        .update({ is_available: !currentStatus })
-        .eq('id', id);
-
-      if (error) throw error;
-      addNotificationRef.current('Item availability updated', 'success');
+      const isAvailableNow = availability[item.id]?.is_available_now ?? item.is_available;
+      await setAvailabilityOverride(item.id, hasActiveOverride(item) ? null : !isAvailableNow);
+      addNotificationRef.current(
+        hasActiveOverride(item) ? 'Item is back on its schedule' : 'Item availability overridden until the end of the day',
+        'success'
+      );
       // Real-time subscription will update the list automatically
     } catch (error: unknown) {
       addNotificationRef.current(
@@ -331,11 +515,14 @@ export const MenuManagement = () => {
       description: '',
       price: '',
       image_url: '',
-      category: 'morning',
-      is_vegetarian: false,
+      category: '',
+      allergens: [],
+      dietary_tags: [],
+      is_available: true,
     });
     setImageFile(null);
     setImagePreview('');
+    setSelectedGroupIds([]);
     setEditingId(null);
     setShowAddForm(false);
     if (fileInputRef.current) {
@@ -343,23 +530,85 @@ export const MenuManagement = () => {
     }
   };
 
-  const groupedItems = {
-    morning: menuItems.filter(item => item.category === 'morning'),
-    afternoon: menuItems.filter(item => item.category === 'afternoon'),
-    dinner: menuItems.filter(item => item.category === 'dinner'),
+  const openAddForm = () => {
+    // Start new items in the first active category
+    const firstActive = sortCategories(categories).find(category => category.is_active);
+    setFormData(prev => ({ ...prev, category: prev.category || firstActive?.slug || '' }));
+    setShowAddForm(true);
+  };
+
+  // While filtering, categories with no matching items are hidden
+  const groupedItems = groupItemsByCategory(
+    menuItems.filter(item => matchesMenuTagFilter(item, tagFilter)),
+    categories
+  ).filter(group => !tagFilter || group.items.length > 0);
+
+  const itemCounts: Record<string, number> = {};
+  menuItems.forEach(item => {
+    itemCounts[item.category] = (itemCounts[item.category] || 0) + 1;
+  });
+
+  const modifierItemCounts: Record<string, number> = {};
+  Object.values(groupIdsByItem).forEach(groupIds => {
+    groupIds.forEach(groupId => {
+      modifierItemCounts[groupId] = (modifierItemCounts[groupId] || 0) + 1;
+    });
+  });
+
+  const toggleTag = <K extends 'allergens' | 'dietary_tags'>(field: K, value: MenuItem[K][number]) => {
+    setFormData(prev => {
+      const current = prev[field] as MenuItem[K][number][];
+      return {
+        ...prev,
+        [field]: current.includes(value) ? current.filter(tag => tag !== value) : [...current, value],
+      };
+    });
+  };
+
+  const toggleSelectedGroup = (groupId: string) => {
+    setSelectedGroupIds(prev => prev.includes(groupId)
+      ? prev.filter(id => id !== groupId)
+      : [...prev, groupId]);
   };
 
+  // Inactive categories stay selectable for items already in them
+  const selectableCategories = sortCategories(categories)
+    .filter(category => category.is_active || category.slug === formData.category);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">Menu Management</h2>
-        <button
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700 transition-colors"
-        >
-          <Plus size={20} />
-          <span>Add Item</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setCategoriesOpen(true)}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            <Tags size={20} />
+            <span>Categories</span>
+          </button>
+          <button
+            onClick={() => setModifiersOpen(true)}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            <SlidersHorizontal size={20} />
+            <span>Modifiers</span>
+          </button>
+          <button
+            onClick={() => setImportOpen(true)}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            <ArrowDownUp size={20} />
+            <span>Import / Export</span>
+          </button>
+          <button
+            onClick={openAddForm}
+            className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700 transition-colors"
+          >
+            <Plus size={20} />
+            <span>Add Item</span>
+          </button>
+        </div>
       </div>
 
       {showAddForm && (
@@ -415,29 +664,115 @@ export const MenuManagement = () => {
                 <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
                 <select
                   value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as 'morning' | 'afternoon' | 'dinner' }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  required
                 >
-                  <option value="morning">Morning</option>
-                  <option value="afternoon">Afternoon</option>
-                  <option value="dinner">Dinner</option>
+                  <option value="" disabled>Choose a category</option>
+                  {selectableCategories.map((category) => (
+                    <option key={category.slug} value={category.slug}>
+                      {category.name}{category.is_active ? '' : ' (inactive)'}
+                    </option>
+                  ))}
                 </select>
               </div>
 
-              <div className="flex items-center space-x-2 pt-6">
-                <input
-                  type="checkbox"
-                  id="vegetarian"
-                  checked={formData.is_vegetarian}
-                  onChange={(e) => setFormData(prev => ({ ...prev, is_vegetarian: e.target.checked }))}
-                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
-                />
-                <label htmlFor="vegetarian" className="text-sm font-medium text-gray-700">
-                  Vegetarian
-                </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Dietary tags</label>
+                <div className="flex flex-wrap gap-2">
+                  {DIETARY_TAGS.map((tag) => {
+                    const Icon = DIETARY_TAG_ICONS[tag];
+                    const selected = formData.dietary_tags.includes(tag);
+                    return (
+                      <label
+                        key={tag}
+                        className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+                          selected ? 'border-green-300 bg-green-50 text-green-800' : 'border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selected}
+                          onChange={() => toggleTag('dietary_tags', tag)}
+                          className="sr-only"
+                        />
+                        <Icon size={14} />
+                        <span>{DIETARY_TAG_LABELS[tag]}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Contains allergens</label>
+              <div className="flex flex-wrap gap-2">
+                {ALLERGENS.map((allergen) => {
+                  const Icon = ALLERGEN_ICONS[allergen];
+                  const selected = formData.allergens.includes(allergen);
+                  return (
+                    <label
+                      key={allergen}
+                      className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+                        selected ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        onChange={() => toggleTag('allergens', allergen)}
+                        className="sr-only"
+                      />
+                      {Icon && <Icon size={14} />}
+                      <span>{ALLERGEN_LABELS[allergen]}</span>
+                    </label>
+                  );
+                })}
               </div>
             </div>
 
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="listed"
+                checked={formData.is_available}
+                onChange={(e) => setFormData(prev => ({ ...prev, is_available: e.target.checked }))}
+                className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+              />
+              <label htmlFor="listed" className="text-sm font-medium text-gray-700">
+                Listed on the menu
+              </label>
+              <span className="text-xs text-gray-500">Unticked items are never available, whatever their schedule</span>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Modifier groups</label>
+              {modifierGroups.length === 0 ? (
+                <p className="text-sm text-gray-500">No modifier groups yet; add them under Modifiers</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {modifierGroups.map((group) => (
+                    <label
+                      key={group.id}
+                      className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+                        selectedGroupIds.includes(group.id) ? 'border-red-300 bg-red-50 text-red-800' : 'border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedGroupIds.includes(group.id)}
+                        onChange={() => toggleSelectedGroup(group.id)}
+                        className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                      />
+                      <span>{group.name}</span>
+                      <span className="text-xs text-gray-500">{describeSelectionRule(group)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Image</label>
               <div className="space-y-4">
@@ -481,60 +816,181 @@ export const MenuManagement = () => {
         </div>
       )}
 
-      {Object.entries(groupedItems).map(([category, items]) => (
-        <div key={category} className="bg-white rounded-xl shadow-sm p-6 border">
-          <h3 className="text-lg font-bold text-gray-900 mb-4 capitalize">
-            {category} Menu ({items.length} items)
-          </h3>
+      <div className="flex items-center space-x-3">
+        <label htmlFor="menu-tag-filter" className="text-sm font-medium text-gray-700">Show</label>
+        <select
+          id="menu-tag-filter"
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value as MenuTagFilter)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          <option value="">All items</option>
+          <optgroup label="Dietary">
+            {DIETARY_TAGS.map((tag) => (
+              <option key={tag} value={`tag:${tag}`}>{DIETARY_TAG_LABELS[tag]}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Contains">
+            {ALLERGENS.map((allergen) => (
+              <option key={allergen} value={`contains:${allergen}`}>{`Contains ${ALLERGEN_LABELS[allergen].toLowerCase()}`}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Free from">
+            {ALLERGENS.map((allergen) => (
+              <option key={allergen} value={`free:${allergen}`}>{`${ALLERGEN_LABELS[allergen]} free`}</option>
+            ))}
+          </optgroup>
+        </select>
+        {tagFilter && (
+          <span className="text-sm text-gray-500">
+            {groupedItems.reduce((count, group) => count + group.items.length, 0)} items
+          </span>
+        )}
+      </div>
+
+      {groupedItems.map(({ slug, name, category, items }) => (
+        <div key={slug} className="bg-white rounded-xl shadow-sm p-6 border">
+          <div className="flex items-center space-x-3 mb-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              {name} ({items.length} items)
+            </h3>
+            {category && (
+              <span className="text-xs text-gray-500">{formatCategoryWindow(category)}</span>
+            )}
+            {category && !category.is_active && (
+              <span className="bg-gray-100 text-gray-600 text-xs py-1 px-2 rounded-full font-medium">Inactive</span>
+            )}
+            {category && (
+              <button
+                onClick={() => setScheduleTarget({ kind: 'category', slug: category.slug, name: category.name })}
+                className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+              >
+                <CalendarClock size={14} />
+                <span>
+                  {schedules.filter(schedule => schedule.category === category.slug)
+                    .map(schedule => schedule.label || formatSchedule(schedule))
+                    .join('; ') || 'Schedule'}
+                </span>
+              </button>
+            )}
+          </div>
           
           {items.length === 0 ? (
             <p className="text-gray-500 text-center py-8">No items in this category</p>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {items.map((item) => (
-                <div key={item.id} className="border border-gray-200 rounded-lg p-4">
-                  <div className="relative">
-                    <img
-                      src={item.image_url || '/placeholder-food.jpg'}
-                      alt={item.name}
-                      className="w-full h-32 object-cover rounded-lg mb-3"
-                    />
-                    <button
-                      onClick={() => toggleAvailability(item.id, item.is_available)}
-                      className={`absolute top-2 right-2 p-1 rounded-full ${
-                        item.is_available ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
-                      }`}
-                    >
-                      {item.is_available ? <Eye size={16} /> : <EyeOff size={16} />}
-                    </button>
-                  </div>
+              {items.map((item) => {
+                const itemAvailability = availability[item.id];
+                const isAvailableNow = itemAvailability ? itemAvailability.is_available_now : item.is_available;
+                const itemSchedules = schedules.filter(schedule => schedule.menu_item_id === item.id);
+                return (
+                  <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="relative">
+                      <img
+                        src={item.image_url || '/placeholder-food.jpg'}
+                        alt={item.name}
+                        className="w-full h-32 object-cover rounded-lg mb-3"
+                      />
+                      <button
+                        onClick={() => toggleAvailability(item)}
+                        disabled={!item.is_available}
+                        title={hasActiveOverride(item) ? 'Clear the override' : 'Override until the end of the day'}
+                        className={`absolute top-2 right-2 p-1 rounded-full disabled:opacity-50 ${
+                          isAvailableNow ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
+                        }`}
+                      >
+                        {isAvailableNow ? <Eye size={16} /> : <EyeOff size={16} />}
+                      </button>
+                    </div>
                   
-                  <h4 className="font-semibold text-gray-900 mb-1">{item.name}</h4>
-                  <p className="text-sm text-gray-600 mb-2 line-clamp-2">{item.description}</p>
-                  <p className="text-lg font-bold text-red-600 mb-3">${item.price}</p>
+                    <h4 className="font-semibold text-gray-900 mb-1">{item.name}</h4>
+                    <p className="text-sm text-gray-600 mb-2 line-clamp-2">{item.description}</p>
+                    <p className="text-lg font-bold text-red-600 mb-3">${item.price}</p>
+                    <MenuTagBadges allergens={item.allergens} dietaryTags={getDietaryTags(item)} className="mb-3" />
+                    <div className="text-xs mb-3 space-y-0.5">
+                      <p className={isAvailableNow ? 'text-green-700' : 'text-red-700'}>
+                        {!item.is_available
+                          ? 'Off the menu'
+                          : itemAvailability
+                            ? describeAvailability(itemAvailability, timeZone)
+                            : 'Available'}
+                      </p>
+                      {item.is_available && hasActiveOverride(item) && item.availability_override_until && (
+                        <p className="text-amber-700">
+                          Manually {item.availability_override ? 'on' : 'off'} until {formatKitchenTime(item.availability_override_until, timeZone)}
+                        </p>
+                      )}
+                      {itemSchedules.map((schedule) => (
+                        <p key={schedule.id} className="text-gray-500">{schedule.label || formatSchedule(schedule)}</p>
+                      ))}
+                    </div>
+                    {groupIdsByItem[item.id]?.length > 0 && (
+                      <p className="text-xs text-gray-500 mb-3">
+                        Options: {getItemModifierGroups(item.id, modifierGroups, groupIdsByItem).map(group => group.name).join(', ')}
+                      </p>
+                    )}
                   
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => handleEdit(item)}
-                      className="flex items-center space-x-1 bg-blue-100 text-blue-600 px-3 py-1 rounded-lg text-sm hover:bg-blue-200 transition-colors"
-                    >
-                      <Edit size={14} />
-                      <span>Edit</span>
-                    </button>
-                    <button
-                      onClick={() => handleDelete(item.id)}
-                      className="flex items-center space-x-1 bg-red-100 text-red-600 px-3 py-1 rounded-lg text-sm hover:bg-red-200 transition-colors"
-                    >
-                      <Trash2 size={14} />
-                      <span>Delete</span>
-                    </button>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(item)}
+                        className="flex items-center space-x-1 bg-blue-100 text-blue-600 px-3 py-1 rounded-lg text-sm hover:bg-blue-200 transition-colors"
+                      >
+                        <Edit size={14} />
+                        <span>Edit</span>
+                      </button>
+                      <button
+                        onClick={() => setScheduleTarget({ kind: 'item', menuItemId: item.id, name: item.name })}
+                        className="flex items-center space-x-1 bg-gray-100 text-gray-700 px-3 py-1 rounded-lg text-sm hover:bg-gray-200 transition-colors"
+                      >
+                        <CalendarClock size={14} />
+                        <span>Schedule</span>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item.id)}
+                        className="flex items-center space-x-1 bg-red-100 text-red-600 px-3 py-1 rounded-lg text-sm hover:bg-red-200 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                        <span>Delete</span>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
       ))}
+
+      <MenuCategoriesDialog
+        open={categoriesOpen}
+        categories={categories}
+        itemCounts={itemCounts}
+        onClose={() => setCategoriesOpen(false)}
+        onChanged={loadCategories}
+      />
+      <MenuSchedulesDialog
+        target={scheduleTarget}
+        schedules={schedules}
+        timeZone={timeZone}
+        onClose={() => setScheduleTarget(null)}
+        onChanged={loadSchedules}
+      />
+      <ModifierGroupsDialog
+        open={modifiersOpen}
+        groups={modifierGroups}
+        itemCounts={modifierItemCounts}
+        onClose={() => setModifiersOpen(false)}
+        onChanged={loadModifiers}
+      />
+      <MenuImportDialog
+        open={importOpen}
+        menuItems={menuItems}
+        onClose={() => setImportOpen(false)}
+        onImported={() => {
+          fetchMenuItems();
+          loadCategories();
+        }}
+      />
     </div>
   );
 };
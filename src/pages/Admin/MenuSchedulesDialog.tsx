@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { MenuAvailabilitySchedule } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { getBrowserTimeZone } from '../../lib/order-export';
+import { formatCategoryTime } from '../../lib/menu-categories';
+import {
+  ALL_DAYS,
+  DAY_LABELS,
+  deleteMenuSchedule,
+  formatSchedule,
+  isValidTimeZone,
+  MenuScheduleInput,
+  saveMenuAvailabilitySettings,
+  saveMenuSchedule,
+} from '../../lib/menu-availability';
+
+// What the schedules apply to: a single menu item or a whole category
+export type MenuScheduleTarget =
+  | { kind: 'item'; menuItemId: string; name: string }
+  | { kind: 'category'; slug: string; name: string };
+
+interface MenuSchedulesDialogProps {
+  target: MenuScheduleTarget | null;
+  // Every schedule; the dialog shows the target's own
+  schedules: MenuAvailabilitySchedule[];
+  timeZone: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Form values as typed
+interface ScheduleForm {
+  days_of_week: number[];
+  all_day: boolean;
+  starts_at: string;
+  ends_at: string;
+  valid_from: string;
+  valid_until: string;
+  label: string;
+}
+
+const EMPTY_SCHEDULE_FORM: ScheduleForm = {
+  days_of_week: ALL_DAYS,
+  all_day: false,
+  starts_at: '',
+  ends_at: '',
+  valid_from: '',
+  valid_until: '',
+  label: '',
+};
+
+const toScheduleForm = (schedule: MenuAvailabilitySchedule): ScheduleForm => ({
+  days_of_week: schedule.days_of_week,
+  all_day: !schedule.starts_at,
+  starts_at: schedule.starts_at ? formatCategoryTime(schedule.starts_at) : '',
+  ends_at: schedule.ends_at ? formatCategoryTime(schedule.ends_at) : '',
+  valid_from: schedule.valid_from || '',
+  valid_until: schedule.valid_until || '',
+  label: schedule.label || '',
+});
+
+/**
+ * Validates the form into a schedule row, throwing with a message for the first bad field
+ */
+const toScheduleInput = (form: ScheduleForm, target: MenuScheduleTarget): MenuScheduleInput => {
+  if (form.days_of_week.length === 0) throw new Error('Pick at least one day');
+  if (!form.all_day) {
+    if (!form.starts_at || !form.ends_at) throw new Error('Set both ends of the time range, or choose all day');
+    if (form.starts_at === form.ends_at) throw new Error('The time range must not start and end at the same time');
+  }
+  if (form.valid_from && form.valid_until && form.valid_from > form.valid_until) {
+    throw new Error('The season must not end before it starts');
+  }
+
+  return {
+    menu_item_id: target.kind === 'item' ? target.menuItemId : null,
+    category: target.kind === 'category' ? target.slug : null,
+    days_of_week: ALL_DAYS.filter(day => form.days_of_week.includes(day)),
+    starts_at: form.all_day ? null : form.starts_at,
+    ends_at: form.all_day ? null : form.ends_at,
+    valid_from: form.valid_from || null,
+    valid_until: form.valid_until || null,
+    label: form.label.trim() || null,
+  };
+};
+
+export const MenuSchedulesDialog = ({ target, schedules, timeZone, onClose, onChanged }: MenuSchedulesDialogProps) => {
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [timeZoneDraft, setTimeZoneDraft] = useState(timeZone);
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!target) return;
+    setForm(null);
+    setEditingId(null);
+    setTimeZoneDraft(timeZone);
+  }, [target, timeZone]);
+
+  const targetSchedules = target
+    ? schedules.filter(schedule => target.kind === 'item'
+      ? schedule.menu_item_id === target.menuItemId
+      : schedule.category === target.slug)
+    : [];
+
+  const runSave = async (action: () => Promise<void>, fallbackMessage: string): Promise<boolean> => {
+    if (saving) return false;
+
+    setSaving(true);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : fallbackMessage,
+        'error'
+      );
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || !target) return;
+
+    const saved = await runSave(
+      () => saveMenuSchedule(toScheduleInput(form, target), editingId || undefined),
+      'Failed to save schedule'
+    );
+    if (saved) {
+      setForm(null);
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: MenuAvailabilitySchedule) => {
+    if (!confirm(`Remove the schedule "${schedule.label || formatSchedule(schedule)}"?`)) return;
+    await runSave(() => deleteMenuSchedule(schedule.id), 'Failed to remove schedule');
+  };
+
+  const handleSaveTimeZone = async () => {
+    const zone = timeZoneDraft.trim();
+    if (!isValidTimeZone(zone)) {
+      addNotification(`${zone || 'An empty value'} is not a time zone, e.g. Europe/London`, 'error');
+      return;
+    }
+
+    const saved = await runSave(() => saveMenuAvailabilitySettings({ time_zone: zone }), 'Failed to save time zone');
+    if (saved) {
+      addNotification('Kitchen time zone updated', 'success');
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => prev && ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(value => value !== day)
+        : [...prev.days_of_week, day],
+    }));
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Availability schedule{target ? ` • ${target.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            {target?.kind === 'category'
+              ? 'Every item in this category can only be ordered while one of these schedules applies.'
+              : 'This item can only be ordered while one of these schedules applies, on top of its category rules.'}
+            {' '}With no schedules there is no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {targetSchedules.length === 0 && <p className="text-sm text-gray-500">No schedules; always available</p>}
+
+          {targetSchedules.map((schedule) => (
+            <div key={schedule.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+              <div>
+                {schedule.label && <p className="font-medium text-gray-900">{schedule.label}</p>}
+                <p className={schedule.label ? 'text-xs text-gray-500' : 'text-gray-900'}>{formatSchedule(schedule)}</p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => {
+                    setForm(toScheduleForm(schedule));
+                    setEditingId(schedule.id);
+                  }}
+                  className="text-gray-400 hover:text-gray-700"
+                  title="Edit schedule"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(schedule)}
+                  disabled={saving}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Remove schedule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {!form && (
+            <button
+              onClick={() => {
+                setForm(EMPTY_SCHEDULE_FORM);
+                setEditingId(null);
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              + Add schedule
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <form onSubmit={handleSave} className="space-y-3 text-sm border border-gray-200 rounded-lg p-3">
+            <input
+              type="text"
+              placeholder="Label (optional), e.g. Friday special"
+              value={form.label}
+              onChange={(e) => setForm(prev => prev && ({ ...prev, label: e.target.value }))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+
+            <div className="flex flex-wrap gap-1">
+              {ALL_DAYS.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-2.5 py-1 rounded-lg border ${
+                    form.days_of_week.includes(day)
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {DAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-gray-700">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={form.all_day}
+                  onChange={(e) => setForm(prev => prev && ({ ...prev, all_day: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>All day</span>
+              </label>
+              {!form.all_day && (
+                <>
+                  <input
+                    type="time"
+                    value={form.starts_at}
+                    onChange={(e) => setForm(prev => prev && ({ ...prev, starts_at: e.target.value }))}
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                  <span>to</span>
+                  <input
+                    type="time"
+                    value={form.ends_at}
+                    onChange={(e) => setForm(prev => prev && ({ ...prev, ends_at: e.target.value }))}
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-gray-700">
+              <span>Season</span>
+              <input
+                type="date"
+                value={form.valid_from}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, valid_from: e.target.value }))}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={form.valid_until}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, valid_until: e.target.value }))}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+              <span className="text-xs text-gray-500">Leave blank for year-round</span>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setForm(null);
+                  setEditingId(null);
+                }}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save schedule'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="border-t border-gray-200 pt-3 text-sm space-y-2">
+          <p className="text-gray-700">
+            Times are in the kitchen time zone, shared by every schedule and category window.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={timeZoneDraft}
+              onChange={(e) => setTimeZoneDraft(e.target.value)}
+              className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+            {timeZoneDraft !== getBrowserTimeZone() && (
+              <button
+                type="button"
+                onClick={() => setTimeZoneDraft(getBrowserTimeZone())}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                Use {getBrowserTimeZone()}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSaveTimeZone}
+              disabled={saving || timeZoneDraft.trim() === timeZone}
+              className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              Save time zone
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,110 @@
+import {
+  BadgeCheck,
+  Bean,
+  Egg,
+  Fish,
+  Flame,
+  Leaf,
+  LucideIcon,
+  Milk,
+  Nut,
+  Shell,
+  Shrimp,
+  Sprout,
+  TriangleAlert,
+  Vegan,
+  Wheat,
+} from 'lucide-react';
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  DietaryTag,
+  DIETARY_TAG_LABELS,
+  formatAllergens,
+  sortAllergens,
+  sortDietaryTags,
+} from '../../lib/menu-tags';
+
+// Allergens without an icon of their own fall back to the warning triangle
+export const ALLERGEN_ICONS: Partial<Record<Allergen, LucideIcon>> = {
+  gluten: Wheat,
+  peanuts: Nut,
+  tree_nuts: Nut,
+  dairy: Milk,
+  egg: Egg,
+  soy: Bean,
+  fish: Fish,
+  shellfish: Shrimp,
+  molluscs: Shell,
+};
+
+export const DIETARY_TAG_ICONS: Record<DietaryTag, LucideIcon> = {
+  vegetarian: Leaf,
+  vegan: Vegan,
+  halal: BadgeCheck,
+  jain: Sprout,
+  spicy: Flame,
+};
+
+interface MenuTagBadgesProps {
+  allergens?: Allergen[];
+  dietaryTags?: DietaryTag[];
+  className?: string;
+}
+
+/**
+ * Dietary tags in green and allergens in amber, for menu item cards
+ */
+export const MenuTagBadges = ({ allergens = [], dietaryTags = [], className = '' }: MenuTagBadgesProps) => {
+  if (allergens.length === 0 && dietaryTags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {sortDietaryTags(dietaryTags).map((tag) => {
+        const Icon = DIETARY_TAG_ICONS[tag];
+        return (
+          <span
+            key={tag}
+            className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+              tag === 'spicy' ? 'bg-orange-100 text-orange-800' : 'bg-green-100 text-green-800'
+            }`}
+          >
+            <Icon size={12} />
+            <span>{DIETARY_TAG_LABELS[tag]}</span>
+          </span>
+        );
+      })}
+      {sortAllergens(allergens).map((allergen) => {
+        const Icon = ALLERGEN_ICONS[allergen] || TriangleAlert;
+        return (
+          <span
+            key={allergen}
+            className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+            title="Contains"
+          >
+            <Icon size={12} />
+            <span>{ALLERGEN_LABELS[allergen]}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+interface AllergenWarningProps {
+  allergens?: Allergen[];
+}
+
+/**
+ * Flags an order line that contains allergens; renders nothing for lines without any
+ */
+export const AllergenWarning = ({ allergens = [] }: AllergenWarningProps) => {
+  if (allergens.length === 0) return null;
+
+  return (
+    <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-900">
+      <TriangleAlert size={12} />
+      <span>{formatAllergens(allergens)}</span>
+    </span>
+  );
+};
@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import { Eye, EyeOff, Pencil, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { ModifierGroup, ModifierOption } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  deleteModifierGroup,
+  deleteModifierOption,
+  describeSelectionRule,
+  formatPriceDelta,
+  ModifierGroupInput,
+  saveModifierGroup,
+  saveModifierOption,
+} from '../../lib/menu-modifiers';
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  groups: ModifierGroup[];
+  // Menu items per group id
+  itemCounts: Record<string, number>;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Form values as typed
+interface GroupForm {
+  name: string;
+  min_select: string;
+  max_select: string;
+}
+
+const EMPTY_GROUP_FORM: GroupForm = { name: '', min_select: '0', max_select: '' };
+
+const toGroupForm = (group: ModifierGroup): GroupForm => ({
+  name: group.name,
+  min_select: String(group.min_select),
+  max_select: group.max_select !== null ? String(group.max_select) : '',
+});
+
+/**
+ * Validates the form into a group row, throwing with a message for the first bad field
+ */
+const toGroupInput = (form: GroupForm, sortOrder: number): ModifierGroupInput => {
+  const min = parseInt(form.min_select, 10);
+  const max = form.max_select.trim() ? parseInt(form.max_select, 10) : null;
+
+  if (!form.name.trim()) throw new Error('Group name is required');
+  if (!Number.isInteger(min) || min < 0) throw new Error('Minimum must be 0 or more');
+  if (max !== null && (!Number.isInteger(max) || max < 1)) throw new Error('Maximum must be at least 1, or blank for no limit');
+  if (max !== null && max < min) throw new Error('Maximum can\'t be below the minimum');
+
+  return { name: form.name.trim(), min_select: min, max_select: max, sort_order: sortOrder };
+};
+
+export const ModifierGroupsDialog = ({ open, groups, itemCounts, onClose, onChanged }: ModifierGroupsDialogProps) => {
+  const [form, setForm] = useState<GroupForm | null>(null);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  // New option drafts per group id
+  const [optionDrafts, setOptionDrafts] = useState<Record<string, { name: string; price_delta: string }>>({});
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(null);
+    setEditingGroupId(null);
+    setOptionDrafts({});
+  }, [open]);
+
+  const runSave = async (action: () => Promise<void>, fallbackMessage: string): Promise<boolean> => {
+    if (saving) return false;
+
+    setSaving(true);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : fallbackMessage,
+        'error'
+      );
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const existing = groups.find(group => group.id === editingGroupId);
+    const sortOrder = existing
+      ? existing.sort_order
+      : groups.reduce((max, group) => Math.max(max, group.sort_order), 0) + 1;
+
+    const saved = await runSave(
+      () => saveModifierGroup(toGroupInput(form, sortOrder), editingGroupId || undefined),
+      'Failed to save modifier group'
+    );
+    if (saved) {
+      setForm(null);
+      setEditingGroupId(null);
+    }
+  };
+
+  const handleDeleteGroup = async (group: ModifierGroup) => {
+    const count = itemCounts[group.id] || 0;
+    const usage = count > 0 ? ` It is used by ${count} menu item${count === 1 ? '' : 's'}.` : '';
+    if (!confirm(`Delete the "${group.name}" modifier group and its options?${usage}`)) return;
+
+    await runSave(() => deleteModifierGroup(group.id), 'Failed to delete modifier group');
+  };
+
+  const handleAddOption = async (e: React.FormEvent, group: ModifierGroup) => {
+    e.preventDefault();
+    const draft = optionDrafts[group.id];
+    if (!draft?.name.trim()) return;
+
+    const delta = draft.price_delta.trim() ? parseFloat(draft.price_delta) : 0;
+    if (!Number.isFinite(delta)) {
+      addNotification('Price change must be a number, e.g. 1.50 or -0.50', 'error');
+      return;
+    }
+
+    const options = group.options || [];
+    const saved = await runSave(
+      () => saveModifierOption({
+        group_id: group.id,
+        name: draft.name.trim(),
+        price_delta: delta,
+        is_available: true,
+        sort_order: options.reduce((max, option) => Math.max(max, option.sort_order), 0) + 1,
+      }),
+      'Failed to add option'
+    );
+    if (saved) {
+      setOptionDrafts(prev => ({ ...prev, [group.id]: { name: '', price_delta: '' } }));
+    }
+  };
+
+  const handleToggleOption = (option: ModifierOption) =>
+    runSave(
+      () => saveModifierOption({
+        group_id: option.group_id,
+        name: option.name,
+        price_delta: option.price_delta,
+        is_available: !option.is_available,
+        sort_order: option.sort_order,
+      }, option.id),
+      'Failed to update option'
+    );
+
+  const handleDeleteOption = async (option: ModifierOption) => {
+    if (!confirm(`Remove "${option.name}"?`)) return;
+    await runSave(() => deleteModifierOption(option.id), 'Failed to remove option');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifier groups</DialogTitle>
+          <DialogDescription>
+            Options customers pick when ordering, like bread choice or extra toppings. Attach groups to dishes from the item form.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {groups.length === 0 && <p className="text-sm text-gray-500">No modifier groups yet</p>}
+
+          {groups.map((group) => {
+            const draft = optionDrafts[group.id] || { name: '', price_delta: '' };
+            return (
+              <div key={group.id} className="border border-gray-200 rounded-lg p-3 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{group.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {describeSelectionRule(group)} • used by {itemCounts[group.id] || 0} items
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => {
+                        setForm(toGroupForm(group));
+                        setEditingGroupId(group.id);
+                      }}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Edit group"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteGroup(group)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete group"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                {(group.options || []).map((option) => (
+                  <div key={option.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-1.5">
+                    <span className={option.is_available ? 'text-gray-900' : 'text-gray-400 line-through'}>
+                      {option.name}
+                      {formatPriceDelta(option.price_delta) && (
+                        <span className="text-gray-500"> {formatPriceDelta(option.price_delta)}</span>
+                      )}
+                    </span>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => handleToggleOption(option)}
+                        disabled={saving}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                        title={option.is_available ? 'Mark unavailable' : 'Mark available'}
+                      >
+                        {option.is_available ? <Eye size={14} /> : <EyeOff size={14} />}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteOption(option)}
+                        disabled={saving}
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        title="Remove option"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <form onSubmit={(e) => handleAddOption(e, group)} className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="New option"
+                    value={draft.name}
+                    onChange={(e) => setOptionDrafts(prev => ({ ...prev, [group.id]: { ...draft, name: e.target.value } }))}
+                    className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder="+0.00"
+                    value={draft.price_delta}
+                    onChange={(e) => setOptionDrafts(prev => ({ ...prev, [group.id]: { ...draft, price_delta: e.target.value } }))}
+                    className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg"
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving || !draft.name.trim()}
+                    className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </form>
+              </div>
+            );
+          })}
+
+          {!form && (
+            <button
+              onClick={() => {
+                setForm(EMPTY_GROUP_FORM);
+                setEditingGroupId(null);
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              + Add modifier group
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <form onSubmit={handleSaveGroup} className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm border border-gray-200 rounded-lg p-3">
+            <input
+              type="text"
+              placeholder="Group name, e.g. Bread"
+              value={form.name}
+              onChange={(e) => setForm(prev => prev && ({ ...prev, name: e.target.value }))}
+              className="col-span-2 px-2 py-1.5 border border-gray-300 rounded-lg"
+              required
+            />
+            <label className="text-gray-700">
+              Min picks
+              <input
+                type="number"
+                min={0}
+                value={form.min_select}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, min_select: e.target.value }))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-gray-700">
+              Max picks
+              <input
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={form.max_select}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, max_select: e.target.value }))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <div className="col-span-2 md:col-span-4 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setForm(null);
+                  setEditingGroupId(null);
+                }}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save group'}
+              </button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
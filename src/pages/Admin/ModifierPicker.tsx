@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { ModifierGroup } from '../../lib/supabase';
+import { describeSelectionRule, formatPriceDelta, validateModifierSelection } from '../../lib/menu-modifiers';
+
+interface ModifierPickerProps {
+  // Groups attached to the item being added, in the item's order
+  groups: ModifierGroup[];
+  // Prefix for the radio group names, unique on the page
+  inputName: string;
+  onCancel: () => void;
+  // Called with the chosen option ids once they satisfy every group
+  onAdd: (optionIds: string[]) => void;
+}
+
+/**
+ * Inline option picker shown before a menu item with modifiers is added to an order
+ */
+export const ModifierPicker = ({ groups, inputName, onCancel, onAdd }: ModifierPickerProps) => {
+  const [optionIds, setOptionIds] = useState<string[]>([]);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setProblem(null);
+    setOptionIds(prev => {
+      if (prev.includes(optionId)) {
+        return prev.filter(id => id !== optionId);
+      }
+      // A single-choice group swaps its option instead of adding another
+      const groupOptionIds = (group.options || []).map(option => option.id);
+      const kept = group.max_select === 1
+        ? prev.filter(id => !groupOptionIds.includes(id))
+        : prev;
+      return [...kept, optionId];
+    });
+  };
+
+  const handleAdd = () => {
+    const selectionProblem = validateModifierSelection(groups, optionIds);
+    if (selectionProblem) {
+      setProblem(selectionProblem);
+      return;
+    }
+    onAdd(optionIds);
+  };
+
+  return (
+    <div className="mt-2 space-y-2 bg-gray-50 rounded-lg p-2 text-sm">
+      {groups.map((group) => (
+        <div key={group.id}>
+          <p className="text-xs font-medium text-gray-700">
+            {group.name} <span className="text-gray-500">({describeSelectionRule(group)})</span>
+          </p>
+          <div className="flex flex-wrap gap-x-3">
+            {(group.options || []).filter(option => option.is_available).map((option) => (
+              <label key={option.id} className="flex items-center space-x-1 text-gray-700">
+                <input
+                  type={group.max_select === 1 ? 'radio' : 'checkbox'}
+                  name={`${inputName}-${group.id}`}
+                  checked={optionIds.includes(option.id)}
+                  onChange={() => toggleOption(group, option.id)}
+                  className="h-3.5 w-3.5 text-blue-600 border-gray-300"
+                />
+                <span>{option.name} {formatPriceDelta(option.price_delta)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      {problem && <p className="text-xs text-red-600">{problem}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Add to order
+        </button>
+      </div>
+    </div>
+  );
+};
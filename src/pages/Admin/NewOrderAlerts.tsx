@@ -0,0 +1,351 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bell, BellOff, BellRing, Monitor } from 'lucide-react';
+import { Order } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+import {
+  acknowledgeOrders,
+  canShowDesktopNotifications,
+  DEFAULT_ALERT_SETTINGS,
+  fetchUnacknowledgedOrders,
+  getAlertSettings,
+  isAlertMuted,
+  isEscalated,
+  needsAcknowledgement,
+  NewOrderAlertSettings,
+  playAlertTone,
+  saveAlertSettings,
+  setAlertMuted,
+  showDesktopNotification,
+  subscribeToAlertMuted,
+} from '../../lib/order-alerts';
+
+// Gap between chimes while an alert is unacknowledged
+const REPEAT_MS = 4000;
+const ESCALATED_REPEAT_MS = 1500;
+const ESCALATION_KEY = 'new-order-escalation';
+
+/**
+ * Panel-wide new-order alert: header bell with settings, a banner with a
+ * repeating chime until someone acknowledges, desktop notifications, and a
+ * louder persistent alert once an order has waited past the escalation delay.
+ */
+export const NewOrderAlerts = () => {
+  const [waitingOrders, setWaitingOrders] = useState<Order[]>([]);
+  const [settings, setSettings] = useState<NewOrderAlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [escalationDraft, setEscalationDraft] = useState(String(DEFAULT_ALERT_SETTINGS.escalate_after_minutes));
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const { user } = useAuth();
+  const [muted, setMuted] = useState(false);
+  const { addNotification, dismissNotification } = useNotification();
+  const addNotificationRef = useRef(addNotification);
+  const dismissNotificationRef = useRef(dismissNotification);
+  const channelRef = useRef<OrdersChannel | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const escalatedIdsRef = useRef<Set<string>>(new Set());
+
+  // Keep notification refs updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+    dismissNotificationRef.current = dismissNotification;
+  }, [addNotification, dismissNotification]);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setMuted(false);
+      return;
+    }
+
+    isAlertMuted(user.id)
+      .then(setMuted)
+      .catch(error => console.error('Error loading alert mute:', error));
+
+    const channel = subscribeToAlertMuted('order-alerts-mute', user.id, setMuted);
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    setPermission(canShowDesktopNotifications() ? Notification.permission : 'unsupported');
+
+    getAlertSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setEscalationDraft(String(loaded.escalate_after_minutes));
+      })
+      .catch(error => console.error('Error loading alert settings:', error));
+  }, []);
+
+  // Browsers block audio until the user interacts with the page
+  useEffect(() => {
+    const unlockAudio = () => {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new AudioContext();
+      }
+      audioContextRef.current.resume().catch(() => undefined);
+    };
+
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+      audioContextRef.current?.close().catch(() => undefined);
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchUnacknowledgedOrders()
+      .then(setWaitingOrders)
+      .catch(error => console.error('Error fetching unacknowledged orders:', error));
+
+    if (!channelRef.current) {
+      channelRef.current = subscribeToOrderChanges('order-alerts', {
+        onInsert: (order) => {
+          if (!needsAcknowledgement(order)) return;
+          setWaitingOrders(prev => (prev.some(existing => existing.id === order.id) ? prev : [...prev, order]));
+          showDesktopNotification(
+            'New order',
+            `#${order.id.slice(-8)} from ${order.customer_name} - $${parseFloat(order.total_amount.toString()).toFixed(2)}`,
+            `order-${order.id}`
+          );
+        },
+        onUpdate: (order) => {
+          setWaitingOrders(prev => {
+            const without = prev.filter(existing => existing.id !== order.id);
+            return needsAcknowledgement(order) ? [...without, order] : without;
+          });
+        },
+        onDelete: (orderId) => {
+          setWaitingOrders(prev => prev.filter(order => order.id !== orderId));
+        },
+      });
+    }
+
+    return () => {
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, []);
+
+  // Re-check escalation while orders are waiting
+  useEffect(() => {
+    if (waitingOrders.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [waitingOrders.length]);
+
+  const escalatedOrders = waitingOrders.filter(order => isEscalated(order, settings, now));
+  const escalated = escalatedOrders.length > 0;
+  const escalatedKey = escalatedOrders.map(order => order.id).join(',');
+
+  // Persistent alert (and a second desktop notification) once an order escalates
+  useEffect(() => {
+    const current = new Set(escalatedOrders.map(order => order.id));
+    const newlyEscalated = escalatedOrders.filter(order => !escalatedIdsRef.current.has(order.id));
+    escalatedIdsRef.current = current;
+
+    if (current.size === 0) {
+      dismissNotificationRef.current(ESCALATION_KEY);
+      return;
+    }
+
+    if (newlyEscalated.length > 0) {
+      addNotificationRef.current(
+        `${current.size} new order${current.size > 1 ? 's' : ''} not acknowledged after ${settings.escalate_after_minutes} min`,
+        'error',
+        { duration: 0, key: ESCALATION_KEY }
+      );
+      newlyEscalated.forEach(order => {
+        showDesktopNotification(
+          'Order still waiting',
+          `#${order.id.slice(-8)} from ${order.customer_name} has not been acknowledged`,
+          `order-${order.id}`
+        );
+      });
+    }
+  }, [escalatedKey, settings.escalate_after_minutes]);
+
+  // Repeating chime until acknowledged; escalation overrides mute
+  useEffect(() => {
+    if (waitingOrders.length === 0 || (muted && !escalated)) return;
+
+    const chime = () => {
+      const context = audioContextRef.current;
+      if (context && context.state === 'running') {
+        playAlertTone(context, escalated);
+      }
+    };
+
+    chime();
+    const timer = setInterval(chime, escalated ? ESCALATED_REPEAT_MS : REPEAT_MS);
+    return () => clearInterval(timer);
+  }, [waitingOrders.length, muted, escalated]);
+
+  const handleAcknowledge = async () => {
+    if (acknowledging || waitingOrders.length === 0) return;
+
+    setAcknowledging(true);
+    try {
+      await acknowledgeOrders(waitingOrders.map(order => order.id));
+      // Real-time subscription clears the banner for every admin
+      setWaitingOrders([]);
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to acknowledge orders',
+        'error'
+      );
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const toggleMuted = async () => {
+    if (!user) return;
+
+    const next = !muted;
+    setMuted(next);
+    try {
+      await setAlertMuted(user.id, next);
+    } catch (error: unknown) {
+      setMuted(!next);
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save mute setting',
+        'error'
+      );
+    }
+  };
+
+  const requestDesktopPermission = async () => {
+    if (!canShowDesktopNotifications()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleSaveEscalation = async () => {
+    const minutes = parseInt(escalationDraft, 10);
+    if (!Number.isInteger(minutes) || minutes < 1) {
+      addNotification('Escalation delay must be at least 1 minute', 'error');
+      return;
+    }
+
+    try {
+      const next = { ...settings, escalate_after_minutes: minutes };
+      await saveAlertSettings(next);
+      setSettings(next);
+      addNotification('Alert settings saved', 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save alert settings',
+        'error'
+      );
+    }
+  };
+
+  return (
+    <>
+      <div className="relative">
+        <button
+          onClick={() => setMenuOpen(open => !open)}
+          className={`relative p-2 rounded-lg ${
+            waitingOrders.length > 0 ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title="New order alerts"
+        >
+          {muted ? <BellOff size={20} /> : waitingOrders.length > 0 ? <BellRing size={20} /> : <Bell size={20} />}
+          {waitingOrders.length > 0 && (
+            <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs font-bold rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+              {waitingOrders.length}
+            </span>
+          )}
+        </button>
+
+        {menuOpen && (
+          <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-lg p-4 space-y-3 text-sm z-30">
+            <p className="font-semibold text-gray-900">New order alerts</p>
+            <label className="flex items-center justify-between">
+              <span className="text-gray-700">Mute sound for me</span>
+              <input
+                type="checkbox"
+                checked={muted}
+                onChange={toggleMuted}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+            </label>
+            <p className="text-xs text-gray-500">Escalated alerts still sound when muted.</p>
+
+            {permission === 'unsupported' ? (
+              <p className="text-xs text-gray-500">This browser doesn&apos;t support desktop notifications.</p>
+            ) : permission === 'granted' ? (
+              <p className="flex items-center space-x-2 text-emerald-700">
+                <Monitor size={14} />
+                <span>Desktop notifications on</span>
+              </p>
+            ) : (
+              <button
+                onClick={requestDesktopPermission}
+                disabled={permission === 'denied'}
+                className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                <Monitor size={14} />
+                <span>{permission === 'denied' ? 'Desktop notifications blocked' : 'Enable desktop notifications'}</span>
+              </button>
+            )}
+
+            <div className="border-t border-gray-100 pt-3">
+              <label className="block text-gray-700 mb-1">Escalate after (minutes, all admins)</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={escalationDraft}
+                  onChange={(e) => setEscalationDraft(e.target.value)}
+                  className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleSaveEscalation}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {waitingOrders.length > 0 && (
+        <div
+          className={`fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-4 px-5 py-3 rounded-xl shadow-2xl text-white ${
+            escalated ? 'bg-red-600 animate-pulse' : 'bg-blue-900'
+          }`}
+        >
+          <BellRing size={22} />
+          <div>
+            <p className="font-semibold">
+              {waitingOrders.length} new order{waitingOrders.length > 1 ? 's' : ''} waiting
+            </p>
+            <p className="text-sm opacity-80">
+              {escalated ? 'Not acknowledged in time' : waitingOrders.map(order => order.customer_name).join(', ')}
+            </p>
+          </div>
+          <button
+            onClick={handleAcknowledge}
+            disabled={acknowledging}
+            className="bg-white text-gray-900 px-4 py-2 rounded-lg font-semibold hover:bg-gray-100 disabled:opacity-50"
+          >
+            {acknowledging ? 'Saving...' : 'Acknowledge'}
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,501 @@
+import { useState, useEffect } from 'react';
+import { MapPin, Minus, Plus, Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { supabase, DeliveryZone, KitchenStatus, MenuCategory, MenuItem, ModifierGroup, Order } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { formatCurrency, toAmount } from '../../lib/order-totals';
+import { geocodeAddress, GeoPoint } from '../../lib/geocoding';
+import {
+  DEFAULT_KITCHEN_LOCATION,
+  fetchDeliveryZones,
+  findDeliveryZone,
+  getKitchenLocation,
+  KitchenLocation,
+} from '../../lib/delivery-zones';
+import { DEFAULT_KITCHEN_STATUS, fetchKitchenStatus, getQuotedEtaMinutes } from '../../lib/kitchen-status';
+import { fetchMenuCategories, getCategoryName, groupItemsByCategory } from '../../lib/menu-categories';
+import { fetchMenuAvailability } from '../../lib/menu-availability';
+import {
+  fetchItemModifierGroupIds,
+  fetchModifierGroups,
+  formatModifiers,
+  getItemModifierGroups,
+  getModifiersTotal,
+  parseModifierLineKey,
+  toModifierLineKey,
+  toOrderItemModifiers,
+} from '../../lib/menu-modifiers';
+import { ModifierPicker } from './ModifierPicker';
+
+interface NewOrderDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ManualOrderSource = Exclude<NonNullable<Order['source']>, 'online'>;
+
+// Result of looking up the typed delivery address
+type AddressLookup =
+  | { status: 'idle' | 'locating' | 'not_found' | 'error' }
+  | { status: 'located'; point: GeoPoint; zone: DeliveryZone | null };
+
+// Wait for typing to pause before geocoding the address
+const GEOCODE_DEBOUNCE_MS = 600;
+
+const EMPTY_CUSTOMER = {
+  customer_name: '',
+  customer_phone: '',
+  delivery_address: '',
+  special_instructions: '',
+  source: 'phone' as ManualOrderSource,
+};
+
+export const NewOrderDialog = ({ open, onClose }: NewOrderDialogProps) => {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [loadingMenu, setLoadingMenu] = useState(false);
+  const [search, setSearch] = useState('');
+  // Quantity per cart line key (see toModifierLineKey)
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [groupIdsByItem, setGroupIdsByItem] = useState<Record<string, string[]>>({});
+  // Item whose options are being picked before it is added
+  const [pickingItemId, setPickingItemId] = useState<string | null>(null);
+  const [customer, setCustomer] = useState(EMPTY_CUSTOMER);
+  const [submitting, setSubmitting] = useState(false);
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [kitchenLocation, setKitchenLocation] = useState<KitchenLocation>(DEFAULT_KITCHEN_LOCATION);
+  const [addressLookup, setAddressLookup] = useState<AddressLookup>({ status: 'idle' });
+  const [kitchenStatus, setKitchenStatus] = useState<KitchenStatus>(DEFAULT_KITCHEN_STATUS);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const fetchAvailableItems = async () => {
+      setLoadingMenu(true);
+      const [{ data, error }, availability] = await Promise.all([
+        supabase
+          .from('menu_items')
+          .select('*')
+          .eq('is_available', true)
+          .order('name', { ascending: true }),
+        // Schedules and overrides can take listed items off the menu for now
+        fetchMenuAvailability().catch(availabilityError => {
+          console.error('Error fetching menu availability:', availabilityError);
+          return null;
+        }),
+      ]);
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching menu items:', error);
+        addNotification('Failed to load the menu', 'error');
+      } else {
+        setMenuItems((data || []).filter(item => !availability || availability[item.id]?.is_available_now !== false));
+      }
+      setLoadingMenu(false);
+    };
+
+    fetchAvailableItems();
+
+    fetchMenuCategories()
+      .then(loaded => {
+        if (!cancelled) setCategories(loaded);
+      })
+      .catch(error => console.error('Error loading menu categories:', error));
+
+    Promise.all([fetchModifierGroups(), fetchItemModifierGroupIds()])
+      .then(([loadedGroups, loadedLinks]) => {
+        if (cancelled) return;
+        setModifierGroups(loadedGroups);
+        setGroupIdsByItem(loadedLinks);
+      })
+      .catch(error => console.error('Error loading modifier groups:', error));
+
+    Promise.all([fetchDeliveryZones(), getKitchenLocation()])
+      .then(([loadedZones, location]) => {
+        if (cancelled) return;
+        setZones(loadedZones);
+        setKitchenLocation(location);
+      })
+      .catch(error => console.error('Error loading delivery zones:', error));
+
+    fetchKitchenStatus()
+      .then(status => {
+        if (!cancelled) setKitchenStatus(status);
+      })
+      .catch(error => console.error('Error loading kitchen status:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, addNotification]);
+
+  // Geocode the address and match it to a zone for the delivery fee
+  useEffect(() => {
+    const address = customer.delivery_address.trim();
+    if (!open || !address) {
+      setAddressLookup({ status: 'idle' });
+      return;
+    }
+
+    let cancelled = false;
+    setAddressLookup({ status: 'locating' });
+
+    const timer = setTimeout(async () => {
+      try {
+        const point = await geocodeAddress(address);
+        if (cancelled) return;
+        setAddressLookup(point
+          ? { status: 'located', point, zone: findDeliveryZone(point, zones, kitchenLocation) }
+          : { status: 'not_found' });
+      } catch (error) {
+        console.error('Geocoding error:', error);
+        if (!cancelled) {
+          setAddressLookup({ status: 'error' });
+        }
+      }
+    }, GEOCODE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, customer.delivery_address, zones, kitchenLocation]);
+
+  const resetForm = () => {
+    setQuantities({});
+    setPickingItemId(null);
+    setCustomer(EMPTY_CUSTOMER);
+    setSearch('');
+    setAddressLookup({ status: 'idle' });
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const setQuantity = (lineKey: string, quantity: number) => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      if (quantity > 0) {
+        next[lineKey] = quantity;
+      } else {
+        delete next[lineKey];
+      }
+      return next;
+    });
+  };
+
+  const getGroupsForItem = (itemId: string) => getItemModifierGroups(itemId, modifierGroups, groupIdsByItem);
+
+  const handleAddPicked = (itemId: string, optionIds: string[]) => {
+    const key = toModifierLineKey(itemId, optionIds);
+    setQuantity(key, (quantities[key] || 0) + 1);
+    setPickingItemId(null);
+  };
+
+  // Quantity of an item across all of its option combinations
+  const getItemQuantity = (itemId: string) =>
+    Object.keys(quantities)
+      .filter(key => parseModifierLineKey(key).menuItemId === itemId)
+      .reduce((sum, key) => sum + quantities[key], 0);
+
+  const cartLines = Object.keys(quantities)
+    .map(key => {
+      const { menuItemId, optionIds } = parseModifierLineKey(key);
+      const item = menuItems.find(candidate => candidate.id === menuItemId);
+      if (!item) return null;
+      const modifiers = toOrderItemModifiers(getGroupsForItem(item.id), optionIds);
+      return {
+        key,
+        item,
+        optionIds,
+        modifiers,
+        unitPrice: toAmount(item.price) + getModifiersTotal(modifiers),
+        quantity: quantities[key],
+      };
+    })
+    .filter((line): line is NonNullable<typeof line> => !!line);
+
+  // Shown for reference; the server prices the order again from menu_items, the options and the zone
+  const itemsTotal = cartLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const zone = addressLookup.status === 'located' ? addressLookup.zone : null;
+  const deliveryFee = zone ? toAmount(zone.delivery_fee) : 0;
+  const total = itemsTotal + deliveryFee;
+  const belowMinimum = !!zone && itemsTotal < toAmount(zone.min_order_amount);
+
+  // Listed in menu order: by category, then by name
+  const visibleItems = groupItemsByCategory(menuItems, categories)
+    .reduce<MenuItem[]>((all, group) => all.concat(group.items), [])
+    .filter(item => item.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    if (cartLines.length === 0) {
+      addNotification('Add at least one item to the order', 'error');
+      return;
+    }
+
+    if (addressLookup.status === 'located' && !zone
+      && !confirm('This address is outside every delivery zone. Create the order anyway?')) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('create_manual_order', {
+        p_customer_name: customer.customer_name,
+        p_customer_phone: customer.customer_phone,
+        p_delivery_address: customer.delivery_address,
+        p_special_instructions: customer.special_instructions,
+        p_source: customer.source,
+        p_items: cartLines.map(line => ({
+          menu_item_id: line.item.id,
+          quantity: line.quantity,
+          modifier_option_ids: line.optionIds,
+        })),
+        p_delivery_zone_id: zone?.id ?? null,
+        p_delivery_lat: addressLookup.status === 'located' ? addressLookup.point.lat : null,
+        p_delivery_lng: addressLookup.status === 'located' ? addressLookup.point.lng : null,
+      });
+
+      if (error) throw error;
+      addNotification('Order created successfully', 'success');
+      handleClose();
+      // Real-time subscription will add the order to the list
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to create order',
+        'error'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-4xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New order</DialogTitle>
+          <DialogDescription>Enter a phone or walk-in order. Prices are taken from the current menu.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Search menu..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Search size={16} className="absolute left-3 top-2.5 text-gray-400" />
+            </div>
+
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {loadingMenu ? (
+                <p className="text-sm text-gray-500 text-center py-6">Loading menu...</p>
+              ) : visibleItems.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No available items</p>
+              ) : (
+                visibleItems.map((item) => {
+                  const itemGroups = getGroupsForItem(item.id);
+                  const hasModifiers = itemGroups.length > 0;
+                  return (
+                    <div key={item.id} className="px-3 py-2">
+                      <div className="flex items-center justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {getCategoryName(item.category, categories)} • {formatCurrency(item.price)}
+                            {hasModifiers && ' • has options'}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2 shrink-0">
+                          <button
+                            type="button"
+                            onClick={() => setQuantity(item.id, (quantities[item.id] || 0) - 1)}
+                            // Lines with options are removed from the order summary
+                            disabled={!quantities[item.id]}
+                            className="p-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                          >
+                            <Minus size={14} />
+                          </button>
+                          <span className="w-6 text-center text-sm font-semibold">{getItemQuantity(item.id)}</span>
+                          <button
+                            type="button"
+                            onClick={() => hasModifiers
+                              ? setPickingItemId(item.id)
+                              : setQuantity(item.id, (quantities[item.id] || 0) + 1)}
+                            className="p-1 rounded-md bg-blue-100 text-blue-700 hover:bg-blue-200"
+                          >
+                            <Plus size={14} />
+                          </button>
+                        </div>
+                      </div>
+
+                      {pickingItemId === item.id && (
+                        <ModifierPicker
+                          groups={itemGroups}
+                          inputName={item.id}
+                          onCancel={() => setPickingItemId(null)}
+                          onAdd={(optionIds) => handleAddPicked(item.id, optionIds)}
+                        />
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {(['phone', 'walk_in'] as ManualOrderSource[]).map((source) => (
+                <button
+                  key={source}
+                  type="button"
+                  onClick={() => setCustomer(prev => ({ ...prev, source }))}
+                  className={`py-2 rounded-lg text-sm font-medium border ${
+                    customer.source === source
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {source === 'phone' ? 'Phone order' : 'Walk-in'}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Customer name</label>
+              <input
+                type="text"
+                value={customer.customer_name}
+                onChange={(e) => setCustomer(prev => ({ ...prev, customer_name: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={customer.customer_phone}
+                onChange={(e) => setCustomer(prev => ({ ...prev, customer_phone: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required={customer.source === 'phone'}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delivery address</label>
+              <textarea
+                value={customer.delivery_address}
+                onChange={(e) => setCustomer(prev => ({ ...prev, delivery_address: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={2}
+                placeholder={customer.source === 'walk_in' ? 'Leave empty for pickup' : ''}
+                required={customer.source === 'phone'}
+              />
+              {addressLookup.status !== 'idle' && (
+                <p className={`flex items-center space-x-1 text-xs mt-1 ${
+                  addressLookup.status === 'located' && addressLookup.zone
+                    ? 'text-gray-600'
+                    : addressLookup.status === 'locating' ? 'text-gray-400' : 'text-red-600'
+                }`}>
+                  <MapPin size={12} />
+                  <span>
+                    {addressLookup.status === 'locating' && 'Checking delivery zone...'}
+                    {addressLookup.status === 'not_found' && 'Address not found - no delivery fee applied'}
+                    {addressLookup.status === 'error' && 'Could not check the address - no delivery fee applied'}
+                    {addressLookup.status === 'located' && (addressLookup.zone
+                      ? `${addressLookup.zone.name} • ${formatCurrency(addressLookup.zone.delivery_fee)} fee • about ${getQuotedEtaMinutes(addressLookup.zone.eta_minutes, kitchenStatus)} min${kitchenStatus.mode === 'busy' ? ' (busy)' : ''}`
+                      : 'Outside every delivery zone')}
+                  </span>
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Special instructions</label>
+              <textarea
+                value={customer.special_instructions}
+                onChange={(e) => setCustomer(prev => ({ ...prev, special_instructions: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={2}
+              />
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+              {cartLines.length === 0 ? (
+                <p className="text-gray-500">No items added</p>
+              ) : (
+                cartLines.map(({ key, item, modifiers, unitPrice, quantity }) => (
+                  <div key={key} className="flex justify-between">
+                    <div className="min-w-0">
+                      <span className="text-gray-700">{quantity} × {item.name}</span>
+                      {modifiers.length > 0 && (
+                        <div className="flex items-center space-x-2 text-xs text-gray-500">
+                          <span>{formatModifiers(modifiers)}</span>
+                          <button
+                            type="button"
+                            onClick={() => setQuantity(key, quantity - 1)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove one"
+                          >
+                            <Minus size={12} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <span className="text-gray-900">{formatCurrency(unitPrice * quantity)}</span>
+                  </div>
+                ))
+              )}
+              {zone && (
+                <div className="flex justify-between">
+                  <span className="text-gray-700">Delivery ({zone.name})</span>
+                  <span className="text-gray-900">{formatCurrency(deliveryFee)}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-gray-200 pt-2 mt-2 font-bold text-gray-900">
+                <span>Total</span>
+                <span>{formatCurrency(total)}</span>
+              </div>
+              {belowMinimum && zone && (
+                <p className="text-xs text-red-600">
+                  {zone.name} has a {formatCurrency(zone.min_order_amount)} minimum order
+                </p>
+              )}
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                disabled={submitting || cartLines.length === 0 || belowMinimum || addressLookup.status === 'locating'}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Creating...' : 'Create order'}
+              </button>
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
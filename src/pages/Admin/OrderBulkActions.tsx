@@ -0,0 +1,84 @@
+import { CheckSquare, Eye, FastForward, XCircle, Printer, X } from 'lucide-react';
+
+interface OrderBulkActionsProps {
+  selectedCount: number;
+  totalCount: number;
+  disabled: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onMarkRead: () => void;
+  onAdvance: () => void;
+  onCancel: () => void;
+  onPrint: () => void;
+}
+
+export const OrderBulkActions = ({
+  selectedCount,
+  totalCount,
+  disabled,
+  onSelectAll,
+  onClear,
+  onMarkRead,
+  onAdvance,
+  onCancel,
+  onPrint,
+}: OrderBulkActionsProps) => {
+  if (selectedCount === 0) return null;
+
+  return (
+    <div className="sticky top-20 z-10 bg-blue-900 text-white rounded-xl shadow-lg px-4 py-3 flex flex-wrap items-center gap-2">
+      <span className="font-semibold mr-2">{selectedCount} selected</span>
+      {selectedCount < totalCount && (
+        <button
+          onClick={onSelectAll}
+          className="flex items-center space-x-1 text-sm text-blue-100 hover:text-white px-2 py-1"
+        >
+          <CheckSquare size={16} />
+          <span>Select all {totalCount}</span>
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <button
+          onClick={onMarkRead}
+          disabled={disabled}
+          className="flex items-center space-x-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+        >
+          <Eye size={16} />
+          <span>Mark read</span>
+        </button>
+        <button
+          onClick={onAdvance}
+          disabled={disabled}
+          className="flex items-center space-x-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+        >
+          <FastForward size={16} />
+          <span>Advance status</span>
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="flex items-center space-x-1 bg-red-500/80 hover:bg-red-500 px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+        >
+          <XCircle size={16} />
+          <span>Cancel…</span>
+        </button>
+        <button
+          onClick={onPrint}
+          disabled={disabled}
+          className="flex items-center space-x-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+        >
+          <Printer size={16} />
+          <span>Print tickets</span>
+        </button>
+        <button
+          onClick={onClear}
+          className="p-1.5 text-blue-100 hover:text-white"
+          title="Clear selection"
+        >
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
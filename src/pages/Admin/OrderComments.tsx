@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Send, CheckCircle, RotateCcw } from 'lucide-react';
+import { OrderComment } from '../../lib/supabase';
+import {
+  addOrderComment,
+  CommentsChannel,
+  fetchOrderComments,
+  setCommentResolved,
+  subscribeToCommentChanges,
+} from '../../lib/order-comments';
+
+interface OrderCommentsProps {
+  orderId: string;
+}
+
+export const OrderComments = ({ orderId }: OrderCommentsProps) => {
+  const [comments, setComments] = useState<OrderComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const mountedRef = useRef(true);
+  const channelRef = useRef<CommentsChannel | null>(null);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const data = await fetchOrderComments(orderId);
+      if (mountedRef.current) {
+        setComments(data);
+        setError(null);
+      }
+    } catch (fetchError) {
+      console.error('Error fetching order comments:', fetchError);
+      if (mountedRef.current) {
+        setError('Failed to load comments');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    loadComments();
+
+    // Realtime payloads don't include the author, so reload the thread
+    channelRef.current = subscribeToCommentChanges(`order-comments-${orderId}`, () => loadComments(), orderId);
+
+    return () => {
+      mountedRef.current = false;
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, [orderId, loadComments]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || posting) return;
+
+    setPosting(true);
+    try {
+      await addOrderComment(orderId, draft);
+      setDraft('');
+      // Real-time subscription will refresh the thread
+    } catch (postError: unknown) {
+      setError(postError instanceof Error ? postError.message : 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const toggleResolved = async (comment: OrderComment) => {
+    try {
+      await setCommentResolved(comment.id, !comment.resolved_at);
+    } catch (resolveError: unknown) {
+      setError(resolveError instanceof Error ? resolveError.message : 'Failed to update comment');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {loading ? (
+        <p className="text-sm text-gray-500 py-2">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No staff comments yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map((comment) => (
+            <li
+              key={comment.id}
+              className={`rounded-lg p-3 text-sm border ${
+                comment.resolved_at ? 'bg-gray-50 border-gray-200 text-gray-500' : 'bg-amber-50 border-amber-200 text-gray-900'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <p className="whitespace-pre-wrap">{comment.body}</p>
+                <button
+                  onClick={() => toggleResolved(comment)}
+                  className="shrink-0 flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+                >
+                  {comment.resolved_at ? <RotateCcw size={14} /> : <CheckCircle size={14} />}
+                  <span>{comment.resolved_at ? 'Reopen' : 'Resolve'}</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {comment.author?.full_name || comment.author?.email || 'Unknown'} • {new Date(comment.created_at).toLocaleString()}
+                {comment.resolved_at && ' • resolved'}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a note for staff (not visible to the customer)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={posting || !draft.trim()}
+          className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Send size={14} />
+          <span>Post</span>
+        </button>
+      </form>
+    </div>
+  );
+};
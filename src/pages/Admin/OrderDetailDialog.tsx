@@ -0,0 +1,351 @@
+import { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, CheckCircle, Printer, Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { supabase, Order, OrderEdit, OrderItem, OrderRefund } from '../../lib/supabase';
+import { ORDER_STATUS_LABELS } from '../../lib/order-status';
+import {
+  formatCurrency,
+  getItemsTotal,
+  getLineTotal,
+  getTotalDifference,
+  hasTotalMismatch,
+  toAmount,
+} from '../../lib/order-totals';
+import { fetchOrderRefunds } from '../../lib/order-refunds';
+import { fetchOrderEdits } from '../../lib/order-edits';
+import { formatModifiers } from '../../lib/menu-modifiers';
+import { formatAllergens, getOrderAllergens } from '../../lib/menu-tags';
+import {
+  buildPrintHtml,
+  downloadOrderText,
+  formatOrderText,
+  getPrintSettings,
+  printHtml,
+  PrintDocumentType,
+  PrintFormat,
+  PRINT_FORMAT_LABELS,
+} from '../../lib/order-print';
+import { OrderRefundPanel } from './OrderRefundPanel';
+import { OrderEditPanel } from './OrderEditPanel';
+import { AllergenWarning } from './MenuTagBadges';
+
+interface OrderDetailDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  /** Called after the line items are edited, so lists can replace their copy */
+  onItemsChanged?: (orderId: string, items: OrderItem[]) => void;
+}
+
+export const OrderDetailDialog = ({ order: selectedOrder, onClose, onItemsChanged }: OrderDetailDialogProps) => {
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [refunds, setRefunds] = useState<OrderRefund[]>([]);
+  const [edits, setEdits] = useState<OrderEdit[]>([]);
+  // Total saved by an edit in this dialog, until the caller passes the updated order
+  const [editedTotal, setEditedTotal] = useState<number | null>(null);
+  // Set by an edit so the next load of the line items is passed on to onItemsChanged
+  const itemsEditedRef = useRef(false);
+  const onItemsChangedRef = useRef(onItemsChanged);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [printDocument, setPrintDocument] = useState<PrintDocumentType>('kitchen');
+  const [printFormat, setPrintFormat] = useState<PrintFormat>(() => getPrintSettings().format);
+
+  useEffect(() => {
+    onItemsChangedRef.current = onItemsChanged;
+  }, [onItemsChanged]);
+
+  useEffect(() => {
+    setEditedTotal(null);
+  }, [selectedOrder]);
+
+  const order = selectedOrder && editedTotal !== null
+    ? { ...selectedOrder, total_amount: editedTotal }
+    : selectedOrder;
+  const orderId = order?.id;
+
+  useEffect(() => {
+    if (!orderId) return;
+    let cancelled = false;
+
+    const fetchItems = async () => {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('order_items')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (cancelled) return;
+
+      if (fetchError) {
+        console.error('Error fetching order items:', fetchError);
+        setError('Failed to load line items');
+        setItems([]);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const orderRefunds = await fetchOrderRefunds(orderId);
+        if (cancelled) return;
+        setRefunds(orderRefunds);
+      } catch (refundError) {
+        // Line items are still useful without the refund history
+        console.error('Error fetching refunds:', refundError);
+        if (cancelled) return;
+        setRefunds([]);
+      }
+
+      try {
+        const orderEdits = await fetchOrderEdits(orderId);
+        if (cancelled) return;
+        setEdits(orderEdits);
+      } catch (editError) {
+        console.error('Error fetching order edits:', editError);
+        if (cancelled) return;
+        setEdits([]);
+      }
+
+      setItems(data || []);
+      setError(null);
+      setLoading(false);
+
+      if (itemsEditedRef.current) {
+        itemsEditedRef.current = false;
+        onItemsChangedRef.current?.(orderId, data || []);
+      }
+    };
+
+    fetchItems();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, reloadKey]);
+
+  // Refunds are summed here rather than read from order.refunded_amount, which may be stale
+  const refundedTotal = refunds.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+
+  const mismatch = order && !loading && !error ? hasTotalMismatch(order, items) : false;
+  const textWidth = printFormat === 'text-80' ? 80 : 40;
+
+  const handlePrint = () => {
+    if (!order) return;
+    try {
+      printHtml(buildPrintHtml([{ order, items }], printDocument, printFormat));
+    } catch (printError) {
+      console.error('Print error:', printError);
+      setError(printError instanceof Error ? printError.message : 'Failed to print');
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl bg-white max-h-[90vh] overflow-y-auto">
+        {order && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Order #{order.id.slice(-8)}</DialogTitle>
+              <DialogDescription>
+                {order.customer_name} • {ORDER_STATUS_LABELS[order.status]} • {new Date(order.created_at).toLocaleString()}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="font-medium text-gray-700">Contact</p>
+                <p className="text-gray-900">{order.customer_email}</p>
+                <p className="text-gray-900">{order.customer_phone}</p>
+              </div>
+              <div>
+                <p className="font-medium text-gray-700">Delivery Address</p>
+                <p className="text-gray-900">{order.delivery_address}</p>
+              </div>
+            </div>
+
+            {order.special_instructions && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm">
+                <p className="font-medium text-yellow-800">Special Instructions</p>
+                <p className="text-yellow-900">{order.special_instructions}</p>
+              </div>
+            )}
+
+            {!loading && getOrderAllergens(items).length > 0 && (
+              <div className="flex items-start space-x-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm">
+                <AlertTriangle size={16} className="text-amber-600 mt-0.5 shrink-0" />
+                <p className="text-amber-900">
+                  <span className="font-medium">Allergens in this order:</span> {formatAllergens(getOrderAllergens(items))}
+                </p>
+              </div>
+            )}
+
+            {loading ? (
+              <p className="text-sm text-gray-500 py-4 text-center">Loading line items...</p>
+            ) : error ? (
+              <p className="text-sm text-red-600 py-4 text-center">{error}</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left font-medium px-4 py-2">Item</th>
+                      <th className="text-right font-medium px-4 py-2">Qty</th>
+                      <th className="text-right font-medium px-4 py-2">Unit price</th>
+                      <th className="text-right font-medium px-4 py-2">Subtotal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-4 py-6 text-center text-gray-500">No line items recorded</td>
+                      </tr>
+                    ) : (
+                      items.map((item) => (
+                        <tr key={item.id} className={`border-t border-gray-100 ${item.allergens?.length ? 'bg-amber-50' : ''}`}>
+                          <td className="px-4 py-2 text-gray-900">
+                            {item.item_name}
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <span className="block text-xs text-gray-500">{formatModifiers(item.modifiers)}</span>
+                            )}
+                            {item.allergens && item.allergens.length > 0 && (
+                              <span className="block mt-0.5">
+                                <AllergenWarning allergens={item.allergens} />
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900">
+                            {item.quantity}
+                            {!!item.refunded_quantity && (
+                              <span className="block text-xs text-red-600">{item.refunded_quantity} refunded</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(item.price)}</td>
+                          <td className="px-4 py-2 text-right font-medium text-gray-900">{formatCurrency(getLineTotal(item))}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                  <tfoot className="border-t border-gray-200 bg-gray-50">
+                    <tr>
+                      <td colSpan={3} className="px-4 py-2 text-right text-gray-600">Line items total</td>
+                      <td className="px-4 py-2 text-right font-medium text-gray-900">{formatCurrency(getItemsTotal(items))}</td>
+                    </tr>
+                    {toAmount(order.delivery_fee) > 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-4 py-2 text-right text-gray-600">Delivery fee</td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">{formatCurrency(order.delivery_fee)}</td>
+                      </tr>
+                    )}
+                    <tr>
+                      <td colSpan={3} className="px-4 py-2 text-right text-gray-600">Order total</td>
+                      <td className="px-4 py-2 text-right font-bold text-gray-900">{formatCurrency(order.total_amount)}</td>
+                    </tr>
+                    {refundedTotal > 0 && (
+                      <>
+                        <tr>
+                          <td colSpan={3} className="px-4 py-2 text-right text-gray-600">Refunded</td>
+                          <td className="px-4 py-2 text-right font-medium text-red-600">-{formatCurrency(refundedTotal)}</td>
+                        </tr>
+                        <tr>
+                          <td colSpan={3} className="px-4 py-2 text-right text-gray-600">Net amount</td>
+                          <td className="px-4 py-2 text-right font-bold text-emerald-700">
+                            {formatCurrency(toAmount(order.total_amount) - refundedTotal)}
+                          </td>
+                        </tr>
+                      </>
+                    )}
+                  </tfoot>
+                </table>
+              </div>
+            )}
+
+            {!loading && !error && (
+              mismatch ? (
+                <div className="flex items-start space-x-2 bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm">
+                  <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                  <p>
+                    Line items don&apos;t add up to the order total (difference of {formatCurrency(Math.abs(getTotalDifference(order, items)))}).
+                    Check the order before charging or refunding the customer.
+                  </p>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2 text-emerald-700 text-sm">
+                  <CheckCircle size={16} />
+                  <span>Line items match the order total</span>
+                </div>
+              )
+            )}
+
+            {!loading && !error && (
+              <OrderEditPanel
+                order={order}
+                items={items}
+                edits={edits}
+                onEdited={(edit) => {
+                  setEditedTotal(toAmount(edit.new_total));
+                  itemsEditedRef.current = true;
+                  setReloadKey(key => key + 1);
+                }}
+              />
+            )}
+
+            {!loading && !error && (
+              <OrderRefundPanel
+                order={order}
+                items={items}
+                refunds={refunds}
+                onRefunded={() => setReloadKey(key => key + 1)}
+              />
+            )}
+
+            {!loading && !error && (
+              <div className="border-t border-gray-200 pt-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={printDocument}
+                    onChange={(e) => setPrintDocument(e.target.value as PrintDocumentType)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="kitchen">Kitchen ticket</option>
+                    <option value="receipt">Customer receipt</option>
+                  </select>
+                  <select
+                    value={printFormat}
+                    onChange={(e) => setPrintFormat(e.target.value as PrintFormat)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(PRINT_FORMAT_LABELS) as PrintFormat[]).map((format) => (
+                      <option key={format} value={format}>{PRINT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handlePrint}
+                    className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    <Printer size={16} />
+                    <span>Print</span>
+                  </button>
+                  {printFormat !== 'html' && (
+                    <button
+                      onClick={() => downloadOrderText(order, items, printDocument, textWidth)}
+                      className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                    >
+                      <Download size={16} />
+                      <span>.txt</span>
+                    </button>
+                  )}
+                </div>
+                {printFormat !== 'html' && (
+                  <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs font-mono overflow-x-auto max-h-64">
+                    {formatOrderText(order, items, printDocument, textWidth)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,386 @@
+import { useState, useEffect } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { supabase, MenuItem, ModifierGroup, Order, OrderEdit, OrderEditChange, OrderItem } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { ORDER_STATUS_LABELS } from '../../lib/order-status';
+import { formatCurrency, toAmount } from '../../lib/order-totals';
+import { canEditOrder, editOrderItems, isEditLocked, OrderItemChange } from '../../lib/order-edits';
+import {
+  fetchItemModifierGroupIds,
+  fetchModifierGroups,
+  formatModifiers,
+  getItemModifierGroups,
+  getModifiersTotal,
+  parseModifierLineKey,
+  toModifierLineKey,
+  toOrderItemModifiers,
+} from '../../lib/menu-modifiers';
+import { fetchMenuAvailability } from '../../lib/menu-availability';
+import { ModifierPicker } from './ModifierPicker';
+
+interface OrderEditPanelProps {
+  order: Order;
+  items: OrderItem[];
+  edits: OrderEdit[];
+  onEdited: (edit: OrderEdit) => void;
+}
+
+const describeChange = (change: OrderEditChange): string => {
+  const name = change.modifiers && change.modifiers.length > 0
+    ? `${change.item_name} (${formatModifiers(change.modifiers)})`
+    : change.item_name;
+
+  if (change.from_quantity === 0) return `Added ${change.to_quantity} × ${name}`;
+  if (change.to_quantity === 0) return `Removed ${change.from_quantity} × ${name}`;
+  return `${name}: ${change.from_quantity} → ${change.to_quantity}`;
+};
+
+export const OrderEditPanel = ({ order, items, edits, onEdited }: OrderEditPanelProps) => {
+  const [editing, setEditing] = useState(false);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [groupIdsByItem, setGroupIdsByItem] = useState<Record<string, string[]>>({});
+  // New quantity per existing line, and quantity per added line key (see toModifierLineKey)
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [additions, setAdditions] = useState<Record<string, number>>({});
+  const [addItemId, setAddItemId] = useState('');
+  // Item whose options are being picked before it is added
+  const [pickingItemId, setPickingItemId] = useState<string | null>(null);
+  const [override, setOverride] = useState(false);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { userProfile } = useAuth();
+
+  const locked = isEditLocked(order.status);
+  const allowed = canEditOrder(order.status, userProfile?.role);
+
+  useEffect(() => {
+    if (!editing) return;
+    let cancelled = false;
+
+    const fetchAvailableItems = async () => {
+      const [{ data, error: fetchError }, availability] = await Promise.all([
+        supabase
+          .from('menu_items')
+          .select('*')
+          .eq('is_available', true)
+          .order('name', { ascending: true }),
+        // Added lines must be orderable when the order is due
+        fetchMenuAvailability(order.scheduled_for || undefined).catch(availabilityError => {
+          console.error('Error fetching menu availability:', availabilityError);
+          return null;
+        }),
+      ]);
+
+      if (cancelled) return;
+
+      if (fetchError) {
+        console.error('Error fetching menu items:', fetchError);
+        setError('Failed to load the menu');
+        return;
+      }
+      setMenuItems((data || []).filter(item => !availability || availability[item.id]?.is_available_now !== false));
+    };
+
+    fetchAvailableItems();
+
+    Promise.all([fetchModifierGroups(), fetchItemModifierGroupIds()])
+      .then(([loadedGroups, loadedLinks]) => {
+        if (cancelled) return;
+        setModifierGroups(loadedGroups);
+        setGroupIdsByItem(loadedLinks);
+      })
+      .catch(modifierError => console.error('Error loading modifier groups:', modifierError));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editing, order.scheduled_for]);
+
+  const startEditing = () => {
+    setQuantities(Object.fromEntries(items.map(item => [item.id, item.quantity])));
+    setAdditions({});
+    setAddItemId('');
+    setPickingItemId(null);
+    setOverride(false);
+    setNote('');
+    setError(null);
+    setEditing(true);
+  };
+
+  const getGroupsForItem = (itemId: string) => getItemModifierGroups(itemId, modifierGroups, groupIdsByItem);
+
+  const addedLines = Object.keys(additions)
+    .map(key => {
+      const { menuItemId, optionIds } = parseModifierLineKey(key);
+      const item = menuItems.find(candidate => candidate.id === menuItemId);
+      if (!item) return null;
+      const modifiers = toOrderItemModifiers(getGroupsForItem(item.id), optionIds);
+      return {
+        key,
+        item,
+        optionIds,
+        modifiers,
+        unitPrice: toAmount(item.price) + getModifiersTotal(modifiers),
+        quantity: additions[key],
+      };
+    })
+    .filter((line): line is NonNullable<typeof line> => !!line);
+
+  const changes: OrderItemChange[] = [
+    ...items
+      .filter(item => quantities[item.id] !== undefined && quantities[item.id] !== item.quantity)
+      .map(item => ({ order_item_id: item.id, quantity: quantities[item.id] })),
+    ...addedLines.map(line => ({
+      menu_item_id: line.item.id,
+      quantity: line.quantity,
+      modifier_option_ids: line.optionIds,
+    })),
+  ];
+
+  // Shown for reference; the server recalculates the total from the saved lines
+  const newTotal =
+    items.reduce((sum, item) => sum + toAmount(item.price) * (quantities[item.id] ?? item.quantity), 0) +
+    addedLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0) +
+    toAmount(order.delivery_fee);
+
+  const addLine = (itemId: string, optionIds: string[]) => {
+    const key = toModifierLineKey(itemId, optionIds);
+    setAdditions(prev => ({ ...prev, [key]: (prev[key] || 0) + 1 }));
+  };
+
+  // Items with modifier groups need their options chosen first
+  const handleAdd = () => {
+    if (!addItemId) return;
+    if (getGroupsForItem(addItemId).length > 0) {
+      setPickingItemId(addItemId);
+    } else {
+      addLine(addItemId, []);
+    }
+    setAddItemId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (changes.length === 0) {
+        throw new Error('Nothing has changed');
+      }
+      if (locked && !override) {
+        throw new Error(`Tick the override to edit a ${ORDER_STATUS_LABELS[order.status].toLowerCase()} order`);
+      }
+      const saved = await editOrderItems(order.id, changes, { override, note });
+      setEditing(false);
+      onEdited(saved);
+    } catch (editError: unknown) {
+      setError(editError instanceof Error ? editError.message : 'Failed to save the edit');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">Edits</h4>
+        {!editing && allowed && (
+          <button
+            onClick={startEditing}
+            className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Pencil size={16} />
+            <span>Edit items</span>
+          </button>
+        )}
+      </div>
+
+      {!allowed && order.status !== 'cancelled' && (
+        <p className="text-sm text-gray-500">
+          {ORDER_STATUS_LABELS[order.status]} orders can only be edited by a superadmin.
+        </p>
+      )}
+
+      {edits.length > 0 && (
+        <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {edits.map((edit) => (
+            <li key={edit.id} className="px-3 py-2 flex items-start justify-between gap-3">
+              <div>
+                {edit.changes.map((change, index) => (
+                  <p key={index} className="text-gray-900">{describeChange(change)}</p>
+                ))}
+                {edit.note && <p className="text-gray-600">{edit.note}</p>}
+                <p className="text-xs text-gray-400">
+                  {edit.actor?.full_name || edit.actor?.email || 'Unknown admin'} • {new Date(edit.created_at).toLocaleString()}
+                  {edit.overrode_lock && <span className="text-amber-600"> • superadmin override</span>}
+                </p>
+              </div>
+              <span className="text-gray-600 shrink-0">
+                {formatCurrency(edit.previous_total)} → <span className="font-medium text-gray-900">{formatCurrency(edit.new_total)}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-3 space-y-2 text-sm">
+          {items.map((item) => {
+            const refunded = item.refunded_quantity || 0;
+            const quantity = quantities[item.id] ?? item.quantity;
+            return (
+              <div key={item.id} className={`flex items-center gap-2 ${quantity === 0 ? 'opacity-50' : ''}`}>
+                <span className="flex-1 text-gray-900">
+                  {item.item_name}
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <span className="text-gray-500"> ({formatModifiers(item.modifiers)})</span>
+                  )}
+                  <span className="text-gray-500"> • {formatCurrency(item.price)}</span>
+                  {refunded > 0 && <span className="text-xs text-red-600"> • {refunded} refunded</span>}
+                </span>
+                <input
+                  type="number"
+                  min={refunded}
+                  value={quantity}
+                  onChange={(e) => setQuantities(prev => ({
+                    ...prev,
+                    [item.id]: Math.max(refunded, parseInt(e.target.value, 10) || 0),
+                  }))}
+                  className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setQuantities(prev => ({ ...prev, [item.id]: refunded }))}
+                  disabled={refunded > 0}
+                  title={refunded > 0 ? 'Refunded lines cannot be removed' : 'Remove line'}
+                  className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+
+          {addedLines.map(({ key, item, modifiers, unitPrice, quantity }) => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="flex-1 text-emerald-700">
+                + {item.name}
+                {modifiers.length > 0 && (
+                  <span className="text-gray-500"> ({formatModifiers(modifiers)})</span>
+                )}
+                <span className="text-gray-500"> • {formatCurrency(unitPrice)}</span>
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) => setAdditions(prev => ({ ...prev, [key]: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                onClick={() => setAdditions(prev => {
+                  const next = { ...prev };
+                  delete next[key];
+                  return next;
+                })}
+                title="Remove line"
+                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <select
+              value={addItemId}
+              onChange={(e) => setAddItemId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Add a menu item...</option>
+              {menuItems.map((item) => (
+                <option key={item.id} value={item.id}>{item.name} ({formatCurrency(item.price)})</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!addItemId}
+              className="flex items-center space-x-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-white disabled:opacity-50"
+            >
+              <Plus size={16} />
+              <span>Add</span>
+            </button>
+          </div>
+
+          {pickingItemId && (
+            <div>
+              <p className="text-gray-900 font-medium">
+                Options for {menuItems.find(item => item.id === pickingItemId)?.name}
+              </p>
+              <ModifierPicker
+                key={pickingItemId}
+                groups={getGroupsForItem(pickingItemId)}
+                inputName={`edit-${pickingItemId}`}
+                onCancel={() => setPickingItemId(null)}
+                onAdd={(optionIds) => {
+                  addLine(pickingItemId, optionIds);
+                  setPickingItemId(null);
+                }}
+              />
+            </div>
+          )}
+
+          <p className="text-right text-gray-600">
+            New total <span className="font-bold text-gray-900">{formatCurrency(newTotal)}</span>
+            <span className="text-gray-400"> (was {formatCurrency(order.total_amount)})</span>
+          </p>
+
+          {locked && (
+            <label className="flex items-center space-x-2 text-amber-700">
+              <input
+                type="checkbox"
+                checked={override}
+                onChange={(e) => setOverride(e.target.checked)}
+                className="h-4 w-4 border-gray-300 rounded"
+              />
+              <span>Override: this order is already {ORDER_STATUS_LABELS[order.status].toLowerCase()}</span>
+            </label>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              disabled={submitting}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-white disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || changes.length === 0}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Saving...' : 'Save changes'}
+            </button>
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
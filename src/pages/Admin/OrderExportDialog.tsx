@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { useNotification } from '../../contexts/NotificationContext';
+import { OrderFilters, hasActiveFilters } from '../../lib/order-filters';
+import {
+  canStreamExports,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  exportOrders,
+  ExportFormat,
+  ExportLayout,
+  getBrowserTimeZone,
+} from '../../lib/order-export';
+
+interface OrderExportDialogProps {
+  open: boolean;
+  filters: OrderFilters;
+  onClose: () => void;
+}
+
+const EXPORT_COLUMNS_KEY = 'order_export_columns';
+
+// Offered in addition to the browser's own zone
+const COMMON_TIME_ZONES = ['UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London'];
+
+const getSavedColumns = (): string[] => {
+  try {
+    const stored = localStorage.getItem(EXPORT_COLUMNS_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_EXPORT_COLUMNS;
+  } catch {
+    return DEFAULT_EXPORT_COLUMNS;
+  }
+};
+
+export const OrderExportDialog = ({ open, filters, onClose }: OrderExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [layout, setLayout] = useState<ExportLayout>('orders');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!open) return;
+    setColumns(getSavedColumns());
+    setTimeZone(getBrowserTimeZone());
+    setProgress(0);
+  }, [open]);
+
+  const timeZones = Array.from(new Set([getBrowserTimeZone(), ...COMMON_TIME_ZONES]));
+
+  const toggleColumn = (key: string) => {
+    setColumns(prev => prev.includes(key) ? prev.filter(column => column !== key) : [...prev, key]);
+  };
+
+  const handleExport = async () => {
+    if (exporting) return;
+
+    setExporting(true);
+    setProgress(0);
+    try {
+      localStorage.setItem(EXPORT_COLUMNS_KEY, JSON.stringify(columns));
+      const exported = await exportOrders(filters, { format, layout, columns, timeZone }, setProgress);
+      // null when the save dialog was cancelled; the export dialog stays open
+      if (exported === null) return;
+      addNotification(`Exported ${exported} order${exported === 1 ? '' : 's'}`, 'success');
+      onClose();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Export failed',
+        'error'
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !exporting && onClose()}>
+      <DialogContent className="max-w-xl bg-white">
+        <DialogHeader>
+          <DialogTitle>Export orders</DialogTitle>
+          <DialogDescription>
+            {hasActiveFilters(filters) || filters.schedule !== 'all'
+              ? 'Exports every order matching the current filters, not just the loaded page.'
+              : 'Exports every order. Apply filters first to narrow it down.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Format</p>
+            {(['csv', 'xlsx'] as ExportFormat[]).map((option) => (
+              <label key={option} className="flex items-center space-x-2 text-gray-700">
+                <input type="radio" checked={format === option} onChange={() => setFormat(option)} />
+                <span>{option === 'csv' ? 'CSV' : 'Excel (.xlsx)'}</span>
+              </label>
+            ))}
+          </div>
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Rows</p>
+            {(['orders', 'items'] as ExportLayout[]).map((option) => (
+              <label key={option} className="flex items-center space-x-2 text-gray-700">
+                <input type="radio" checked={layout === option} onChange={() => setLayout(option)} />
+                <span>{option === 'orders' ? 'One per order' : 'One per line item'}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {(format === 'xlsx' || !canStreamExports()) && (
+          <p className="text-xs text-gray-500">
+            {format === 'xlsx'
+              ? 'Excel files are built in memory before they are saved, so very large exports can be slow or fail. Use CSV for those.'
+              : 'This browser builds the file in memory before downloading it, so very large exports can be slow or fail. Narrow the filters, or use Chrome or Edge, which save it page by page.'}
+          </p>
+        )}
+
+        <div className="text-sm">
+          <p className="font-medium text-gray-700 mb-1">Columns</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-1">
+            {EXPORT_COLUMNS.map((column) => (
+              <label
+                key={column.key}
+                className={`flex items-center space-x-2 ${
+                  column.level === 'item' && layout === 'orders' ? 'text-gray-400' : 'text-gray-700'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  disabled={column.level === 'item' && layout === 'orders'}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>{column.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="text-sm">
+          <label className="block font-medium text-gray-700 mb-1">Timezone for dates</label>
+          <select
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {exporting && `${progress} order${progress === 1 ? '' : 's'} fetched...`}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              disabled={exporting}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || columns.length === 0}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Download size={16} />
+              <span>{exporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Search, X } from 'lucide-react';
+import { Order } from '../../lib/supabase';
+import { ORDER_STATUS_LABELS } from '../../lib/order-status';
+import { OrderFilters, EMPTY_ORDER_FILTERS, hasActiveFilters } from '../../lib/order-filters';
+
+interface OrderFilterBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+}
+
+const STATUSES = Object.keys(ORDER_STATUS_LABELS) as Order['status'][];
+
+export const OrderFilterBar = ({ filters, onChange }: OrderFilterBarProps) => {
+  // Text fields are edited as a draft and applied together
+  const [draft, setDraft] = useState({
+    search: filters.search,
+    minAmount: filters.minAmount?.toString() ?? '',
+    maxAmount: filters.maxAmount?.toString() ?? '',
+  });
+
+  // Keep the draft in sync when the URL changes (back button, shared link)
+  useEffect(() => {
+    setDraft({
+      search: filters.search,
+      minAmount: filters.minAmount?.toString() ?? '',
+      maxAmount: filters.maxAmount?.toString() ?? '',
+    });
+  }, [filters.search, filters.minAmount, filters.maxAmount]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minAmount = parseFloat(draft.minAmount);
+    const maxAmount = parseFloat(draft.maxAmount);
+    onChange({
+      ...filters,
+      search: draft.search.trim(),
+      minAmount: Number.isFinite(minAmount) ? minAmount : null,
+      maxAmount: Number.isFinite(maxAmount) ? maxAmount : null,
+    });
+  };
+
+  const toggleStatus = (status: Order['status']) => {
+    onChange({
+      ...filters,
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter(s => s !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm p-4 border border-gray-200 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Customer</label>
+          <input
+            type="text"
+            placeholder="Name, email or phone"
+            value={draft.search}
+            onChange={(e) => setDraft(prev => ({ ...prev, search: e.target.value }))}
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Search size={16} className="absolute left-3 bottom-2.5 text-gray-400" />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.dateFrom ?? ''}
+            onChange={(e) => onChange({ ...filters, dateFrom: e.target.value || null })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.dateTo ?? ''}
+            onChange={(e) => onChange({ ...filters, dateTo: e.target.value || null })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Amount ($)</label>
+          <div className="flex items-center space-x-1">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Min"
+              value={draft.minAmount}
+              onChange={(e) => setDraft(prev => ({ ...prev, minAmount: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Max"
+              value={draft.maxAmount}
+              onChange={(e) => setDraft(prev => ({ ...prev, maxAmount: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          Apply
+        </button>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...EMPTY_ORDER_FILTERS, schedule: filters.schedule })}
+            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 px-2 py-2"
+          >
+            <X size={14} />
+            <span>Clear</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => toggleStatus(status)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              filters.statuses.includes(status)
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {ORDER_STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+    </form>
+  );
+};
@@ -1,73 +1,231 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Package, Bell } from 'lucide-react';
-import { supabase, Order } from '../../lib/supabase';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Package, History, CheckCheck, Eye, EyeOff, ChevronDown, ChevronUp, Receipt, AlertTriangle, Printer, Plus, Timer, MessageSquare, CalendarClock, MapPinOff, Download, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { DeliveryZone, Order, OrderItem } from '../../lib/supabase';
 import { useNotification } from '../../contexts/NotificationContext';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  getAllowedTransitions,
+  updateOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TRANSITIONS,
+  StatusTransition,
+} from '../../lib/order-status';
+import { formatCurrency, getNetAmount, hasTotalMismatch, toAmount } from '../../lib/order-totals';
+import {
+  getPrintSettings,
+  savePrintSettings,
+  printOrders,
+  PrintDocumentType,
+  PrintFormat,
+  PrintSettings,
+  PRINT_FORMAT_LABELS,
+} from '../../lib/order-print';
+import {
+  applyFiltersToParams,
+  buildOrdersQuery,
+  getCursorAfter,
+  hasActiveFilters,
+  matchesOrderFilters,
+  parseOrderFilters,
+  OrderCursor,
+  OrderFilters,
+  OrderScheduleView,
+  ORDERS_PAGE_SIZE,
+} from '../../lib/order-filters';
+import { runBulkOrderAction, summarizeBulkResults, BulkOrderAction } from '../../lib/order-bulk';
+import { OrderTimeline } from './OrderTimeline';
+import { OrderComments } from './OrderComments';
+import { OrderBulkActions } from './OrderBulkActions';
+import { OrderFilterBar } from './OrderFilterBar';
+import { OrderDetailDialog } from './OrderDetailDialog';
+import { NewOrderDialog } from './NewOrderDialog';
+import { SlaBadge } from './SlaBadge';
+import { SlaTargetsDialog } from './SlaTargetsDialog';
+import { FulfilmentSlotsDialog } from './FulfilmentSlotsDialog';
+import { OrderExportDialog } from './OrderExportDialog';
+import { OrderReviewRulesDialog } from './OrderReviewRulesDialog';
+import { EMPTY_SLA_CONFIG, fetchSlaConfig, getOrderSla, SlaConfig } from '../../lib/order-sla';
+import {
+  DEFAULT_SCHEDULED_SETTINGS,
+  formatScheduledTime,
+  getKitchenReleaseTime,
+  getScheduledSettings,
+  isInKitchenWindow,
+  ScheduledOrderSettings,
+} from '../../lib/scheduled-orders';
+import {
+  DEFAULT_KITCHEN_LOCATION,
+  fetchDeliveryZones,
+  findDeliveryZone,
+  getKitchenLocation,
+  getOrderLocation,
+  KitchenLocation,
+  saveOrderLocation,
+} from '../../lib/delivery-zones';
+import { geocodeAddress } from '../../lib/geocoding';
+import {
+  fetchUnreadOrderIds,
+  markAllOrdersRead,
+  ReadsChannel,
+  setOrdersRead,
+  subscribeToReadChanges,
+} from '../../lib/order-reads';
+import { clearOrderReview, describeReviewReasons, fetchIsHeldForReview, isHeldForReview } from '../../lib/order-review';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+import {
+  CommentsChannel,
+  fetchUnresolvedCommentCounts,
+  subscribeToCommentChanges,
+} from '../../lib/order-comments';
+
+// Delay before auto-printing a new order, so its order_items have been written
+const AUTO_PRINT_DELAY_MS = 3000;
+// How often SLA badges are re-evaluated
+const SLA_TICK_MS = 30000;
+
+const SCHEDULE_VIEW_LABELS: Record<OrderScheduleView, string> = {
+  all: 'All orders',
+  asap: 'ASAP',
+  scheduled: 'Scheduled',
+};
 
 export const OrderManagement = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
-  const [unreadCount, setUnreadCount] = useState(0);
+  // Listed orders that are unread for this admin
+  const [unreadIds, setUnreadIds] = useState<Set<string>>(new Set());
+  const [expandedTimelines, setExpandedTimelines] = useState<Set<string>>(new Set());
+  const [expandedComments, setExpandedComments] = useState<Set<string>>(new Set());
+  // Unresolved staff comments per listed order
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
+  const [detailOrder, setDetailOrder] = useState<Order | null>(null);
+  const [newOrderOpen, setNewOrderOpen] = useState(false);
+  const [slaConfig, setSlaConfig] = useState<SlaConfig>(EMPTY_SLA_CONFIG);
+  const [slaDialogOpen, setSlaDialogOpen] = useState(false);
+  const [scheduledSettings, setScheduledSettings] = useState<ScheduledOrderSettings>(DEFAULT_SCHEDULED_SETTINGS);
+  const [slotsDialogOpen, setSlotsDialogOpen] = useState(false);
+  const [reviewRulesOpen, setReviewRulesOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [kitchenLocation, setKitchenLocation] = useState<KitchenLocation>(DEFAULT_KITCHEN_LOCATION);
+  // Orders whose delivery address couldn't be geocoded
+  const [unlocatedIds, setUnlocatedIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+  const [printSettings, setPrintSettings] = useState<PrintSettings>(() => getPrintSettings());
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Rejection message per order from the last bulk action
+  const [bulkRejections, setBulkRejections] = useState<Record<string, string>>({});
   const { addNotification } = useNotification();
+  const { user, userProfile } = useAuth();
   const mountedRef = useRef(true);
   const isFetchingRef = useRef(false);
   const addNotificationRef = useRef(addNotification);
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const channelRef = useRef<OrdersChannel | null>(null);
+  const commentsChannelRef = useRef<CommentsChannel | null>(null);
+  const readsChannelRef = useRef<ReadsChannel | null>(null);
+  const geocodedIdsRef = useRef<Set<string>>(new Set());
+  const printSettingsRef = useRef(printSettings);
+  const scheduledSettingsRef = useRef(scheduledSettings);
+  // Pre-orders to auto-print once their kitchen lead time arrives
+  const awaitingPrintRef = useRef<Map<string, Order>>(new Map());
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseOrderFilters(searchParams), [searchParams]);
+  const filtersKey = applyFiltersToParams(filters, new URLSearchParams()).toString();
+  const filtersRef = useRef(filters);
+  const requestIdRef = useRef(0);
+  const hasMoreRef = useRef(false);
 
   // Keep notification ref updated
   useEffect(() => {
     addNotificationRef.current = addNotification;
   }, [addNotification]);
 
-  const fetchOrders = useCallback(async () => {
-    if (isFetchingRef.current || !mountedRef.current) return;
+  // Keep print settings ref updated for the realtime handler
+  useEffect(() => {
+    printSettingsRef.current = printSettings;
+    savePrintSettings(printSettings);
+  }, [printSettings]);
+
+  // Line items are written right after the order row, so give them a moment.
+  // Orders held for review are printed when they're cleared instead.
+  const autoPrintKitchenTicket = useCallback((order: Order, delayMs: number) => {
+    setTimeout(() => {
+      fetchIsHeldForReview(order.id)
+        .then(held => held ? undefined : printOrders([order], 'kitchen', printSettingsRef.current.format))
+        .catch((error) => {
+          console.error('Auto-print error:', error);
+          addNotificationRef.current('Failed to auto-print kitchen ticket', 'error');
+        });
+    }, delayMs);
+  }, []);
+
+  // Pre-orders reach the kitchen a lead time before their slot, as on the kitchen display
+  const queueAutoPrint = useCallback((order: Order, delayMs: number) => {
+    if (isInKitchenWindow(order, scheduledSettingsRef.current)) {
+      autoPrintKitchenTicket(order, delayMs);
+    } else {
+      awaitingPrintRef.current.set(order.id, order);
+    }
+  }, [autoPrintKitchenTicket]);
+
+  // Loads the first page for the current filters, or the page after the cursor
+  const fetchOrders = useCallback(async (cursor: OrderCursor | null = null) => {
+    if (!mountedRef.current) return;
+    if (cursor && isFetchingRef.current) return;
     
+    // A newer request (e.g. after a filter change) supersedes this one
+    const requestId = ++requestIdRef.current;
+    const filters = filtersRef.current;
     isFetchingRef.current = true;
+    if (cursor) {
+      setLoadingMore(true);
+    }
     
     try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const { data, error } = await buildOrdersQuery(filters, { cursor, limit: ORDERS_PAGE_SIZE + 1 });
+
+      let pageData = data;
 
       if (error) {
         console.error('Error fetching orders:', error);
         addNotificationRef.current('Error loading orders. Will retry...', 'warning');
         
         // Try fallback query with simpler approach
-        const { data: fallbackData, error: fallbackError } = await supabase
-          .from('orders')
-          .select('*');
+        const { data: fallbackData, error: fallbackError } = await buildOrdersQuery(filters, {
+          select: '*',
+          cursor,
+          limit: ORDERS_PAGE_SIZE + 1,
+        });
           
         if (fallbackError || !fallbackData) {
           throw error; // If fallback also fails, throw original error
         }
         
-        // Use fallback data
-        if (mountedRef.current) {
-          // Ensure the data has all required fields
-          const validOrders = fallbackData.map(order => ({
-            ...order,
-            // Add any missing fields with default values
-            customer_email: order.customer_email || '',
-            customer_phone: order.customer_phone || '',
-            delivery_address: order.delivery_address || '',
-            user_id: order.user_id || null,
-            special_instructions: order.special_instructions || '',
-            updated_at: order.updated_at || order.created_at,
-            order_items: order.order_items || []
-          }));
-          
-          setOrders(validOrders);
-          setUnreadCount(validOrders?.filter(o => !o.is_read).length || 0);
-          addNotificationRef.current('Orders loaded with limited information', 'info');
-        }
-        return;
+        // Ensure the data has all required fields
+        pageData = fallbackData.map(order => ({
+          ...order,
+          // Add any missing fields with default values
+          customer_email: order.customer_email || '',
+          customer_phone: order.customer_phone || '',
+          delivery_address: order.delivery_address || '',
+          user_id: order.user_id || null,
+          special_instructions: order.special_instructions || '',
+          updated_at: order.updated_at || order.created_at,
+          order_items: order.order_items || []
+        }));
+        addNotificationRef.current('Orders loaded with limited information', 'info');
       }
       
-      if (mountedRef.current) {
-        setOrders(data || []);
-        setUnreadCount(data?.filter(o => !o.is_read).length || 0);
+      if (mountedRef.current && requestId === requestIdRef.current) {
+        const rows = pageData || [];
+        const page = rows.slice(0, ORDERS_PAGE_SIZE);
+        hasMoreRef.current = rows.length > ORDERS_PAGE_SIZE;
+        setHasMore(hasMoreRef.current);
+        setOrders(prev => cursor ? [...prev, ...page] : page);
       }
     } catch (error) {
       console.error('Error:', error);
@@ -75,63 +233,74 @@ export const OrderManagement = () => {
         addNotificationRef.current('Failed to fetch orders', 'error');
       }
     } finally {
-      if (mountedRef.current) {
+      if (mountedRef.current && requestId === requestIdRef.current) {
         setLoading(false);
+        setLoadingMore(false);
+      }
+      if (requestId === requestIdRef.current) {
+        isFetchingRef.current = false;
       }
-      isFetchingRef.current = false;
     }
   }, []); // No dependencies - stable function
 
   useEffect(() => {
     mountedRef.current = true;
-    fetchOrders();
     
     // Only create channel if it doesn't exist
     if (!channelRef.current) {
-      const channelName = `orders-${Date.now()}`;
-      console.log('OrderManagement: Creating channel', channelName);
-      
-      channelRef.current = supabase
-        .channel(channelName)
-        .on('postgres_changes',
-          { event: 'INSERT', schema: 'public', table: 'orders' },
-          (payload) => {
-            console.log('OrderManagement: New order received', payload);
-            if (mountedRef.current) {
-              addNotificationRef.current('New order received!', 'info');
-              setOrders(prev => [payload.new as Order, ...prev]);
-              setUnreadCount(prev => prev + 1);
+      channelRef.current = subscribeToOrderChanges('OrderManagement', {
+        onInsert: (order) => {
+          if (mountedRef.current) {
+            // New orders are unread until this admin opens or acts on them
+            setUnreadIds(prev => new Set(prev).add(order.id));
+
+            // Only show the new order if it belongs in the filtered view
+            if (matchesOrderFilters(order, filtersRef.current)) {
+              setOrders(prev => [order, ...prev]);
             }
-          }
-        )
-        .on('postgres_changes',
-          { event: 'UPDATE', schema: 'public', table: 'orders' },
-          (payload) => {
-            console.log('OrderManagement: Order updated', payload);
-            if (mountedRef.current) {
-              setOrders(prev => {
-                const updated = prev.map(order => 
-                  order.id === payload.new.id ? payload.new as Order : order
-                );
-                // Recalculate unread count
-                setUnreadCount(updated.filter(o => !o.is_read).length);
-                return updated;
-              });
+
+            if (printSettingsRef.current.autoPrintNewOrders) {
+              queueAutoPrint(order, AUTO_PRINT_DELAY_MS);
             }
           }
-        )
-        .on('postgres_changes',
-          { event: 'DELETE', schema: 'public', table: 'orders' },
-          (payload) => {
-            console.log('OrderManagement: Order deleted', payload);
-            if (mountedRef.current) {
-              setOrders(prev => prev.filter(order => order.id !== payload.old.id));
+        },
+        onUpdate: (order) => {
+          if (awaitingPrintRef.current.has(order.id)) {
+            if (order.status === 'cancelled') {
+              awaitingPrintRef.current.delete(order.id);
+            } else {
+              // The slot may have moved
+              awaitingPrintRef.current.set(order.id, order);
             }
           }
-        )
-        .subscribe((status) => {
-          console.log('OrderManagement channel status:', status);
-        });
+
+          if (mountedRef.current) {
+            const matches = matchesOrderFilters(order, filtersRef.current);
+            setOrders(prev => {
+              const existing = prev.find(o => o.id === order.id);
+              if (existing) {
+                // Realtime payloads don't carry the joined order_items
+                return matches
+                  ? prev.map(o => o.id === order.id ? { ...order, order_items: existing.order_items } : o)
+                  : prev.filter(o => o.id !== order.id);
+              }
+              // An order that now matches (e.g. moved into a filtered status) joins the list
+              // if it falls within the pages already loaded
+              const oldest = prev[prev.length - 1];
+              if (matches && (!hasMoreRef.current || !oldest || order.created_at >= oldest.created_at)) {
+                return [...prev, order].sort((a, b) => b.created_at.localeCompare(a.created_at));
+              }
+              return prev;
+            });
+          }
+        },
+        onDelete: (orderId) => {
+          awaitingPrintRef.current.delete(orderId);
+          if (mountedRef.current) {
+            setOrders(prev => prev.filter(order => order.id !== orderId));
+          }
+        },
+      });
     }
 
     return () => {
@@ -145,17 +314,197 @@ export const OrderManagement = () => {
     };
   }, []); // Empty dependencies - only run once
 
-  const updateOrderStatus = async (id: string, status: string) => {
+  // Reload from the first page whenever the filters in the URL change
+  useEffect(() => {
+    filtersRef.current = filters;
+    fetchOrders(null);
+  }, [filtersKey]);
+
+  const loadSlaConfig = useCallback(async () => {
+    try {
+      const config = await fetchSlaConfig();
+      if (mountedRef.current) {
+        setSlaConfig(config);
+      }
+    } catch (error) {
+      console.error('Error loading SLA targets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSlaConfig();
+    getScheduledSettings()
+      .then(settings => {
+        if (mountedRef.current) {
+          setScheduledSettings(settings);
+        }
+      })
+      .catch(error => console.error('Error loading pre-order settings:', error));
+    Promise.all([fetchDeliveryZones(), getKitchenLocation()])
+      .then(([loadedZones, location]) => {
+        if (mountedRef.current) {
+          setZones(loadedZones);
+          setKitchenLocation(location);
+        }
+      })
+      .catch(error => console.error('Error loading delivery zones:', error));
+    const timer = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, [loadSlaConfig]);
+
+  // Print waiting pre-orders as they are released to the kitchen
+  useEffect(() => {
+    scheduledSettingsRef.current = scheduledSettings;
+    awaitingPrintRef.current.forEach((order, orderId) => {
+      if (!isInKitchenWindow(order, scheduledSettings, now)) return;
+
+      awaitingPrintRef.current.delete(orderId);
+      if (printSettingsRef.current.autoPrintNewOrders) {
+        autoPrintKitchenTicket(order, 0);
+      }
+    });
+  }, [now, scheduledSettings, autoPrintKitchenTicket]);
+
+  const orderIdsKey = orders.map(order => order.id).join(',');
+
+  // Load unresolved comment counts for the listed orders
+  useEffect(() => {
+    if (!orderIdsKey) return;
+
+    fetchUnresolvedCommentCounts(orderIdsKey.split(','))
+      .then(counts => {
+        if (mountedRef.current) {
+          setCommentCounts(counts);
+        }
+      })
+      .catch(error => console.error('Error fetching comment counts:', error));
+  }, [orderIdsKey]);
+
+  // Geocode listed delivery addresses once and store the coordinates on the order
+  useEffect(() => {
+    if (zones.length === 0) return;
+
+    const pending = orders.filter(order =>
+      order.delivery_address?.trim()
+      && !getOrderLocation(order)
+      && !geocodedIdsRef.current.has(order.id)
+    );
+    if (pending.length === 0) return;
+    pending.forEach(order => geocodedIdsRef.current.add(order.id));
+
+    const locateOrders = async () => {
+      // One at a time, to stay within geocoding service rate limits
+      for (const order of pending) {
+        try {
+          const point = await geocodeAddress(order.delivery_address);
+          if (!mountedRef.current) return;
+          if (!point) {
+            setUnlocatedIds(prev => new Set(prev).add(order.id));
+            continue;
+          }
+          await saveOrderLocation(order.id, point);
+          // Real-time subscription will carry the coordinates into the list
+        } catch (error) {
+          console.error('Error geocoding order address:', error);
+        }
+      }
+    };
+
+    locateOrders();
+  }, [orderIdsKey, zones.length]);
+
+  const orderIdsKeyRef = useRef('');
+  orderIdsKeyRef.current = orderIdsKey;
+
+  const loadUnreadIds = useCallback(async () => {
+    const key = orderIdsKeyRef.current;
+    if (!key) return;
+
+    try {
+      const unread = await fetchUnreadOrderIds(key.split(','));
+      if (mountedRef.current) {
+        setUnreadIds(unread);
+      }
+    } catch (error) {
+      console.error('Error fetching read state:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUnreadIds();
+  }, [orderIdsKey, loadUnreadIds]);
+
+  // This admin's read state can change from another tab or device
+  useEffect(() => {
+    if (!user) return;
+    readsChannelRef.current = subscribeToReadChanges('orders-reads', user.id, () => loadUnreadIds());
+
+    return () => {
+      if (readsChannelRef.current) {
+        readsChannelRef.current.unsubscribe();
+        readsChannelRef.current = null;
+      }
+    };
+  }, [user?.id, loadUnreadIds]);
+
+  // Keep the indicators live as staff post and resolve comments
+  useEffect(() => {
+    commentsChannelRef.current = subscribeToCommentChanges('orders-comments', async (orderId) => {
+      try {
+        const counts = await fetchUnresolvedCommentCounts([orderId]);
+        if (mountedRef.current) {
+          setCommentCounts(prev => ({ ...prev, [orderId]: counts[orderId] || 0 }));
+        }
+      } catch (error) {
+        console.error('Error refreshing comment count:', error);
+      }
+    });
+
+    return () => {
+      if (commentsChannelRef.current) {
+        commentsChannelRef.current.unsubscribe();
+        commentsChannelRef.current = null;
+      }
+    };
+  }, []);
+
+  // Forget selections for orders that are no longer listed
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(orders.map(order => order.id));
+      const next = new Set(Array.from(prev).filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [orders]);
+
+  const handleFiltersChange = (next: OrderFilters) => {
+    setSearchParams(applyFiltersToParams(next, searchParams));
+  };
+
+  const loadMore = () => {
+    const last = orders[orders.length - 1];
+    if (last) {
+      fetchOrders(getCursorAfter(last));
+    }
+  };
+
+  const changeOrderStatus = async (order: Order, transition: StatusTransition) => {
     if (actionLoading) return;
+
+    let reason: string | undefined;
+    if (transition.requiresReason) {
+      const input = prompt(`Reason for moving order #${order.id.slice(-8)} to ${ORDER_STATUS_LABELS[transition.to]}:`);
+      if (input === null) return;
+      if (!input.trim()) {
+        addNotificationRef.current('A reason is required for this status change', 'error');
+        return;
+      }
+      reason = input.trim();
+    }
     
     setActionLoading(true);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status, is_read: true })
-        .eq('id', id);
-
-      if (error) throw error;
+      await updateOrderStatus(order.id, transition.to, reason);
       addNotificationRef.current('Order status updated', 'success');
       // Real-time subscription will update the list automatically
     } catch (error: unknown) {
@@ -168,14 +517,178 @@ export const OrderManagement = () => {
     }
   };
 
-  const statusOptions = [
-    { value: 'pending', label: 'Pending', color: 'bg-yellow-100 text-yellow-800' },
-    { value: 'confirmed', label: 'Confirmed', color: 'bg-blue-100 text-blue-800' },
-    { value: 'preparing', label: 'Preparing', color: 'bg-orange-100 text-orange-800' },
-    { value: 'ready', label: 'Ready', color: 'bg-purple-100 text-purple-800' },
-    { value: 'delivered', label: 'Delivered', color: 'bg-emerald-100 text-emerald-800' },
-    { value: 'cancelled', label: 'Cancelled', color: 'bg-red-100 text-red-800' },
-  ];
+  const handlePrint = async (order: Order, documentType: PrintDocumentType) => {
+    try {
+      await printOrders([order], documentType, printSettings.format);
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to print',
+        'error'
+      );
+    }
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  // Line item edits don't come through the orders realtime channel
+  const handleItemsChanged = useCallback((orderId: string, items: OrderItem[]) => {
+    setOrders(prev => prev.map(order => order.id === orderId ? { ...order, order_items: items } : order));
+  }, []);
+
+  const handleClearReview = async (order: Order) => {
+    if (actionLoading) return;
+    if (!confirm(`Release order #${order.id.slice(-8)} from review? (${describeReviewReasons(order)})`)) return;
+
+    setActionLoading(true);
+    try {
+      const cleared = await clearOrderReview([order.id]);
+      if (cleared.length > 0) {
+        setOrders(prev => prev.map(o => o.id === order.id ? { ...cleared[0], order_items: o.order_items } : o));
+        if (printSettingsRef.current.autoPrintNewOrders) {
+          queueAutoPrint(order, 0);
+        }
+      }
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to clear the review',
+        'error'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const setReadState = async (orderIds: string[], read: boolean) => {
+    try {
+      await setOrdersRead(orderIds, read);
+      setUnreadIds(prev => {
+        const next = new Set(prev);
+        orderIds.forEach(id => (read ? next.delete(id) : next.add(id)));
+        return next;
+      });
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to update read state',
+        'error'
+      );
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllOrdersRead();
+      setUnreadIds(new Set());
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to mark orders as read',
+        'error'
+      );
+    }
+  };
+
+  const handleBulkAction = async (action: BulkOrderAction) => {
+    if (actionLoading || selectedIds.size === 0) return;
+
+    // Read state is per admin, so it doesn't go through the shared bulk update
+    if (action === 'mark_read') {
+      await setReadState(Array.from(selectedIds), true);
+      setSelectedIds(new Set());
+      return;
+    }
+
+    let reason: string | undefined;
+    if (action === 'cancel') {
+      const input = prompt(`Reason for cancelling ${selectedIds.size} order${selectedIds.size > 1 ? 's' : ''}:`);
+      if (input === null) return;
+      if (!input.trim()) {
+        addNotificationRef.current('A reason is required to cancel orders', 'error');
+        return;
+      }
+      reason = input.trim();
+    }
+
+    setActionLoading(true);
+    try {
+      const results = await runBulkOrderAction(Array.from(selectedIds), action, reason);
+      const rejections: Record<string, string> = {};
+      results.forEach(result => {
+        if (!result.ok) {
+          rejections[result.order_id] = result.message || 'rejected';
+        }
+      });
+
+      setBulkRejections(rejections);
+      // Keep only the rejected orders selected so they can be dealt with
+      setSelectedIds(new Set(Object.keys(rejections)));
+      addNotificationRef.current(
+        summarizeBulkResults(results),
+        Object.keys(rejections).length > 0 ? 'warning' : 'success'
+      );
+      // Real-time subscription will update the list automatically
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Bulk action failed',
+        'error'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleBulkPrint = async () => {
+    const selectedOrders = orders.filter(order => selectedIds.has(order.id));
+    try {
+      await printOrders(selectedOrders, 'kitchen', printSettings.format);
+    } catch (error: unknown) {
+      addNotificationRef.current(
+        error instanceof Error ? error.message : 'Failed to print',
+        'error'
+      );
+    }
+  };
+
+  const toggleTimeline = (orderId: string) => {
+    setExpandedTimelines(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const toggleComments = (orderId: string) => {
+    setExpandedComments(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const statusColors: Record<Order['status'], string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    confirmed: 'bg-blue-100 text-blue-800',
+    preparing: 'bg-orange-100 text-orange-800',
+    ready: 'bg-purple-100 text-purple-800',
+    delivered: 'bg-emerald-100 text-emerald-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
 
   if (loading) {
     return <div className="flex justify-center py-12">Loading...</div>;
@@ -185,78 +698,384 @@ export const OrderManagement = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">Order Management</h2>
-        {unreadCount > 0 && (
-          <div className="flex items-center space-x-2 bg-red-100 text-red-800 px-4 py-2 rounded-lg">
-            <Bell size={20} />
-            <span className="font-semibold">{unreadCount} New Order{unreadCount > 1 ? 's' : ''}</span>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setNewOrderOpen(true)}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={18} />
+            <span>New order</span>
+          </button>
+          <button
+            onClick={() => setSlaDialogOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <Timer size={16} />
+            <span>Targets</span>
+          </button>
+          <button
+            onClick={() => setSlotsDialogOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <CalendarClock size={16} />
+            <span>Slots</span>
+          </button>
+          <button
+            onClick={() => setReviewRulesOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <ShieldAlert size={16} />
+            <span>Review rules</span>
+          </button>
+          <button
+            onClick={() => setExportOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <Download size={16} />
+            <span>Export</span>
+          </button>
+          <div className="flex items-center space-x-2 bg-white border border-gray-200 px-3 py-2 rounded-lg text-sm">
+            <Printer size={16} className="text-gray-500" />
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={printSettings.autoPrintNewOrders}
+                onChange={(e) => setPrintSettings(prev => ({ ...prev, autoPrintNewOrders: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Auto-print new orders</span>
+            </label>
+            <select
+              value={printSettings.format}
+              onChange={(e) => setPrintSettings(prev => ({ ...prev, format: e.target.value as PrintFormat }))}
+              className="border-l border-gray-200 pl-2 bg-transparent text-gray-700 focus:outline-none"
+            >
+              {(Object.keys(PRINT_FORMAT_LABELS) as PrintFormat[]).map((format) => (
+                <option key={format} value={format}>{PRINT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
           </div>
-        )}
+          {unreadIds.size > 0 && (
+            <button
+              onClick={handleMarkAllRead}
+              className="flex items-center space-x-2 bg-red-100 text-red-800 px-4 py-2 rounded-lg font-semibold hover:bg-red-200 transition-colors"
+            >
+              <CheckCheck size={18} />
+              <span>Mark all read</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg w-fit">
+        {(Object.keys(SCHEDULE_VIEW_LABELS) as OrderScheduleView[]).map((view) => (
+          <button
+            key={view}
+            onClick={() => handleFiltersChange({ ...filters, schedule: view })}
+            className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              filters.schedule === view ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {SCHEDULE_VIEW_LABELS[view]}
+          </button>
+        ))}
+      </div>
+
+      <OrderFilterBar filters={filters} onChange={handleFiltersChange} />
+
+      <OrderBulkActions
+        selectedCount={selectedIds.size}
+        totalCount={orders.length}
+        disabled={actionLoading}
+        onSelectAll={() => setSelectedIds(new Set(orders.map(order => order.id)))}
+        onClear={() => setSelectedIds(new Set())}
+        onMarkRead={() => handleBulkAction('mark_read')}
+        onAdvance={() => handleBulkAction('advance')}
+        onCancel={() => handleBulkAction('cancel')}
+        onPrint={handleBulkPrint}
+      />
+
       {orders.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm p-16 text-center">
           <Package className="mx-auto text-gray-300 mb-4" size={64} />
-          <p className="text-xl text-gray-600">No orders yet</p>
+          <p className="text-xl text-gray-600">
+            {hasActiveFilters(filters)
+              ? 'No orders match these filters'
+              : filters.schedule === 'scheduled' ? 'No scheduled orders' : 'No orders yet'}
+          </p>
         </div>
       ) : (
         <div className="space-y-4">
-          {orders.map((order) => (
-            <div
-              key={order.id}
-              className={`bg-white rounded-xl shadow-sm p-6 border-2 ${
-                !order.is_read ? 'border-red-300' : 'border-gray-200'
-              }`}
-            >
-              <div className="flex items-start justify-between mb-4">
-                <div>
-                  <h3 className="text-lg font-bold text-gray-900">Order #{order.id.slice(-8)}</h3>
-                  <p className="text-gray-600">{order.customer_name}</p>
-                  <p className="text-sm text-gray-500">{order.customer_email} • {order.customer_phone}</p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    {new Date(order.created_at).toLocaleDateString()} at {new Date(order.created_at).toLocaleTimeString()}
-                  </p>
+          {orders.map((order) => {
+            const heldForReview = isHeldForReview(order);
+            // Held orders can only be cancelled until someone clears them
+            const transitions = getAllowedTransitions(order.status, userProfile?.role)
+              .filter(transition => !heldForReview || transition.to === 'cancelled');
+            const sla = getOrderSla(order, slaConfig, now);
+            const unread = unreadIds.has(order.id);
+            const kitchenRelease = getKitchenReleaseTime(order, scheduledSettings);
+            const location = getOrderLocation(order);
+            const outOfZone = zones.length > 0 && (
+              location ? !findDeliveryZone(location, zones, kitchenLocation) : unlocatedIds.has(order.id)
+            );
+            return (
+              <div
+                key={order.id}
+                className={`bg-white rounded-xl shadow-sm p-6 border-2 ${
+                  sla?.state === 'breached'
+                    ? 'border-red-600'
+                    : sla?.state === 'at_risk'
+                      ? 'border-amber-400'
+                      : unread ? 'border-red-300' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(order.id)}
+                        onChange={() => toggleSelected(order.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <h3 className="text-lg font-bold text-gray-900">Order #{order.id.slice(-8)}</h3>
+                      {!!commentCounts[order.id] && (
+                        <span
+                          className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                          title="Unresolved staff comments"
+                        >
+                          <MessageSquare size={12} />
+                          <span>{commentCounts[order.id]}</span>
+                        </span>
+                      )}
+                      {heldForReview && (
+                        <span
+                          className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800"
+                          title={describeReviewReasons(order)}
+                        >
+                          <ShieldAlert size={12} />
+                          <span>Review</span>
+                        </span>
+                      )}
+                      {order.source && order.source !== 'online' && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          {order.source === 'phone' ? 'Phone' : 'Walk-in'}
+                        </span>
+                      )}
+                    </label>
+                    <p className="text-gray-600">{order.customer_name}</p>
+                    <p className="text-sm text-gray-500">{order.customer_email} • {order.customer_phone}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(order.created_at).toLocaleDateString()} at {new Date(order.created_at).toLocaleTimeString()}
+                    </p>
+                    {order.scheduled_for && (
+                      <p className="flex items-center space-x-1 text-sm font-medium text-indigo-700 mt-1">
+                        <CalendarClock size={14} />
+                        <span>For {formatScheduledTime(order.scheduled_for)}</span>
+                        {kitchenRelease && !isInKitchenWindow(order, scheduledSettings, now) && (
+                          <span className="text-xs font-normal text-gray-500">
+                            · to kitchen at {kitchenRelease.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-emerald-600">${parseFloat(order.total_amount.toString()).toFixed(2)}</p>
+                    {toAmount(order.refunded_amount) > 0 && (
+                      <p className="text-sm text-gray-600">
+                        Net {formatCurrency(getNetAmount(order))}
+                        <span className="text-red-600"> (-{formatCurrency(order.refunded_amount)})</span>
+                      </p>
+                    )}
+                    <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${
+                      statusColors[order.status] || 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </span>
+                    {sla && sla.state !== 'on_track' && (
+                      <div className="mt-2">
+                        <SlaBadge sla={sla} />
+                      </div>
+                    )}
+                    {outOfZone && (
+                      <p className="flex items-center justify-end space-x-1 text-xs font-medium text-red-600 mt-2">
+                        <MapPinOff size={14} />
+                        <span>{location ? 'Outside delivery zones' : 'Address not found'}</span>
+                      </p>
+                    )}
+                    {hasTotalMismatch(order) && (
+                      <p className="flex items-center justify-end space-x-1 text-xs font-medium text-red-600 mt-2">
+                        <AlertTriangle size={14} />
+                        <span>Items don&apos;t match total</span>
+                      </p>
+                    )}
+                  </div>
                 </div>
-                <div className="text-right">
-                  <p className="text-2xl font-bold text-emerald-600">${parseFloat(order.total_amount.toString()).toFixed(2)}</p>
-                  <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${
-                    statusOptions.find(s => s.value === order.status)?.color || 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                  </span>
+
+                <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                  <p className="text-sm font-medium text-gray-700 mb-1">Delivery Address:</p>
+                  <p className="text-sm text-gray-900">{order.delivery_address}</p>
+                  {order.special_instructions && (
+                    <div className="mt-3">
+                      <p className="text-sm font-medium text-gray-700 mb-1">Special Instructions:</p>
+                      <p className="text-sm text-gray-900">{order.special_instructions}</p>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              <div className="bg-gray-50 rounded-lg p-4 mb-4">
-                <p className="text-sm font-medium text-gray-700 mb-1">Delivery Address:</p>
-                <p className="text-sm text-gray-900">{order.delivery_address}</p>
-                {order.special_instructions && (
-                  <div className="mt-3">
-                    <p className="text-sm font-medium text-gray-700 mb-1">Special Instructions:</p>
-                    <p className="text-sm text-gray-900">{order.special_instructions}</p>
+                {bulkRejections[order.id] && (
+                  <p className="flex items-center space-x-1 text-sm text-red-700 bg-red-50 rounded-lg px-3 py-2 mb-4">
+                    <AlertTriangle size={14} />
+                    <span>Bulk action rejected: {bulkRejections[order.id]}</span>
+                  </p>
+                )}
+
+                {heldForReview && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 mb-4">
+                    <span className="flex items-center space-x-1">
+                      <ShieldAlert size={14} />
+                      <span>Held for review: {describeReviewReasons(order)}</span>
+                    </span>
+                    <button
+                      onClick={() => handleClearReview(order)}
+                      disabled={actionLoading}
+                      className="flex items-center space-x-1 px-3 py-1 bg-white border border-orange-300 rounded-lg font-medium hover:bg-orange-100 disabled:opacity-50"
+                    >
+                      <ShieldCheck size={14} />
+                      <span>Clear for kitchen</span>
+                    </button>
+                  </div>
+                )}
+
+                {order.status_reason && (
+                  <p className="text-sm text-gray-600 mb-4">
+                    <span className="font-medium text-gray-700">Reason:</span> {order.status_reason}
+                  </p>
+                )}
+
+                {transitions.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    {ORDER_STATUS_TRANSITIONS[order.status].length === 0
+                      ? 'This order is closed.'
+                      : 'You are not allowed to change this order.'}
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {transitions.map((transition) => (
+                      <button
+                        key={transition.to}
+                        onClick={() => changeOrderStatus(order, transition)}
+                        disabled={actionLoading}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                          transition.to === 'cancelled'
+                            ? 'bg-red-50 text-red-700 hover:bg-red-100'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {transition.to === 'cancelled' ? 'Cancel order' : `Mark ${ORDER_STATUS_LABELS[transition.to]}`}
+                        {transition.requiresReason && ' …'}
+                      </button>
+                    ))}
                   </div>
                 )}
-              </div>
 
-              <div className="flex flex-wrap gap-2">
-                {statusOptions.map((status) => (
-                  <button
-                    key={status.value}
-                    onClick={() => updateOrderStatus(order.id, status.value)}
-                    disabled={actionLoading || order.status === status.value}
-                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                      order.status === status.value
-                        ? `${status.color} cursor-not-allowed`
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
-                    }`}
-                  >
-                    {status.label}
-                  </button>
-                ))}
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <div className="flex items-center space-x-6">
+                    <button
+                      onClick={() => setDetailOrder(order)}
+                      className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <Receipt size={16} />
+                      <span>Order details</span>
+                    </button>
+                    <button
+                      onClick={() => handlePrint(order, 'kitchen')}
+                      className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <Printer size={16} />
+                      <span>Kitchen ticket</span>
+                    </button>
+                    <button
+                      onClick={() => handlePrint(order, 'receipt')}
+                      className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <Printer size={16} />
+                      <span>Receipt</span>
+                    </button>
+                    <button
+                      onClick={() => toggleTimeline(order.id)}
+                      className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <History size={16} />
+                      <span>Status history</span>
+                      {expandedTimelines.has(order.id) ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    </button>
+                    <button
+                      onClick={() => toggleComments(order.id)}
+                      className="flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <MessageSquare size={16} />
+                      <span>Staff comments{commentCounts[order.id] ? ` (${commentCounts[order.id]} open)` : ''}</span>
+                      {expandedComments.has(order.id) ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    </button>
+                    <button
+                      onClick={() => setReadState([order.id], unread)}
+                      className="flex items-center space-x-2 text-sm font-medium text-gray-500 hover:text-gray-700"
+                    >
+                      {unread ? <Eye size={16} /> : <EyeOff size={16} />}
+                      <span>{unread ? 'Mark read' : 'Mark unread'}</span>
+                    </button>
+                  </div>
+                  {expandedTimelines.has(order.id) && (
+                    <div className="mt-3">
+                      <OrderTimeline orderId={order.id} status={order.status} />
+                    </div>
+                  )}
+                  {expandedComments.has(order.id) && (
+                    <div className="mt-3">
+                      <OrderComments orderId={order.id} />
+                    </div>
+                  )}
+                </div>
               </div>
+            );
+          })}
+
+          {hasMore && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more orders'}
+              </button>
             </div>
-          ))}
+          )}
         </div>
       )}
+
+      <OrderDetailDialog
+        order={detailOrder}
+        onClose={() => setDetailOrder(null)}
+        onItemsChanged={handleItemsChanged}
+      />
+      <NewOrderDialog open={newOrderOpen} onClose={() => setNewOrderOpen(false)} />
+      <SlaTargetsDialog
+        open={slaDialogOpen}
+        targets={slaConfig.targets}
+        onClose={() => setSlaDialogOpen(false)}
+        onSaved={loadSlaConfig}
+      />
+      <FulfilmentSlotsDialog
+        open={slotsDialogOpen}
+        settings={scheduledSettings}
+        onClose={() => setSlotsDialogOpen(false)}
+        onSettingsSaved={setScheduledSettings}
+      />
+      <OrderExportDialog open={exportOpen} filters={filters} onClose={() => setExportOpen(false)} />
+      <OrderReviewRulesDialog open={reviewRulesOpen} onClose={() => setReviewRulesOpen(false)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Order, OrderItem, OrderRefund } from '../../lib/supabase';
+import { formatCurrency, getRefundableQuantity, toAmount } from '../../lib/order-totals';
+import { formatModifiers } from '../../lib/menu-modifiers';
+import {
+  refundOrderAmount,
+  refundOrderItem,
+  RefundReasonCode,
+  REFUND_REASON_LABELS,
+} from '../../lib/order-refunds';
+
+interface OrderRefundPanelProps {
+  order: Order;
+  items: OrderItem[];
+  refunds: OrderRefund[];
+  onRefunded: () => void;
+}
+
+type RefundMode = 'item' | 'amount';
+
+export const OrderRefundPanel = ({ order, items, refunds, onRefunded }: OrderRefundPanelProps) => {
+  const [mode, setMode] = useState<RefundMode>('item');
+  const [itemId, setItemId] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [amount, setAmount] = useState('');
+  const [reasonCode, setReasonCode] = useState<RefundReasonCode>('wrong_item');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refundedTotal = refunds.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+  const remaining = toAmount(order.total_amount) - refundedTotal;
+  const refundableItems = items.filter(item => getRefundableQuantity(item) > 0);
+  const selectedItem = refundableItems.find(item => item.id === itemId);
+
+  const resetForm = () => {
+    setItemId('');
+    setQuantity(1);
+    setAmount('');
+    setNote('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'item') {
+        if (!selectedItem) {
+          throw new Error('Choose a line to refund');
+        }
+        await refundOrderItem(selectedItem.id, quantity, reasonCode, note);
+      } else {
+        const value = parseFloat(amount);
+        if (!Number.isFinite(value) || value <= 0) {
+          throw new Error('Enter an amount greater than zero');
+        }
+        await refundOrderAmount(order.id, value, reasonCode, note);
+      }
+      resetForm();
+      onRefunded();
+    } catch (refundError: unknown) {
+      setError(refundError instanceof Error ? refundError.message : 'Failed to record refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">Refunds</h4>
+        <p className="text-sm text-gray-600">
+          {formatCurrency(refundedTotal)} refunded • {formatCurrency(remaining)} refundable
+        </p>
+      </div>
+
+      {refunds.length > 0 && (
+        <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {refunds.map((refund) => {
+            const item = items.find(line => line.id === refund.order_item_id);
+            return (
+              <li key={refund.id} className="px-3 py-2 flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-gray-900">
+                    {item ? `${refund.quantity} × ${item.item_name}` : 'Partial amount'}
+                    <span className="text-gray-500"> • {REFUND_REASON_LABELS[refund.reason_code]}</span>
+                  </p>
+                  {refund.note && <p className="text-gray-600">{refund.note}</p>}
+                  <p className="text-xs text-gray-400">
+                    {refund.actor?.full_name || refund.actor?.email || 'Unknown admin'} • {new Date(refund.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <span className="font-medium text-red-600 shrink-0">-{formatCurrency(refund.amount)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {remaining > 0 && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-3 space-y-2 text-sm">
+          <div className="flex space-x-2">
+            {(['item', 'amount'] as RefundMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 rounded-lg font-medium ${
+                  mode === option ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700'
+                }`}
+              >
+                {option === 'item' ? 'Refund or cancel a line' : 'Refund an amount'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'item' ? (
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={itemId}
+                onChange={(e) => {
+                  setItemId(e.target.value);
+                  setQuantity(1);
+                }}
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Choose a line...</option>
+                {refundableItems.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.modifiers && item.modifiers.length > 0
+                      ? `${item.item_name} + ${formatModifiers(item.modifiers)}`
+                      : item.item_name}
+                    {` (${getRefundableQuantity(item)} left at ${formatCurrency(item.price)})`}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                max={selectedItem ? getRefundableQuantity(selectedItem) : 1}
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value, 10) || 1)}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ) : (
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={remaining.toFixed(2)}
+              placeholder="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as RefundReasonCode)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(REFUND_REASON_LABELS) as RefundReasonCode[]).map((code) => (
+                <option key={code} value={code}>{REFUND_REASON_LABELS[code]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <RotateCcw size={16} />
+              <span>{submitting ? 'Refunding...' : 'Refund'}</span>
+            </button>
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
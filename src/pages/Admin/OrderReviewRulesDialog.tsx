@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { OrderBlocklistEntry } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  addBlocklistEntry,
+  BlocklistKind,
+  BLOCKLIST_KIND_LABELS,
+  DEFAULT_REVIEW_RULES,
+  fetchBlocklist,
+  getReviewRules,
+  removeBlocklistEntry,
+  saveReviewRules,
+} from '../../lib/order-review';
+
+interface OrderReviewRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const OrderReviewRulesDialog = ({ open, onClose }: OrderReviewRulesDialogProps) => {
+  const [windowDraft, setWindowDraft] = useState(String(DEFAULT_REVIEW_RULES.duplicate_window_minutes));
+  const [amountDraft, setAmountDraft] = useState('');
+  const [blocklist, setBlocklist] = useState<OrderBlocklistEntry[]>([]);
+  const [entryKind, setEntryKind] = useState<BlocklistKind>('phone');
+  const [entryValue, setEntryValue] = useState('');
+  const [entryNote, setEntryNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = useNotification();
+
+  const loadBlocklist = useCallback(async () => {
+    try {
+      setBlocklist(await fetchBlocklist());
+    } catch (error) {
+      console.error('Error fetching blocklist:', error);
+      addNotification('Failed to load the blocklist', 'error');
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    if (!open) return;
+    setEntryValue('');
+    setEntryNote('');
+
+    getReviewRules()
+      .then(rules => {
+        setWindowDraft(String(rules.duplicate_window_minutes));
+        setAmountDraft(rules.large_order_amount !== null ? String(rules.large_order_amount) : '');
+      })
+      .catch(error => console.error('Error loading review rules:', error));
+    loadBlocklist();
+  }, [open]);
+
+  const handleSaveRules = async () => {
+    const windowMinutes = parseInt(windowDraft, 10);
+    const largeAmount = amountDraft.trim() ? parseFloat(amountDraft) : null;
+
+    if (!Number.isInteger(windowMinutes) || windowMinutes < 0) {
+      addNotification('Duplicate window must be 0 minutes or more', 'error');
+      return;
+    }
+    if (largeAmount !== null && (!Number.isFinite(largeAmount) || largeAmount <= 0)) {
+      addNotification('Large order amount must be above zero, or blank to turn it off', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveReviewRules({ duplicate_window_minutes: windowMinutes, large_order_amount: largeAmount });
+      addNotification('Review rules saved', 'success');
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save review rules',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entryValue.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      await addBlocklistEntry(entryKind, entryValue, entryNote);
+      setEntryValue('');
+      setEntryNote('');
+      await loadBlocklist();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to add blocklist entry',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveEntry = async (entry: OrderBlocklistEntry) => {
+    if (!confirm(`Remove ${entry.value} from the blocklist?`)) return;
+
+    try {
+      await removeBlocklistEntry(entry.id);
+      await loadBlocklist();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to remove blocklist entry',
+        'error'
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order review rules</DialogTitle>
+          <DialogDescription>
+            Matching online orders are held in pending with a review badge until an admin clears them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 text-sm">
+          <label className="flex items-center justify-between text-gray-700">
+            <span>Flag repeat orders (same phone or email, identical items) within, minutes</span>
+            <input
+              type="number"
+              min={0}
+              value={windowDraft}
+              onChange={(e) => setWindowDraft(e.target.value)}
+              className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="flex items-center justify-between text-gray-700">
+            <span>Flag orders with a total above</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="Off"
+              value={amountDraft}
+              onChange={(e) => setAmountDraft(e.target.value)}
+              className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <button
+            onClick={handleSaveRules}
+            disabled={saving}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save rules
+          </button>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 space-y-2 text-sm">
+          <p className="font-medium text-gray-700">Blocklist</p>
+          <form onSubmit={handleAddEntry} className="flex flex-wrap gap-2">
+            <select
+              value={entryKind}
+              onChange={(e) => setEntryKind(e.target.value as BlocklistKind)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg"
+            >
+              {(Object.keys(BLOCKLIST_KIND_LABELS) as BlocklistKind[]).map((kind) => (
+                <option key={kind} value={kind}>{BLOCKLIST_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder={entryKind === 'address' ? 'Full delivery address' : entryKind === 'email' ? 'Email' : 'Phone number'}
+              value={entryValue}
+              onChange={(e) => setEntryValue(e.target.value)}
+              className="flex-1 min-w-[10rem] px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              value={entryNote}
+              onChange={(e) => setEntryNote(e.target.value)}
+              className="flex-1 min-w-[8rem] px-2 py-1.5 border border-gray-300 rounded-lg"
+            />
+            <button
+              type="submit"
+              disabled={saving || !entryValue.trim()}
+              className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+
+          {blocklist.length === 0 ? (
+            <p className="text-gray-500">Nothing blocklisted</p>
+          ) : (
+            blocklist.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2">
+                <div>
+                  <p className="text-gray-900">
+                    <span className="text-gray-500">{BLOCKLIST_KIND_LABELS[entry.kind]}:</span> {entry.value}
+                  </p>
+                  {entry.note && <p className="text-xs text-gray-500">{entry.note}</p>}
+                </div>
+                <button
+                  onClick={() => handleRemoveEntry(entry)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove from blocklist"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
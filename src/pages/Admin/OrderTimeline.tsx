@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { supabase, Order, OrderEvent } from '../../lib/supabase';
+import { ORDER_STATUS_LABELS } from '../../lib/order-status';
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Refetches the history whenever the order's status changes
+  status: Order['status'];
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+};
+
+export const OrderTimeline = ({ orderId, status }: OrderTimelineProps) => {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEvents = async () => {
+      const { data, error: fetchError } = await supabase
+        .from('order_events')
+        .select('*, actor:users(email, full_name)')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (cancelled) return;
+
+      if (fetchError) {
+        console.error('Error fetching order events:', fetchError);
+        setError('Failed to load status history');
+      } else {
+        setEvents(data || []);
+        setError(null);
+      }
+      setLoading(false);
+    };
+
+    fetchEvents();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, status]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 py-2">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-2">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 py-2">No status history recorded</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4 py-1">
+      {events.map((event, index) => {
+        const previous = events[index - 1];
+        const actorName = event.actor?.full_name || event.actor?.email;
+        return (
+          <li key={event.id} className="ml-4">
+            <div className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-blue-500"></div>
+            <p className="text-sm font-medium text-gray-900">
+              {event.from_status
+                ? `${ORDER_STATUS_LABELS[event.from_status]} → ${ORDER_STATUS_LABELS[event.to_status]}`
+                : `Placed as ${ORDER_STATUS_LABELS[event.to_status]}`}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(event.created_at).toLocaleString()}
+              {actorName && ` • by ${actorName}`}
+              {previous && ` • after ${formatDuration(new Date(event.created_at).getTime() - new Date(previous.created_at).getTime())}`}
+            </p>
+            {event.note && (
+              <p className="text-sm text-gray-700 mt-1 bg-gray-50 rounded px-2 py-1">{event.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
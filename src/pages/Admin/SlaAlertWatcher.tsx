@@ -0,0 +1,93 @@
+import { useEffect, useRef } from 'react';
+import { supabase, Order } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { EMPTY_SLA_CONFIG, fetchSlaConfig, getOrderSla, SlaConfig } from '../../lib/order-sla';
+
+const CHECK_INTERVAL_MS = 30000;
+// Targets and menu categories change rarely, so reload them every few checks
+const CONFIG_REFRESH_CHECKS = 10;
+
+/**
+ * Raises a sticky alert when an order sits in pending past its acknowledge
+ * target, and escalates it each time another target period passes.
+ * Mounted once in the admin panel so it runs whichever tab is open.
+ */
+export const SlaAlertWatcher = () => {
+  const { addNotification, dismissNotification } = useNotification();
+  const addNotificationRef = useRef(addNotification);
+  const dismissNotificationRef = useRef(dismissNotification);
+  // Escalation level already alerted, per order id
+  const alertedLevelsRef = useRef<Record<string, number>>({});
+
+  // Keep notification refs updated
+  useEffect(() => {
+    addNotificationRef.current = addNotification;
+    dismissNotificationRef.current = dismissNotification;
+  }, [addNotification, dismissNotification]);
+
+  useEffect(() => {
+    let mounted = true;
+    let config: SlaConfig = EMPTY_SLA_CONFIG;
+    let checks = 0;
+
+    const checkPendingOrders = async () => {
+      try {
+        if (checks % CONFIG_REFRESH_CHECKS === 0) {
+          config = await fetchSlaConfig();
+        }
+        checks++;
+
+        const { data, error } = await supabase
+          .from('orders')
+          .select('*, order_items(*)')
+          .eq('status', 'pending');
+
+        if (error) throw error;
+        if (!mounted) return;
+
+        const now = Date.now();
+        const stillPending = new Set<string>();
+
+        ((data || []) as Order[]).forEach(order => {
+          stillPending.add(order.id);
+          const sla = getOrderSla(order, config, now);
+          if (!sla || sla.state !== 'breached') return;
+
+          // Level 1 at the deadline, then one more for every further target period
+          const level = Math.floor((sla.elapsedMinutes - sla.targetMinutes) / sla.targetMinutes) + 1;
+          if (level <= (alertedLevelsRef.current[order.id] || 0)) return;
+          alertedLevelsRef.current[order.id] = level;
+
+          const waited = Math.round(sla.elapsedMinutes);
+          addNotificationRef.current(
+            level === 1
+              ? `Order #${order.id.slice(-8)} (${order.customer_name}) is still pending after ${waited} min`
+              : `Order #${order.id.slice(-8)} (${order.customer_name}) has been pending ${waited} min, ${level}× the ${sla.targetMinutes} min target`,
+            level === 1 ? 'warning' : 'error',
+            { duration: 0, key: `sla-${order.id}` }
+          );
+        });
+
+        // Orders that were acknowledged (or cancelled) no longer need an alert
+        Object.keys(alertedLevelsRef.current).forEach(orderId => {
+          if (!stillPending.has(orderId)) {
+            delete alertedLevelsRef.current[orderId];
+            dismissNotificationRef.current(`sla-${orderId}`);
+          }
+        });
+      } catch (error) {
+        console.error('Error checking order SLAs:', error);
+      }
+    };
+
+    checkPendingOrders();
+    const timer = setInterval(checkPendingOrders, CHECK_INTERVAL_MS);
+
+    return () => {
+      mounted = false;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return null;
+};
@@ -0,0 +1,26 @@
+import { Timer } from 'lucide-react';
+import { OrderSla } from '../../lib/order-sla';
+
+interface SlaBadgeProps {
+  sla: OrderSla | null;
+}
+
+// Orders that are on track stay quiet; only at-risk and breached ones are flagged
+export const SlaBadge = ({ sla }: SlaBadgeProps) => {
+  if (!sla || sla.state === 'on_track') return null;
+
+  const breached = sla.state === 'breached';
+  const minutes = Math.round(Math.abs(sla.targetMinutes - sla.elapsedMinutes));
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+        breached ? 'bg-red-600 text-white' : 'bg-amber-100 text-amber-800'
+      }`}
+      title={`Target ${sla.targetMinutes} min, due ${sla.deadline.toLocaleTimeString()}`}
+    >
+      <Timer size={12} />
+      <span>{breached ? `${minutes} min over target` : `Due in ${minutes} min`}</span>
+    </span>
+  );
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { MenuCategory, SlaTarget } from '../../lib/supabase';
+import { useNotification } from '../../contexts/NotificationContext';
+import { fetchMenuCategories } from '../../lib/menu-categories';
+import {
+  saveSlaTarget,
+  SlaStage,
+  SLA_STAGES,
+  SLA_STAGE_LABELS,
+} from '../../lib/order-sla';
+
+interface SlaTargetsDialogProps {
+  open: boolean;
+  targets: SlaTarget[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Column key: null for the global target, otherwise a category slug
+interface TargetColumn {
+  category: string | null;
+  label: string;
+}
+
+const cellKey = (stage: SlaStage, category: string | null) => `${stage}:${category || ''}`;
+
+export const SlaTargetsDialog = ({ open, targets, onClose, onSaved }: SlaTargetsDialogProps) => {
+  // Draft values as typed; empty means "no override" for category columns
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    if (!open) return;
+    const values: Record<string, string> = {};
+    targets.forEach(target => {
+      values[cellKey(target.stage, target.category)] = String(target.target_minutes);
+    });
+    setDraft(values);
+  }, [open, targets]);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchMenuCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading menu categories:', error));
+  }, [open]);
+
+  // Inactive categories only get a column while they still have an override
+  const columns: TargetColumn[] = [
+    { category: null, label: 'Global' },
+    ...categories
+      .filter(category => category.is_active || targets.some(target => target.category === category.slug))
+      .map(category => ({ category: category.slug, label: category.name })),
+  ];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Validate every cell before writing any of them
+      const changes: { stage: SlaStage; category: string | null; minutes: number | null }[] = [];
+      SLA_STAGES.forEach(stage => {
+        columns.forEach(({ category }) => {
+          const raw = (draft[cellKey(stage, category)] || '').trim();
+          const minutes = raw === '' ? null : parseInt(raw, 10);
+
+          if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1)) {
+            throw new Error(`${SLA_STAGE_LABELS[stage]} targets must be whole minutes above zero`);
+          }
+          if (!category && minutes === null) {
+            throw new Error(`${SLA_STAGE_LABELS[stage]} needs a global target`);
+          }
+
+          const current = targets.find(target => target.stage === stage && target.category === category);
+          if ((current?.target_minutes ?? null) !== minutes) {
+            changes.push({ stage, category, minutes });
+          }
+        });
+      });
+
+      for (const change of changes) {
+        await saveSlaTarget(targets, change.stage, change.category, change.minutes);
+      }
+      addNotification('Prep-time targets saved', 'success');
+      onSaved();
+      onClose();
+    } catch (error: unknown) {
+      addNotification(
+        error instanceof Error ? error.message : 'Failed to save targets',
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl bg-white">
+        <DialogHeader>
+          <DialogTitle>Prep-time targets</DialogTitle>
+          <DialogDescription>
+            Minutes allowed for each stage. Category targets override the global one; leave them empty to use it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-left font-medium py-2">Stage</th>
+                {columns.map((column) => (
+                  <th key={column.category || 'global'} className="text-left font-medium py-2">{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SLA_STAGES.map((stage) => (
+                <tr key={stage} className="border-t border-gray-100">
+                  <td className="py-2 pr-3 text-gray-900">{SLA_STAGE_LABELS[stage]}</td>
+                  {columns.map(({ category }) => (
+                    <td key={category || 'global'} className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft[cellKey(stage, category)] || ''}
+                        placeholder={category ? 'Global' : ''}
+                        onChange={(e) => setDraft(prev => ({ ...prev, [cellKey(stage, category)]: e.target.value }))}
+                        className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save targets'}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { subscribeToOrderChanges, OrdersChannel } from '../../lib/orders-realtime';
+import { fetchUnreadOrderCount, ReadsChannel, subscribeToReadChanges } from '../../lib/order-reads';
+
+// Coalesce bursts of changes (e.g. a bulk action) into one recount
+const REFRESH_DEBOUNCE_MS = 300;
+
+/**
+ * Unread order count for the signed-in admin, shown next to "Orders" in the sidebar
+ */
+export const UnreadOrdersBadge = () => {
+  const [count, setCount] = useState(0);
+  const { user } = useAuth();
+  const mountedRef = useRef(true);
+  const ordersChannelRef = useRef<OrdersChannel | null>(null);
+  const readsChannelRef = useRef<ReadsChannel | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    mountedRef.current = true;
+
+    const refresh = () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(async () => {
+        try {
+          const unread = await fetchUnreadOrderCount();
+          if (mountedRef.current) {
+            setCount(unread);
+          }
+        } catch (error) {
+          console.error('Error fetching unread order count:', error);
+        }
+      }, REFRESH_DEBOUNCE_MS);
+    };
+
+    refresh();
+    ordersChannelRef.current = subscribeToOrderChanges('unread-orders', {
+      onInsert: refresh,
+      onDelete: refresh,
+    });
+    readsChannelRef.current = subscribeToReadChanges('unread-orders-reads', user.id, refresh);
+
+    return () => {
+      mountedRef.current = false;
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      if (ordersChannelRef.current) {
+        ordersChannelRef.current.unsubscribe();
+        ordersChannelRef.current = null;
+      }
+      if (readsChannelRef.current) {
+        readsChannelRef.current.unsubscribe();
+        readsChannelRef.current = null;
+      }
+    };
+  }, [user?.id]);
+
+  if (count === 0) return null;
+
+  return (
+    <span className="bg-red-500 text-white text-xs font-bold rounded-full h-5 min-w-[1.25rem] px-1.5 flex items-center justify-center">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+};
@@ -15,7 +15,7 @@ export const UserManagement = () => {
     full_name: '',
     phone: '',
     password: '',
-    role: 'customer' as 'customer' | 'admin' | 'superadmin',
+    role: 'customer' as User['role'],
   });
 
   useEffect(() => {
@@ -41,7 +41,7 @@ export const UserManagement = () => {
       const { data, error } = await supabase
         .from('users')
         .select('*')
-        .or('role.eq.admin,role.eq.customer,role.eq.superadmin')
+        .or('role.eq.admin,role.eq.customer,role.eq.superadmin,role.eq.driver')
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -304,10 +304,11 @@ export const UserManagement = () => {
                 <label className="block text-sm font-medium text-gray-700 mb-1.5">User Role</label>
                 <select
                   value={formData.role}
-                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as 'customer' | 'admin' | 'superadmin' }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as User['role'] }))}
                   className="w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white appearance-none"
                 >
                   <option value="customer">Customer</option>
+                  <option value="driver">Driver</option>
                   <option value="admin">Admin</option>
                   <option value="superadmin">Super Admin</option>
                 </select>
@@ -392,7 +393,9 @@ export const UserManagement = () => {
                       ? 'bg-purple-100 text-purple-700 border border-purple-200' 
                       : user.role === 'admin'
                         ? 'bg-blue-100 text-blue-700 border border-blue-200' 
-                        : 'bg-gray-100 text-gray-700 border border-gray-200'
+                        : user.role === 'driver'
+                          ? 'bg-teal-100 text-teal-700 border border-teal-200'
+                          : 'bg-gray-100 text-gray-700 border border-gray-200'
                   }`}>
                     {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
                   </span>
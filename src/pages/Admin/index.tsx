@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AdminLogin } from './AdminLogin';
 import { AdminPanel } from './AdminPanel';
+import { KitchenDisplay } from './KitchenDisplay';
+import { DriverView } from './DriverView';
 import { useAuth } from '../../contexts/AuthContext';
 
 export const AdminApp = () => {
@@ -10,8 +12,8 @@ export const AdminApp = () => {
 
   useEffect(() => {
     if (!loading) {
-      // If user is authenticated and has admin role, show panel
-      if (user && userProfile && (userProfile.role === 'admin' || userProfile.role === 'superadmin')) {
+      // If user is authenticated and has admin (or driver) role, show panel
+      if (user && userProfile && ['admin', 'superadmin', 'driver'].includes(userProfile.role)) {
         setShowLogin(false);
       } else {
         setShowLogin(true);
@@ -31,9 +33,24 @@ export const AdminApp = () => {
     );
   }
 
+  // Drivers only ever get their own deliveries, whatever admin URL they open
+  if (!showLogin && userProfile?.role === 'driver') {
+    return <DriverView />;
+  }
+
   return (
     <Router>
       <Routes>
+        <Route 
+          path="/admin/kds" 
+          element={
+            showLogin ? (
+              <AdminLogin onSuccess={handleLoginSuccess} />
+            ) : (
+              <KitchenDisplay />
+            )
+          } 
+        />
         <Route 
           path="/admin/*" 
           element={